@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { FileUpload } from './components/FileUpload';
 import { CourseOutline } from './components/CourseOutline';
 import { LessonPlayer } from './components/LessonPlayer';
@@ -6,14 +6,44 @@ import { QuizView } from './components/QuizView';
 import { TutorSettings } from './components/TutorSettings';
 import { FeedbackModal } from './components/FeedbackModal';
 import { LoginScreen } from './components/LoginScreen';
-import { AppState, CourseStructure, Topic, LessonState, QuizQuestion, TutorProfile, Feedback, User } from './types';
-import * as GeminiService from './services/geminiService';
-import { Menu, X, Settings, UserCircle2, LogOut } from 'lucide-react';
+import { ErrorNotice } from './components/ErrorNotice';
+import { UsagePanel } from './components/UsagePanel';
+import { LearningSettings } from './components/LearningSettings';
+import { PdfViewer } from './components/PdfViewer';
+import { NotesPanel } from './components/NotesPanel';
+import { ReviewQueue } from './components/ReviewQueue';
+import { FlashcardReview } from './components/FlashcardReview';
+import { OfflineIndicator } from './components/OfflineIndicator';
+import { AppState, CourseStructure, Topic, LessonState, QuizQuestion, ShortAnswerGrade, ShortAnswerQuestion, TutorProfile, LearningPreferences, ChatMessage, SourceCitation, TranscriptNote, Flashcard, ReviewGrade, Feedback, User, DocumentPage, UsageLedger, UsageRecord } from './types';
+import { getContentProvider, GenerationOptions } from './services/contentProvider';
+import { getLessonCacheKey, getCachedLesson, putCachedLesson, deleteCachedLessonsOf, CachedLesson } from './services/lessonCache';
+import { getCachedQuiz, putCachedQuiz, deleteCachedQuizzesOf } from './services/quizCache';
+import { inlineImage, requestPersistentStorage } from './services/offline';
+import { hashPdf, getStoredDocument, putStoredDocument, deleteStoredDocument, StoredDocument } from './services/documentStore';
+import { extractPdfPages, ExtractionProgress } from './services/pdfText';
+import { getPagesInRange } from './services/documentPages';
+import { EMPTY_USAGE_LEDGER, addUsageEntry, assertWithinBudget } from './services/usage';
+import { getLessonScript } from './services/lessonContent';
+import { getLessonTurns } from './services/dialogue';
+import { toSpeakableText } from './services/richText';
+import { createFlashcards, mergeFlashcards, scheduleReview } from './services/flashcards';
+import { DEFAULT_LEARNING_PREFERENCES, normalizeLearningPreferences } from './services/learningPreferences';
+import { computeWordTimings } from './services/narrationTiming';
+import { generationQueue, QueuePriority } from './services/generationQueue';
+import { isAbortError } from './services/abort';
+import { GenerationError, UnreadablePdfError, classifyError } from './services/errors';
+import { Menu, X, Settings, UserCircle2, LogOut, Wallet, BookOpen, NotebookPen } from 'lucide-react';
 
 const STORAGE_KEY_PREFIX = 'ready2learn_state_';
 const FEEDBACK_KEY_PREFIX = 'ready2learn_feedback_';
-// Reduced to 4MB to prevent "Rpc failed due to xhr error" in browser environments
-const MAX_FILE_SIZE_MB = 4; 
+const USAGE_KEY_PREFIX = 'ready2learn_usage_';
+const CHAT_KEY_PREFIX = 'ready2learn_chat_';
+const NOTES_KEY_PREFIX = 'ready2learn_notes_';
+const CARDS_KEY_PREFIX = 'ready2learn_cards_';
+// Older messages of a topic's conversation are dropped beyond this
+const MAX_SAVED_CHAT_MESSAGES = 100;
+// Text is extracted in the browser and only a topic's pages are sent, so large books are fine
+const MAX_FILE_SIZE_MB = 200;
 const MAX_FILE_SIZE_BYTES = MAX_FILE_SIZE_MB * 1024 * 1024;
 
 const DEFAULT_TUTOR: TutorProfile = {
@@ -22,44 +52,220 @@ const DEFAULT_TUTOR: TutorProfile = {
   name: 'Alex'
 };
 
+const contentProvider = getContentProvider();
+if (import.meta.env.DEV) {
+  console.info(`Using "${contentProvider.name}" content provider.`);
+}
+
+const COURSE_MISSING_MESSAGE = "Course content is missing. Please upload the PDF again to continue.";
+
+/**
+ * The topic that follows `topicId` in course order, i.e. the one a passed quiz unlocks.
+ */
+const getNextTopic = (structure: CourseStructure, topicId: string): Topic | undefined => {
+  const allTopics = structure.chapters.flatMap(ch => ch.topics);
+  const currentIdx = allTopics.findIndex(t => t.id === topicId);
+  return currentIdx === -1 ? undefined : allTopics[currentIdx + 1];
+};
+
+const loadChatMessages = (key: string): ChatMessage[] => {
+  try {
+    const saved = localStorage.getItem(key);
+    return saved ? JSON.parse(saved) : [];
+  } catch (e) {
+    console.error("Failed to load tutor chat", e);
+    return [];
+  }
+};
+
+/**
+ * Appends to the conversation stored under `key` and returns the updated list.
+ */
+const appendChatMessage = (key: string, message: ChatMessage): ChatMessage[] => {
+  const messages = [...loadChatMessages(key), message].slice(-MAX_SAVED_CHAT_MESSAGES);
+  try {
+    localStorage.setItem(key, JSON.stringify(messages));
+  } catch (e) {
+    console.warn("Failed to save tutor chat", e);
+  }
+  return messages;
+};
+
+/**
+ * Per-course lists (notes, flashcards) kept in localStorage; `what` names them in logs.
+ */
+const loadStoredList = <T,>(key: string, what: string): T[] => {
+  try {
+    const saved = localStorage.getItem(key);
+    return saved ? JSON.parse(saved) : [];
+  } catch (e) {
+    console.error(`Failed to load ${what}`, e);
+    return [];
+  }
+};
+
+const saveStoredList = <T,>(key: string, list: T[], what: string) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(list));
+  } catch (e) {
+    console.warn(`Failed to save ${what}`, e);
+  }
+};
+
+/**
+ * Extracts the text of a PDF and keeps it (with the original file) on the device.
+ * Re-importing a file that is already stored reuses the earlier extraction.
+ */
+const importPdf = async (
+  data: ArrayBuffer,
+  name: string,
+  onProgress?: (progress: ExtractionProgress) => void,
+  signal?: AbortSignal
+): Promise<StoredDocument> => {
+  const hash = await hashPdf(data);
+  const existing = await getStoredDocument(hash);
+  if (existing) return existing;
+
+  const pages = await extractPdfPages(data, onProgress, signal);
+  if (!pages.some(p => p.text)) throw new UnreadablePdfError();
+
+  const doc: StoredDocument = { hash, name, pages, pdf: new Blob([data], { type: 'application/pdf' }), storedAt: new Date().toISOString() };
+  await putStoredDocument(doc);
+  return doc;
+};
+
+/**
+ * Deletes what a learner kept for a course: the tutor chats of its topics, notes and flashcards.
+ * The PDF and its cached lessons and quizzes are shared by the profiles on this device,
+ * so they are only removed when no other profile's saved course uses the same document.
+ */
+const deleteCourseData = async (userId: string, hash: string) => {
+  const keys = Array.from({ length: localStorage.length }, (_, i) => localStorage.key(i) ?? '');
+  const chatPrefix = `${CHAT_KEY_PREFIX}${userId}_${hash}_`;
+  keys.filter(key => key.startsWith(chatPrefix)).forEach(key => localStorage.removeItem(key));
+  localStorage.removeItem(`${NOTES_KEY_PREFIX}${userId}_${hash}`);
+  localStorage.removeItem(`${CARDS_KEY_PREFIX}${userId}_${hash}`);
+
+  const isUsedByAnotherProfile = keys.some(key => {
+    if (!key.startsWith(STORAGE_KEY_PREFIX) || key === `${STORAGE_KEY_PREFIX}${userId}`) return false;
+    try {
+      return JSON.parse(localStorage.getItem(key) || '{}').pdfHash === hash;
+    } catch {
+      return false;
+    }
+  });
+  if (isUsedByAnotherProfile) return;
+  await Promise.all([deleteStoredDocument(hash), deleteCachedLessonsOf(hash), deleteCachedQuizzesOf(hash)]);
+};
+
+/**
+ * Decodes a PDF that older versions of the app kept in localStorage as base64.
+ */
+const base64ToArrayBuffer = (base64: string): ArrayBuffer => {
+  const binary = atob(base64.replace(/[\r\n\s]/g, ''));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes.buffer;
+};
+
 const App: React.FC = () => {
   // User Authentication State
   const [currentUser, setCurrentUser] = useState<User | null>(null);
   
   const [appState, setAppState] = useState<AppState>(AppState.UPLOAD);
-  const [pdfBase64, setPdfBase64] = useState<string | null>(null);
+  // Text of the uploaded PDF, page by page; the PDF itself lives in IndexedDB under pdfHash
+  const [documentPages, setDocumentPages] = useState<DocumentPage[] | null>(null);
+  const [pdfHash, setPdfHash] = useState<string | null>(null);
   const [courseStructure, setCourseStructure] = useState<CourseStructure | null>(null);
   const [currentTopic, setCurrentTopic] = useState<Topic | null>(null);
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const [uploadError, setUploadError] = useState<string | null>(null);
+  const [uploadProgress, setUploadProgress] = useState<string | null>(null);
+  // Lesson and quiz failures, shown with a recovery action for their kind
+  const [generationError, setGenerationError] = useState<{ error: GenerationError; retry?: () => void } | null>(null);
   
   // Tutor State
   const [tutorProfile, setTutorProfile] = useState<TutorProfile>(DEFAULT_TUTOR);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [learningPreferences, setLearningPreferences] = useState<LearningPreferences>(DEFAULT_LEARNING_PREFERENCES);
+  const [isLearningOpen, setIsLearningOpen] = useState(false);
 
   // Lesson State
   const [lessonState, setLessonState] = useState<LessonState>({
     audioUrl: null,
-    imageUrl: null,
+    imageUrls: [],
     content: null,
+    wordTimings: null,
     isLoading: false,
+    fromCache: false,
   });
 
   // Quiz State
   const [quizQuestions, setQuizQuestions] = useState<QuizQuestion[]>([]);
   const [quizLoading, setQuizLoading] = useState(false);
+  // Quizzes generated ahead of time, keyed by PDF hash and topic id
+  const prefetchedQuizzes = useRef(new Map<string, Promise<QuizQuestion[]>>());
+
+  // In-flight requests. Starting a new one cancels the previous, so only the
+  // latest request is ever allowed to update state.
+  const analysisRequestRef = useRef<AbortController | null>(null);
+  const lessonRequestRef = useRef<AbortController | null>(null);
+  const quizRequestRef = useRef<AbortController | null>(null);
+  const prefetchRequestRef = useRef<AbortController | null>(null);
+  const chatRequestRef = useRef<AbortController | null>(null);
+
+  // "Ask the tutor" conversation of the current topic, saved per user, course and topic
+  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+  const chatKey = currentUser && pdfHash && currentTopic ? `${CHAT_KEY_PREFIX}${currentUser.id}_${pdfHash}_${currentTopic.id}` : null;
+  const chatKeyRef = useRef(chatKey);
+  chatKeyRef.current = chatKey;
+
+  // Transcript highlights and notes of the whole course, saved per user and course
+  const [notes, setNotes] = useState<TranscriptNote[]>([]);
+  const [isNotesOpen, setIsNotesOpen] = useState(false);
+  const notesKey = currentUser && pdfHash ? `${NOTES_KEY_PREFIX}${currentUser.id}_${pdfHash}` : null;
+  // Spaced-repetition cards of the course's completed topics, saved per user and course
+  const [flashcards, setFlashcards] = useState<Flashcard[]>([]);
+  const [isReviewOpen, setIsReviewOpen] = useState(false);
+  const cardsKey = currentUser && pdfHash ? `${CARDS_KEY_PREFIX}${currentUser.id}_${pdfHash}` : null;
+  // Timestamp the lesson player jumps to when a note is opened
+  const [seekRequest, setSeekRequest] = useState<{ time: number; note?: TranscriptNote } | null>(null);
 
   // Feedback State
   const [feedbacks, setFeedbacks] = useState<Feedback[]>([]);
   const [feedbackModalOpen, setFeedbackModalOpen] = useState(false);
   const [feedbackType, setFeedbackType] = useState<'lesson' | 'quiz'>('lesson');
 
+  // Usage State. The ref lets queued generations check the budget when they actually start.
+  const [usageLedger, setUsageLedger] = useState<UsageLedger>(EMPTY_USAGE_LEDGER);
+  const [isUsageOpen, setIsUsageOpen] = useState(false);
+  // Page of the PDF shown in the source viewer, when a citation was followed
+  const [viewerSource, setViewerSource] = useState<SourceCitation | null>(null);
+  const usageLedgerRef = useRef(usageLedger);
+  usageLedgerRef.current = usageLedger;
+
+  // Connectivity. Offline, generation waits in the queue; the offline provider needs no network.
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [queuedRequests, setQueuedRequests] = useState(generationQueue.pendingCount());
+  const isWaitingForNetwork = !isOnline && contentProvider.name !== 'local';
+  // Queued lessons and quizzes are held back until the connection returns
+  const isQueuedOffline = isWaitingForNetwork && queuedRequests > 0;
+
   // 1. Load Data When User Logs In
   useEffect(() => {
     if (!currentUser) return;
+    let cancelled = false;
 
     const userStorageKey = `${STORAGE_KEY_PREFIX}${currentUser.id}`;
     const userFeedbackKey = `${FEEDBACK_KEY_PREFIX}${currentUser.id}`;
+    const userUsageKey = `${USAGE_KEY_PREFIX}${currentUser.id}`;
+
+    // The document is loaded from IndexedDB; older saves still carry the PDF as base64
+    const restoreDocument = async (parsed: { pdfHash?: string; pdfBase64?: string }): Promise<StoredDocument | null> => {
+      if (parsed.pdfHash) return getStoredDocument(parsed.pdfHash);
+      if (parsed.pdfBase64) return importPdf(base64ToArrayBuffer(parsed.pdfBase64), 'Saved course');
+      return null;
+    };
 
     const savedData = localStorage.getItem(userStorageKey);
     if (savedData) {
@@ -67,12 +273,26 @@ const App: React.FC = () => {
         const parsed = JSON.parse(savedData);
         if (parsed.courseStructure) {
           setCourseStructure(parsed.courseStructure);
-          if (parsed.pdfBase64) {
-            setPdfBase64(parsed.pdfBase64);
-            setAppState(AppState.DASHBOARD);
-          } else {
-            setAppState(AppState.UPLOAD);
-          }
+          setAppState(AppState.ANALYZING);
+          setUploadProgress("Opening your saved course...");
+          restoreDocument(parsed)
+            .catch(e => {
+              console.warn("Failed to restore the saved PDF", e);
+              return null;
+            })
+            .then(doc => {
+              if (cancelled) return;
+              setUploadProgress(null);
+              if (doc) {
+                setDocumentPages(doc.pages);
+                setPdfHash(doc.hash);
+                setAppState(AppState.DASHBOARD);
+              } else {
+                // Kept so only the original PDF can resume the course, and its data stays reachable
+                setPdfHash(parsed.pdfHash ?? null);
+                setAppState(AppState.UPLOAD);
+              }
+            });
         } else {
             // Clean start if no course structure
             setAppState(AppState.UPLOAD);
@@ -82,6 +302,7 @@ const App: React.FC = () => {
         } else {
           setTutorProfile(DEFAULT_TUTOR);
         }
+        setLearningPreferences(normalizeLearningPreferences(parsed.learningPreferences));
       } catch (e) {
         console.error("Failed to load saved state", e);
         setAppState(AppState.UPLOAD);
@@ -90,8 +311,10 @@ const App: React.FC = () => {
         // New user or no data
         setAppState(AppState.UPLOAD);
         setCourseStructure(null);
-        setPdfBase64(null);
+        setDocumentPages(null);
+        setPdfHash(null);
         setTutorProfile(DEFAULT_TUTOR);
+        setLearningPreferences(DEFAULT_LEARNING_PREFERENCES);
     }
 
     const savedFeedback = localStorage.getItem(userFeedbackKey);
@@ -105,6 +328,16 @@ const App: React.FC = () => {
     } else {
         setFeedbacks([]);
     }
+
+    const savedUsage = localStorage.getItem(userUsageKey);
+    try {
+      setUsageLedger(savedUsage ? { ...EMPTY_USAGE_LEDGER, ...JSON.parse(savedUsage) } : EMPTY_USAGE_LEDGER);
+    } catch (e) {
+      console.error("Failed to load usage", e);
+      setUsageLedger(EMPTY_USAGE_LEDGER);
+    }
+
+    return () => { cancelled = true; };
   }, [currentUser]);
 
   // 2. Save Data When State Changes (Only if Logged In)
@@ -114,25 +347,56 @@ const App: React.FC = () => {
     const userStorageKey = `${STORAGE_KEY_PREFIX}${currentUser.id}`;
 
     // Only save if we have meaningful data or if we explicitly want to save empty state (reset)
-    if (courseStructure || tutorProfile) {
+    // While a saved course is being reopened its hash is not known yet, so keep the stored one
+    if ((courseStructure || tutorProfile) && appState !== AppState.ANALYZING) {
       try {
         localStorage.setItem(userStorageKey, JSON.stringify({
           courseStructure,
-          pdfBase64,
-          tutorProfile
+          pdfHash,
+          tutorProfile,
+          learningPreferences
         }));
       } catch (e) {
-        console.warn("Storage quota exceeded. Saving progress without PDF cache.");
-        try {
-          localStorage.setItem(userStorageKey, JSON.stringify({
-            courseStructure,
-            pdfBase64: null,
-            tutorProfile
-          }));
-        } catch (innerError) {}
+        console.warn("Failed to save progress", e);
       }
     }
-  }, [courseStructure, pdfBase64, tutorProfile, currentUser]);
+  }, [courseStructure, pdfHash, tutorProfile, learningPreferences, currentUser, appState]);
+
+  useEffect(() => {
+    const update = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    const unsubscribe = generationQueue.subscribe(() => setQueuedRequests(generationQueue.pendingCount()));
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+      unsubscribe();
+    };
+  }, []);
+
+  useEffect(() => {
+    generationQueue.setPaused(isWaitingForNetwork);
+  }, [isWaitingForNetwork]);
+
+  useEffect(() => {
+    setChatMessages(chatKey ? loadChatMessages(chatKey) : []);
+  }, [chatKey]);
+
+  useEffect(() => {
+    setNotes(notesKey ? loadStoredList<TranscriptNote>(notesKey, 'notes') : []);
+  }, [notesKey]);
+
+  useEffect(() => {
+    setFlashcards(cardsKey ? loadStoredList<Flashcard>(cardsKey, 'flashcards') : []);
+  }, [cardsKey]);
+
+  // Release the previous audio blob URL when the lesson changes
+  useEffect(() => {
+    const audioUrl = lessonState.audioUrl;
+    return () => {
+      if (audioUrl?.startsWith('blob:')) URL.revokeObjectURL(audioUrl);
+    };
+  }, [lessonState.audioUrl]);
 
   // Save Feedback on Change
   useEffect(() => {
@@ -141,17 +405,78 @@ const App: React.FC = () => {
     localStorage.setItem(userFeedbackKey, JSON.stringify(feedbacks));
   }, [feedbacks, currentUser]);
 
+  // Save Usage on Change
+  useEffect(() => {
+    if (!currentUser) return;
+    const userUsageKey = `${USAGE_KEY_PREFIX}${currentUser.id}`;
+    try {
+      localStorage.setItem(userUsageKey, JSON.stringify(usageLedger));
+    } catch (e) {
+      console.warn("Failed to save usage", e);
+    }
+  }, [usageLedger, currentUser]);
+
+  const beginRequest = (ref: React.MutableRefObject<AbortController | null>): AbortController => {
+    ref.current?.abort();
+    const controller = new AbortController();
+    ref.current = controller;
+    return controller;
+  };
+
+  const cancelRequest = (ref: React.MutableRefObject<AbortController | null>) => {
+    ref.current?.abort();
+    ref.current = null;
+  };
+
+  const cancelLessonRequests = () => {
+    cancelRequest(lessonRequestRef);
+    cancelRequest(quizRequestRef);
+    cancelRequest(prefetchRequestRef);
+    cancelRequest(chatRequestRef);
+    setQuizLoading(false);
+  };
+
+  const cancelAllRequests = () => {
+    cancelLessonRequests();
+    cancelRequest(analysisRequestRef);
+  };
+
+  /**
+   * Options for a provider call; model usage is recorded against the given course.
+   */
+  const generationOptions = (signal: AbortSignal, courseId: string, courseTitle: string): GenerationOptions => ({
+    signal,
+    profileId: currentUser?.id,
+    onUsage: (record: UsageRecord) => {
+      const entry = { ...record, courseId, courseTitle, createdAt: new Date().toISOString() };
+      setUsageLedger(prev => addUsageEntry(prev, entry));
+    }
+  });
+
+  const ensureWithinBudget = () => assertWithinBudget(usageLedgerRef.current);
+
+  // The course's PDF hash, which usage and cache keys are made from; it loads after a restored session
+  const requireCourseId = (): string => {
+    if (!pdfHash) throw new GenerationError('unknown', COURSE_MISSING_MESSAGE, false);
+    return pdfHash;
+  };
+
   const handleLogin = (user: User) => {
     setCurrentUser(user);
   };
 
   const handleLogout = () => {
+    cancelAllRequests();
+    setGenerationError(null);
     setCurrentUser(null);
     // Reset local state to avoid flashing old data on next login
     setCourseStructure(null);
-    setPdfBase64(null);
+    setDocumentPages(null);
+    setPdfHash(null);
     setCurrentTopic(null);
     setFeedbacks([]);
+    setUsageLedger(EMPTY_USAGE_LEDGER);
+    setUploadProgress(null);
     setAppState(AppState.UPLOAD);
   };
 
@@ -176,128 +501,368 @@ const App: React.FC = () => {
     }
 
     const isResuming = !!courseStructure;
+    const controller = beginRequest(analysisRequestRef);
     setAppState(AppState.ANALYZING);
-    
-    const reader = new FileReader();
-    
-    reader.onload = async () => {
-      const result = reader.result as string;
-      const base64String = result.split(',')[1];
-      
-      if (!base64String) {
-          setUploadError("Failed to read file. Please try again.");
-          setAppState(AppState.UPLOAD);
-          return;
-      }
-
-      setPdfBase64(base64String);
-      
-      if (isResuming) {
-         console.log("Resuming session with new PDF upload.");
-         setAppState(AppState.DASHBOARD);
-         return;
-      }
+    setUploadProgress("Reading your PDF...");
 
-      try {
-        const structure = await GeminiService.analyzePdfStructure(base64String);
-        setCourseStructure(structure);
-        setAppState(AppState.DASHBOARD);
-      } catch (err: any) {
-        console.error(err);
-        setUploadError(err.message || "Failed to analyze PDF. Please ensure it is a valid text-based PDF.");
+    let doc: StoredDocument;
+    try {
+      const data = await file.arrayBuffer();
+      // The saved outline's page ranges belong to the original file, so only that one can resume it
+      if (isResuming && pdfHash && await hashPdf(data) !== pdfHash) {
+        if (controller.signal.aborted) return;
+        setUploadProgress(null);
+        setUploadError(`This isn't the PDF "${courseStructure?.title}" was made from. Upload the original file, or reset to start a new course.`);
         setAppState(AppState.UPLOAD);
-        setCourseStructure(null);
+        return;
       }
-    };
+      doc = await importPdf(data, file.name, ({ stage, done, total }) => {
+        if (controller.signal.aborted) return;
+        setUploadProgress(stage === 'ocr'
+          ? `Recognizing scanned page ${done} of ${total}...`
+          : `Reading page ${done} of ${total}...`);
+      }, controller.signal);
+    } catch (err: any) {
+      if (controller.signal.aborted || isAbortError(err)) return;
+      console.error(err);
+      setUploadProgress(null);
+      setUploadError(classifyError(err).message);
+      setAppState(AppState.UPLOAD);
+      return;
+    }
+    if (controller.signal.aborted) return;
 
-    reader.onerror = () => {
-        setUploadError("Error reading file.");
-        setAppState(AppState.UPLOAD);
-    };
+    setDocumentPages(doc.pages);
+    setPdfHash(doc.hash);
+
+    if (isResuming) {
+       setUploadProgress(null);
+       setAppState(AppState.DASHBOARD);
+       return;
+    }
 
-    reader.readAsDataURL(file);
+    setUploadProgress(null);
+    try {
+      ensureWithinBudget();
+      const structure = await contentProvider.analyzePdfStructure(doc.pages, learningPreferences.language, generationOptions(controller.signal, doc.hash, doc.name));
+      if (controller.signal.aborted) return;
+      setCourseStructure(structure);
+      setAppState(AppState.DASHBOARD);
+    } catch (err: any) {
+      if (controller.signal.aborted || isAbortError(err)) return;
+      console.error(err);
+      setUploadError(classifyError(err).message);
+      setAppState(AppState.UPLOAD);
+      setCourseStructure(null);
+    }
   };
 
   const handleReset = () => {
-    if (window.confirm("Are you sure? This will delete your progress and feedback for this course.")) {
+    if (window.confirm("Are you sure? This will delete your progress, feedback, notes, flashcards and tutor chats for this course, and remove the PDF and its saved lessons and quizzes from this device unless another profile uses them. Your usage history and budget are kept.")) {
+      cancelAllRequests();
+      prefetchedQuizzes.current.clear();
       if (currentUser) {
           const userStorageKey = `${STORAGE_KEY_PREFIX}${currentUser.id}`;
           const userFeedbackKey = `${FEEDBACK_KEY_PREFIX}${currentUser.id}`;
           localStorage.removeItem(userStorageKey);
           localStorage.removeItem(userFeedbackKey);
+          if (pdfHash) deleteCourseData(currentUser.id, pdfHash);
       }
       
       setCourseStructure(null);
-      setPdfBase64(null);
+      setDocumentPages(null);
+      setPdfHash(null);
       setCurrentTopic(null);
       setFeedbacks([]);
       setAppState(AppState.UPLOAD);
       setIsSidebarOpen(false);
       setUploadError(null);
+      setUploadProgress(null);
     }
   };
 
-  const handleTopicSelect = async (topic: Topic) => {
+  // Quizzes are pitched at the learner, so a prefetched one only fits the same preferences
+  const getQuizKey = (hash: string, topicId: string) =>
+    [hash, topicId, learningPreferences.level, learningPreferences.exampleDensity, learningPreferences.language].join(':');
+
+  /**
+   * Generates a lesson through the shared queue and stores it in the lesson cache.
+   * Concurrent requests for the same lesson share a single generation.
+   */
+  const buildLesson = (topic: Topic, pages: DocumentPage[], courseId: string, cacheKey: string, priority: QueuePriority, signal: AbortSignal): Promise<CachedLesson> => {
+    // The queue's signal aborts only once every request waiting for this lesson is cancelled
+    return generationQueue.enqueue(`lesson:${cacheKey}`, async taskSignal => {
+      ensureWithinBudget();
+      const options = generationOptions(taskSignal, courseId, courseStructure?.title ?? 'Untitled Course');
+      const topicPages = getPagesInRange(pages, topic.pageRange);
+      const content = await contentProvider.generateLessonContent(topic.title, topicPages, tutorProfile, learningPreferences, options);
+      const script = getLessonScript(content);
+      const [audio, imageUrls] = await Promise.all([
+        content.speakers
+          ? contentProvider.generateDialogueAudio(getLessonTurns(content).map(turn => ({ ...turn, text: toSpeakableText(turn.text) })), content.speakers, options)
+          : contentProvider.generateLessonAudio(toSpeakableText(script), tutorProfile, options),
+        // Remote images are stored inside the lesson, so it plays offline too
+        Promise.all(content.scenes.map(scene => contentProvider.generateLessonImage(scene.visualPrompt, options).then(url => inlineImage(url, taskSignal))))
+      ]);
+      const wordTimings = await computeWordTimings(audio, script);
+      const lesson: CachedLesson = { content, audio, imageUrls, wordTimings, createdAt: new Date().toISOString() };
+      await putCachedLesson(cacheKey, lesson);
+      requestPersistentStorage();
+      return lesson;
+    }, priority, signal);
+  };
+
+  // While a lesson plays, prefetch its quiz and the next topic's lesson
+  useEffect(() => {
+    if (appState !== AppState.LESSON || !lessonState.content || !currentTopic || !courseStructure || !documentPages || !pdfHash) return;
+
+    if (!prefetchRequestRef.current) {
+      prefetchRequestRef.current = new AbortController();
+    }
+    const { signal } = prefetchRequestRef.current;
+
+    const quizKey = getQuizKey(pdfHash, currentTopic.id);
+    if (!prefetchedQuizzes.current.has(quizKey)) {
+      const topicTitle = currentTopic.title;
+      const topicPages = getPagesInRange(documentPages, currentTopic.pageRange);
+      const quizPromise = generationQueue.enqueue(
+        `quiz:${quizKey}`,
+        async taskSignal => {
+          ensureWithinBudget();
+          return contentProvider.generateQuiz(topicTitle, topicPages, learningPreferences, generationOptions(taskSignal, pdfHash, courseStructure.title));
+        },
+        'low',
+        signal
+      );
+      prefetchedQuizzes.current.set(quizKey, quizPromise);
+      quizPromise.then(questions => putCachedQuiz(quizKey, { questions, createdAt: new Date().toISOString() }), err => {
+        if (!isAbortError(err)) console.warn("Quiz prefetch failed", err);
+        if (prefetchedQuizzes.current.get(quizKey) === quizPromise) {
+          prefetchedQuizzes.current.delete(quizKey);
+        }
+      });
+    }
+
+    const nextTopic = getNextTopic(courseStructure, currentTopic.id);
+    if (nextTopic) {
+      const nextKey = getLessonCacheKey(pdfHash, nextTopic.id, tutorProfile, learningPreferences);
+      getCachedLesson(nextKey).then(cached => {
+        if (!cached && !signal.aborted) {
+          buildLesson(nextTopic, documentPages, pdfHash, nextKey, 'low', signal).catch(err => {
+            if (!isAbortError(err)) console.warn("Lesson prefetch failed", err);
+          });
+        }
+      });
+    }
+  }, [appState, lessonState.content, currentTopic, courseStructure, documentPages, pdfHash, tutorProfile, learningPreferences]);
+
+  const handleTopicSelect = async (topic: Topic, regenerate = false) => {
     if (!courseStructure) {
         setAppState(AppState.UPLOAD);
         return;
     }
 
-    if (!pdfBase64) {
-        alert("Course content is missing. Please upload the PDF again to continue.");
+    if (!documentPages || !pdfHash) {
+        setUploadError(COURSE_MISSING_MESSAGE);
         setAppState(AppState.UPLOAD);
         return;
     }
     
+    setGenerationError(null);
+    setSeekRequest(null);
+    // Prefetches are only worth keeping if the learner moved on to the topic they were for
+    const prefetchedTopic = currentTopic ? getNextTopic(courseStructure, currentTopic.id) : undefined;
+    if (topic.id !== prefetchedTopic?.id) {
+      cancelRequest(prefetchRequestRef);
+    }
+    cancelRequest(quizRequestRef);
+    setQuizLoading(false);
+    const controller = beginRequest(lessonRequestRef);
+
     setCurrentTopic(topic);
     setAppState(AppState.LESSON);
     setIsSidebarOpen(false);
-    setLessonState(prev => ({ ...prev, isLoading: true, audioUrl: null, imageUrl: null, content: null }));
+    setLessonState(prev => ({ ...prev, isLoading: true, audioUrl: null, imageUrls: [], content: null, wordTimings: null, fromCache: false }));
 
     try {
-      const contentPromise = GeminiService.generateLessonContent(topic.title, pdfBase64, tutorProfile);
-      const content = await contentPromise;
-      
-      const [audioUrl, imageUrl] = await Promise.all([
-        GeminiService.generateLessonAudio(content.script, tutorProfile),
-        GeminiService.generateLessonImage(content.visualPrompt)
-      ]);
+      const cacheKey = getLessonCacheKey(pdfHash, topic.id, tutorProfile, learningPreferences);
+
+      if (!regenerate) {
+        const cached = await getCachedLesson(cacheKey);
+        if (controller.signal.aborted) return;
+        if (cached) {
+          const wordTimings = cached.wordTimings !== undefined
+            ? cached.wordTimings
+            : await computeWordTimings(cached.audio, getLessonScript(cached.content));
+          if (controller.signal.aborted) return;
+          setLessonState({
+            content: cached.content,
+            audioUrl: URL.createObjectURL(cached.audio),
+            imageUrls: cached.imageUrls,
+            wordTimings,
+            isLoading: false,
+            fromCache: true
+          });
+          return;
+        }
+      }
+
+      const { content, audio, imageUrls, wordTimings } = await buildLesson(topic, documentPages, pdfHash, cacheKey, 'high', controller.signal);
+      if (controller.signal.aborted) return;
 
       setLessonState({
         content,
-        audioUrl,
-        imageUrl,
-        isLoading: false
+        audioUrl: URL.createObjectURL(audio),
+        imageUrls,
+        wordTimings: wordTimings ?? null,
+        isLoading: false,
+        fromCache: false
       });
     } catch (err: any) {
+      if (controller.signal.aborted || isAbortError(err)) return;
       console.error(err);
-      alert(err.message || "Error generating lesson content. Please try again.");
+      setGenerationError({ error: classifyError(err), retry: () => handleTopicSelect(topic, regenerate) });
       setAppState(AppState.DASHBOARD);
     }
   };
 
   const startQuiz = async () => {
-    if (!currentTopic || !pdfBase64) return;
+    if (!currentTopic) return;
+    if (!documentPages || !pdfHash) {
+        setUploadError(COURSE_MISSING_MESSAGE);
+        setAppState(AppState.UPLOAD);
+        return;
+    }
+    const controller = beginRequest(quizRequestRef);
+    setGenerationError(null);
     setQuizLoading(true);
+    const quizKey = getQuizKey(pdfHash, currentTopic.id);
     try {
-      const questions = await GeminiService.generateQuiz(currentTopic.title, pdfBase64);
+      // Offline, the topic's last generated quiz is reused rather than waiting for the connection
+      const saved = isWaitingForNetwork ? await getCachedQuiz(quizKey) : null;
+      if (controller.signal.aborted) return;
+      if (saved) {
+        setQuizQuestions(saved.questions);
+        setAppState(AppState.QUIZ);
+        return;
+      }
+
+      const prefetched = prefetchedQuizzes.current.get(quizKey);
+      // A prefetched quiz is used once, so a retake gets fresh questions
+      prefetchedQuizzes.current.delete(quizKey);
+      // A prefetch still in the queue is joined rather than awaited, so cancelling it doesn't cancel this quiz
+      const questions = await (prefetched && !generationQueue.has(`quiz:${quizKey}`) ? prefetched : generationQueue.enqueue(
+        `quiz:${quizKey}`,
+        async taskSignal => {
+          ensureWithinBudget();
+          const topicPages = getPagesInRange(documentPages, currentTopic.pageRange);
+          return contentProvider.generateQuiz(currentTopic.title, topicPages, learningPreferences, generationOptions(taskSignal, pdfHash, courseStructure?.title ?? 'Untitled Course'));
+        },
+        'high',
+        controller.signal
+      ));
+      if (controller.signal.aborted) return;
+      putCachedQuiz(quizKey, { questions, createdAt: new Date().toISOString() });
       setQuizQuestions(questions);
       setAppState(AppState.QUIZ);
     } catch (err) {
+      if (controller.signal.aborted || isAbortError(err)) return;
       console.error(err);
-      alert("Could not generate quiz.");
+      setGenerationError({ error: classifyError(err), retry: startQuiz });
     } finally {
-      setQuizLoading(false);
+      if (quizRequestRef.current === controller) setQuizLoading(false);
     }
   };
 
+  /**
+   * Sends a learner question to the tutor. Both the question and the answer are saved
+   * with the topic they were asked in, even if the learner moves on meanwhile.
+   * Failures are thrown to the chat panel, which shows them inline.
+   */
+  const handleAskTutor = async (question: string): Promise<ChatMessage | undefined> => {
+    if (!currentTopic || !documentPages || !pdfHash || !chatKey) return undefined;
+    const key = chatKey;
+    const topic = currentTopic;
+    const history = loadChatMessages(key);
+    const save = (message: ChatMessage) => {
+      const messages = appendChatMessage(key, message);
+      if (chatKeyRef.current === key) setChatMessages(messages);
+    };
+
+    // Over budget, the question is not asked, so it isn't kept in the conversation either
+    ensureWithinBudget();
+    save({ id: `${Date.now()}-learner`, role: 'learner', text: question, createdAt: new Date().toISOString() });
+    const controller = beginRequest(chatRequestRef);
+    const { answer, pages } = await contentProvider.askTutor(
+      question,
+      history,
+      topic.title,
+      getPagesInRange(documentPages, topic.pageRange),
+      tutorProfile,
+      learningPreferences,
+      generationOptions(controller.signal, pdfHash, courseStructure?.title ?? 'Untitled Course')
+    );
+    const reply: ChatMessage = { id: `${Date.now()}-tutor`, role: 'tutor', text: answer, pages, createdAt: new Date().toISOString() };
+    save(reply);
+    return reply;
+  };
+
+  /**
+   * Narrates a tutor answer with the lesson voice.
+   */
+  const handleSpeakAnswer = (text: string, signal: AbortSignal): Promise<Blob> => {
+    ensureWithinBudget();
+    return contentProvider.generateLessonAudio(toSpeakableText(text), tutorProfile, generationOptions(signal, requireCourseId(), courseStructure?.title ?? 'Untitled Course'));
+  };
+
+  const handleGradeShortAnswer = (question: ShortAnswerQuestion, answer: string, signal: AbortSignal): Promise<ShortAnswerGrade> => {
+    ensureWithinBudget();
+    return contentProvider.gradeShortAnswer(question, answer, learningPreferences, generationOptions(signal, requireCourseId(), courseStructure?.title ?? 'Untitled Course'));
+  };
+
+  const handleSaveNote = (note: TranscriptNote) => {
+    if (!notesKey) return;
+    const next = [...notes.filter(n => n.id !== note.id), note];
+    setNotes(next);
+    saveStoredList(notesKey, next, 'notes');
+  };
+
+  const handleDeleteNote = (id: string) => {
+    if (!notesKey) return;
+    const next = notes.filter(n => n.id !== id);
+    setNotes(next);
+    saveStoredList(notesKey, next, 'notes');
+  };
+
+  const handleOpenNote = (note: TranscriptNote) => {
+    const topic = courseStructure?.chapters.flatMap(ch => ch.topics).find(t => t.id === note.topicId);
+    if (!topic) return;
+    setIsNotesOpen(false);
+    if (appState !== AppState.LESSON || currentTopic?.id !== topic.id) {
+      handleTopicSelect(topic);
+    }
+    setSeekRequest({ time: note.time, note });
+  };
+
+  const handleGradeCard = (card: Flashcard, grade: ReviewGrade) => {
+    if (!cardsKey) return;
+    const reviewed = scheduleReview(card, grade);
+    const next = flashcards.map(c => c.id === card.id ? reviewed : c);
+    setFlashcards(next);
+    saveStoredList(cardsKey, next, 'flashcards');
+  };
+
+  const handleExit = () => {
+    cancelLessonRequests();
+    setGenerationError(null);
+    setAppState(AppState.DASHBOARD);
+  };
+
   const handleQuizFinish = (passed: boolean) => {
     if (!courseStructure || !currentTopic) return;
 
     if (passed) {
-      const allTopics = courseStructure.chapters.flatMap(ch => ch.topics);
-      const currentIdx = allTopics.findIndex(t => t.id === currentTopic.id);
-      const nextTopic = allTopics[currentIdx + 1];
+      const nextTopic = getNextTopic(courseStructure, currentTopic.id);
 
       const newChapters = courseStructure.chapters.map(ch => ({
         ...ch,
@@ -314,6 +879,13 @@ const App: React.FC = () => {
       
       const updatedStructure = { ...courseStructure, chapters: newChapters };
       setCourseStructure(updatedStructure);
+
+      // A completed topic moves into spaced review
+      if (cardsKey) {
+        const cards = mergeFlashcards(flashcards, createFlashcards(currentTopic, lessonState.content, quizQuestions));
+        setFlashcards(cards);
+        saveStoredList(cardsKey, cards, 'flashcards');
+      }
       setAppState(AppState.DASHBOARD);
     } else {
        setAppState(AppState.LESSON);
@@ -373,6 +945,7 @@ const App: React.FC = () => {
                  <FileUpload 
                    onFileSelected={handleFileUpload} 
                    isProcessing={appState === AppState.ANALYZING} 
+                   progressLabel={uploadProgress}
                    currentCourseTitle={courseStructure?.title}
                    onReset={handleReset}
                    error={uploadError}
@@ -392,6 +965,54 @@ const App: React.FC = () => {
             onSave={setTutorProfile}
           />
 
+          <LearningSettings 
+            isOpen={isLearningOpen}
+            onClose={() => setIsLearningOpen(false)}
+            currentPreferences={learningPreferences}
+            onSave={setLearningPreferences}
+          />
+
+          <UsagePanel
+            isOpen={isUsageOpen}
+            onClose={() => setIsUsageOpen(false)}
+            ledger={usageLedger}
+            currentCourseId={pdfHash}
+            onSetBudget={monthlyBudgetUsd => setUsageLedger(prev => ({ ...prev, monthlyBudgetUsd }))}
+          />
+
+          <NotesPanel
+            isOpen={isNotesOpen}
+            onClose={() => setIsNotesOpen(false)}
+            notes={notes}
+            courseStructure={courseStructure}
+            onOpenNote={handleOpenNote}
+            onDeleteNote={handleDeleteNote}
+          />
+
+          <FlashcardReview
+            isOpen={isReviewOpen}
+            onClose={() => setIsReviewOpen(false)}
+            cards={flashcards}
+            onGrade={handleGradeCard}
+            onOpenSource={setViewerSource}
+          />
+
+          <PdfViewer
+            pdfHash={pdfHash}
+            target={viewerSource}
+            onClose={() => setViewerSource(null)}
+          />
+
+          {generationError && (
+            <ErrorNotice
+              error={generationError.error}
+              onRetry={generationError.retry}
+              onUploadNew={() => setAppState(AppState.UPLOAD)}
+              onOpenUsage={() => setIsUsageOpen(true)}
+              onDismiss={() => setGenerationError(null)}
+            />
+          )}
+
           <FeedbackModal 
             isOpen={feedbackModalOpen}
             onClose={() => setFeedbackModalOpen(false)}
@@ -454,6 +1075,8 @@ const App: React.FC = () => {
               </div>
               
               <div className="flex items-center gap-3">
+                 <OfflineIndicator isOnline={isOnline} queuedRequests={queuedRequests} />
+
                  {/* Tutor Profile Trigger */}
                  <button 
                    onClick={() => setIsSettingsOpen(true)}
@@ -465,9 +1088,33 @@ const App: React.FC = () => {
                     <Settings size={14} className="group-hover:rotate-45 transition-transform opacity-50" />
                  </button>
 
+                 <button 
+                   onClick={() => setIsLearningOpen(true)}
+                   className="text-slate-500 hover:text-indigo-400 transition-colors p-2"
+                   title="Learning Preferences"
+                 >
+                   <BookOpen size={18} />
+                 </button>
+
+                 <button 
+                   onClick={() => setIsNotesOpen(true)}
+                   className="text-slate-500 hover:text-indigo-400 transition-colors p-2"
+                   title="My Notes"
+                 >
+                   <NotebookPen size={18} />
+                 </button>
+
+                 <button 
+                   onClick={() => setIsUsageOpen(true)}
+                   className="text-slate-500 hover:text-indigo-400 transition-colors p-2"
+                   title="Usage"
+                 >
+                   <Wallet size={18} />
+                 </button>
+
                  {appState !== AppState.DASHBOARD && (
                    <button 
-                     onClick={() => setAppState(AppState.DASHBOARD)}
+                     onClick={handleExit}
                      className="text-xs md:text-sm px-3 py-1.5 rounded-full bg-slate-800 text-slate-300 hover:bg-slate-700 hover:text-white transition-colors"
                    >
                      Exit
@@ -512,6 +1159,8 @@ const App: React.FC = () => {
                       >
                         View Course Topics
                       </button>
+
+                      <ReviewQueue cards={flashcards} onStart={() => setIsReviewOpen(true)} />
                    </div>
                 )}
 
@@ -522,6 +1171,18 @@ const App: React.FC = () => {
                         state={lessonState} 
                         onComplete={startQuiz} 
                         onFeedback={() => openFeedbackModal('lesson')}
+                        onRegenerate={() => handleTopicSelect(currentTopic, true)}
+                        tutorName={tutorProfile.name}
+                        chatMessages={chatMessages}
+                        onAskTutor={handleAskTutor}
+                        onSpeakAnswer={handleSpeakAnswer}
+                        onOpenSource={setViewerSource}
+                        notes={notes.filter(n => n.topicId === currentTopic.id)}
+                        onSaveNote={handleSaveNote}
+                        onDeleteNote={handleDeleteNote}
+                        seekRequest={seekRequest}
+                        onSeekHandled={() => setSeekRequest(null)}
+                        isWaitingForNetwork={isQueuedOffline}
                     />
                   </div>
                 )}
@@ -532,6 +1193,9 @@ const App: React.FC = () => {
                          questions={quizQuestions}
                          onFinish={handleQuizFinish}
                          onFeedback={() => openFeedbackModal('quiz')}
+                         onOpenSource={setViewerSource}
+                         onGradeShortAnswer={handleGradeShortAnswer}
+                         language={learningPreferences.language}
                        />
                    </div>
                 )}
@@ -541,8 +1205,10 @@ const App: React.FC = () => {
                  <div className="absolute inset-0 bg-slate-950/80 backdrop-blur-sm flex items-center justify-center z-50">
                      <div className="text-center p-8 rounded-2xl bg-slate-900 border border-slate-800 shadow-2xl">
                          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-500 mx-auto mb-4"></div>
-                         <h3 className="text-white font-bold text-lg">Generating Quiz</h3>
-                         <p className="text-slate-400 text-sm">Analyzing content...</p>
+                         <h3 className="text-white font-bold text-lg">{isQueuedOffline ? 'Waiting for a Connection' : 'Generating Quiz'}</h3>
+                         <p className="text-slate-400 text-sm max-w-xs">
+                           {isQueuedOffline ? "You're offline. The quiz is queued and will be created when you're back online." : 'Analyzing content...'}
+                         </p>
                      </div>
                  </div>
             )}
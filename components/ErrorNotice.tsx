@@ -0,0 +1,85 @@
+import React from 'react';
+import { GenerationError, GenerationErrorKind } from '../services/errors';
+import { AlertCircle, WifiOff, Hourglass, FileWarning, ShieldAlert, RotateCcw, Upload, X, Wallet } from 'lucide-react';
+
+interface ErrorNoticeProps {
+  error: GenerationError;
+  onRetry?: () => void;
+  onUploadNew?: () => void;
+  onOpenUsage?: () => void;
+  onDismiss: () => void;
+}
+
+type RecoveryAction = 'retry' | 'upload' | 'usage' | 'dismiss';
+
+const KIND_DETAILS: Record<GenerationErrorKind, { title: string; icon: React.ReactNode; action: RecoveryAction }> = {
+  network: { title: 'Connection Problem', icon: <WifiOff size={20} />, action: 'retry' },
+  quota: { title: 'Slow Down', icon: <Hourglass size={20} />, action: 'retry' },
+  payload_too_large: { title: 'PDF Too Large', icon: <FileWarning size={20} />, action: 'upload' },
+  unreadable_pdf: { title: 'PDF Unreadable', icon: <FileWarning size={20} />, action: 'upload' },
+  safety_blocked: { title: 'Content Blocked', icon: <ShieldAlert size={20} />, action: 'dismiss' },
+  invalid_output: { title: 'Generation Failed', icon: <AlertCircle size={20} />, action: 'retry' },
+  budget_exceeded: { title: 'Budget Reached', icon: <Wallet size={20} />, action: 'usage' },
+  bad_request: { title: 'Request Rejected', icon: <AlertCircle size={20} />, action: 'dismiss' },
+  unknown: { title: 'Something Went Wrong', icon: <AlertCircle size={20} />, action: 'retry' },
+};
+
+export const ErrorNotice: React.FC<ErrorNoticeProps> = ({ error, onRetry, onUploadNew, onOpenUsage, onDismiss }) => {
+  const details = KIND_DETAILS[error.kind];
+  // Fall back to dismissing when the caller can't offer the preferred recovery
+  const action: RecoveryAction =
+    details.action === 'retry' && !onRetry ? 'dismiss' :
+    details.action === 'upload' && !onUploadNew ? 'dismiss' :
+    details.action === 'usage' && !onOpenUsage ? 'dismiss' :
+    details.action;
+
+  return (
+    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-[70] w-[calc(100%-2rem)] max-w-lg animate-in fade-in slide-in-from-bottom-4 duration-300" role="alert">
+      <div className="bg-slate-900 border border-red-500/30 rounded-2xl shadow-2xl p-4 flex items-start gap-4">
+        <div className="w-10 h-10 flex-shrink-0 rounded-xl bg-red-900/30 text-red-400 flex items-center justify-center">
+          {details.icon}
+        </div>
+        <div className="flex-1 min-w-0">
+          <h3 className="text-sm font-bold text-white">{details.title}</h3>
+          <p className="text-sm text-slate-400 mt-1 leading-relaxed">{error.message}</p>
+
+          <div className="flex gap-2 mt-4">
+            {action === 'retry' && (
+              <button
+                onClick={() => { onDismiss(); onRetry?.(); }}
+                className="flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-500 text-white text-sm font-semibold rounded-lg transition-colors"
+              >
+                <RotateCcw size={16} /> Try Again
+              </button>
+            )}
+            {action === 'upload' && (
+              <button
+                onClick={() => { onDismiss(); onUploadNew?.(); }}
+                className="flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-500 text-white text-sm font-semibold rounded-lg transition-colors"
+              >
+                <Upload size={16} /> Upload Another PDF
+              </button>
+            )}
+            {action === 'usage' && (
+              <button
+                onClick={() => { onDismiss(); onOpenUsage?.(); }}
+                className="flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-500 text-white text-sm font-semibold rounded-lg transition-colors"
+              >
+                <Wallet size={16} /> Open Usage
+              </button>
+            )}
+            <button
+              onClick={onDismiss}
+              className="px-4 py-2 bg-slate-800 hover:bg-slate-700 text-slate-300 text-sm font-medium rounded-lg transition-colors"
+            >
+              {action === 'dismiss' ? 'OK' : 'Dismiss'}
+            </button>
+          </div>
+        </div>
+        <button onClick={onDismiss} className="text-slate-500 hover:text-white transition-colors">
+          <X size={18} />
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -7,6 +7,8 @@ interface FileUploadProps {
   currentCourseTitle?: string;
   onReset?: () => void;
   error?: string | null;
+  /** Replaces the default "Analyzing content" message, e.g. while pages are being read. */
+  progressLabel?: string | null;
 }
 
 export const FileUpload: React.FC<FileUploadProps> = ({ 
@@ -14,7 +16,8 @@ export const FileUpload: React.FC<FileUploadProps> = ({
   isProcessing, 
   currentCourseTitle,
   onReset,
-  error
+  error,
+  progressLabel
 }) => {
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
@@ -48,9 +51,16 @@ export const FileUpload: React.FC<FileUploadProps> = ({
            <div className="mb-8 p-6 bg-slate-900 rounded-xl border border-indigo-500/30 shadow-lg shadow-indigo-500/10">
               <h3 className="text-indigo-300 font-semibold mb-2 uppercase text-xs tracking-wider">Resume Learning</h3>
               <p className="text-white text-xl font-medium mb-4">{currentCourseTitle}</p>
-              <p className="text-slate-400 text-sm mb-6">
-                 Your progress is saved. Please upload the original PDF to continue generating lessons.
-              </p>
+              {isProcessing ? (
+                <p className="text-indigo-300 text-sm mb-6 flex items-center justify-center gap-2">
+                   <Loader2 className="animate-spin" size={16} />
+                   {progressLabel || 'Analyzing content...'}
+                </p>
+              ) : (
+                <p className="text-slate-400 text-sm mb-6">
+                   Your progress is saved. Please upload the original PDF to continue generating lessons.
+                </p>
+              )}
               <div className="flex flex-col gap-3">
                   <label className="w-full py-3 px-4 bg-indigo-600 hover:bg-indigo-500 text-white font-medium rounded-lg cursor-pointer transition-colors flex items-center justify-center gap-2">
                     <Upload size={18} />
@@ -89,8 +99,10 @@ export const FileUpload: React.FC<FileUploadProps> = ({
               {isProcessing ? (
                 <div className="flex flex-col items-center">
                   <Loader2 className="animate-spin text-indigo-400 mb-4" size={48} />
-                  <p className="text-lg font-medium text-indigo-300">Analyzing content...</p>
-                  <p className="text-sm text-slate-500 mt-2">Building your course structure</p>
+                  <p className="text-lg font-medium text-indigo-300">{progressLabel || 'Analyzing content...'}</p>
+                  <p className="text-sm text-slate-500 mt-2">
+                    {progressLabel ? 'Extracting text on your device' : 'Building your course structure'}
+                  </p>
                 </div>
               ) : (
                 <>
@@ -0,0 +1,153 @@
+import React, { useEffect, useState } from 'react';
+import { Flashcard, ReviewGrade, SourceCitation } from '../types';
+import { getDueCards, formatInterval, REVIEW_GRADES, scheduleReview } from '../services/flashcards';
+import { RichText } from './RichText';
+import { Layers, X, RotateCcw, Trophy, FileText } from 'lucide-react';
+
+interface FlashcardReviewProps {
+  isOpen: boolean;
+  onClose: () => void;
+  cards: Flashcard[];
+  onGrade: (card: Flashcard, grade: ReviewGrade) => void;
+  onOpenSource: (source: SourceCitation) => void;
+}
+
+const GRADE_STYLES: Record<number, string> = {
+  1: 'bg-red-500/10 text-red-300 hover:bg-red-500/20 border-red-500/30',
+  3: 'bg-amber-500/10 text-amber-300 hover:bg-amber-500/20 border-amber-500/30',
+  4: 'bg-green-500/10 text-green-300 hover:bg-green-500/20 border-green-500/30',
+  5: 'bg-indigo-500/10 text-indigo-300 hover:bg-indigo-500/20 border-indigo-500/30',
+};
+
+export const FlashcardReview: React.FC<FlashcardReviewProps> = ({ isOpen, onClose, cards, onGrade, onOpenSource }) => {
+  // Ids still to review this session; forgotten cards go back to the end of the queue
+  const [queue, setQueue] = useState<string[]>([]);
+  const [reviewed, setReviewed] = useState(0);
+  const [isFlipped, setIsFlipped] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setQueue(getDueCards(cards).map(card => card.id));
+    setReviewed(0);
+    setIsFlipped(false);
+    // The queue is a snapshot taken when the session starts, not updated as cards are graded
+  }, [isOpen]);
+
+  const card = cards.find(c => c.id === queue[0]);
+
+  const grade = (value: ReviewGrade) => {
+    if (!card) return;
+    onGrade(card, value);
+    setReviewed(n => n + 1);
+    setIsFlipped(false);
+    setQueue(([current, ...rest]) => value < 3 ? [...rest, current] : rest);
+  };
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+      else if (e.key === ' ' && card) {
+        e.preventDefault();
+        setIsFlipped(flipped => !flipped);
+      } else if (isFlipped && card && ['1', '2', '3', '4'].includes(e.key)) {
+        grade(REVIEW_GRADES[Number(e.key) - 1].grade);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className="w-full max-w-xl bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl overflow-hidden animate-in zoom-in-95 duration-300 max-h-[90vh] flex flex-col">
+
+        {/* Header */}
+        <div className="p-6 border-b border-slate-800 flex items-center justify-between bg-slate-900/50">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-xl bg-indigo-500/20 flex items-center justify-center text-indigo-400">
+              <Layers size={24} />
+            </div>
+            <div>
+              <h2 className="text-lg font-bold text-white">Review</h2>
+              <p className="text-xs text-slate-400">
+                {card ? `${queue.length} left · ${card.topicTitle}` : 'Session complete'}
+              </p>
+            </div>
+          </div>
+          <button onClick={onClose} className="text-slate-500 hover:text-white transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 overflow-y-auto">
+          {card ? (
+            <>
+              <div
+                onClick={() => setIsFlipped(!isFlipped)}
+                className="w-full min-h-[220px] cursor-pointer rounded-2xl bg-slate-800 border border-slate-700 hover:border-slate-600 p-6 flex flex-col items-center justify-center text-center gap-4 transition-colors"
+              >
+                <div className="text-lg text-white font-medium leading-relaxed whitespace-pre-line">
+                  <RichText text={card.front} />
+                </div>
+                {isFlipped ? (
+                  <div className="w-full pt-4 border-t border-slate-700 text-sm text-slate-300 leading-relaxed whitespace-pre-line animate-in fade-in duration-300">
+                    <RichText text={card.back} />
+                  </div>
+                ) : (
+                  <span className="text-xs text-slate-500 flex items-center gap-1.5">
+                    <RotateCcw size={12} /> Tap or press Space to show the answer
+                  </span>
+                )}
+              </div>
+
+              {isFlipped && card.source && (
+                <button
+                  onClick={() => onOpenSource(card.source!)}
+                  className="mt-3 flex items-center gap-1.5 text-xs text-slate-400 hover:text-indigo-300 transition-colors"
+                >
+                  <FileText size={12} className="text-indigo-400" /> p. {card.source.page}
+                </button>
+              )}
+
+              {isFlipped && (
+                <div className="mt-5 grid grid-cols-4 gap-2 animate-in fade-in slide-in-from-bottom-2 duration-200">
+                  {REVIEW_GRADES.map(({ grade: value, label }, idx) => (
+                    <button
+                      key={value}
+                      onClick={() => grade(value)}
+                      className={`flex flex-col items-center gap-0.5 py-2.5 rounded-xl border text-sm font-semibold transition-colors ${GRADE_STYLES[value]}`}
+                      title={`${label} (${idx + 1})`}
+                    >
+                      {label}
+                      <span className="text-[10px] font-normal opacity-70">{formatInterval(scheduleReview(card, value).interval)}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </>
+          ) : (
+            <div className="flex flex-col items-center text-center py-8 gap-4">
+              <div className="w-16 h-16 rounded-full bg-green-500/20 text-green-400 border border-green-500/30 flex items-center justify-center">
+                <Trophy size={28} />
+              </div>
+              <p className="text-white font-semibold">
+                {reviewed > 0 ? `${reviewed} ${reviewed === 1 ? 'review' : 'reviews'} done.` : 'Nothing is due right now.'}
+              </p>
+              <p className="text-sm text-slate-400">Cards come back just before you would forget them.</p>
+              <button
+                onClick={onClose}
+                className="px-8 py-2.5 bg-indigo-600 hover:bg-indigo-500 text-white font-semibold rounded-xl transition-colors"
+              >
+                Done
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,174 @@
+import React, { useEffect, useState } from 'react';
+import { LearningPreferences } from '../types';
+import { LEARNER_LEVELS, LESSON_LENGTHS, EXAMPLE_DENSITIES, LESSON_FORMATS, LESSON_LANGUAGES } from '../services/learningPreferences';
+import { BookOpen, Check, X, Languages } from 'lucide-react';
+
+interface LearningSettingsProps {
+  isOpen: boolean;
+  onClose: () => void;
+  currentPreferences: LearningPreferences;
+  onSave: (preferences: LearningPreferences) => void;
+}
+
+export const LearningSettings: React.FC<LearningSettingsProps> = ({ isOpen, onClose, currentPreferences, onSave }) => {
+  const [preferences, setPreferences] = useState<LearningPreferences>(currentPreferences);
+
+  // Start from the saved preferences each time the panel opens
+  useEffect(() => {
+    if (isOpen) setPreferences(currentPreferences);
+  }, [isOpen, currentPreferences]);
+
+  if (!isOpen) return null;
+
+  const handleSave = () => {
+    onSave(preferences);
+    onClose();
+  };
+
+  const optionClass = (selected: boolean) => `rounded-xl border transition-all duration-200 ${
+    selected
+      ? 'bg-indigo-600/20 border-indigo-500 text-white shadow-lg shadow-indigo-500/10'
+      : 'bg-slate-800 border-transparent text-slate-400 hover:bg-slate-700 hover:text-slate-200'
+  }`;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className="w-full max-w-md bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl overflow-hidden animate-in zoom-in-95 duration-300 max-h-[90vh] flex flex-col">
+
+        {/* Header */}
+        <div className="p-6 border-b border-slate-800 flex items-center justify-between bg-slate-900/50">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-xl bg-indigo-500/20 flex items-center justify-center text-indigo-400">
+              <BookOpen size={24} />
+            </div>
+            <div>
+              <h2 className="text-lg font-bold text-white">Learning Preferences</h2>
+              <p className="text-xs text-slate-400">Who the lessons and quizzes are for</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="text-slate-500 hover:text-white transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-6 overflow-y-auto">
+
+          {/* Level */}
+          <div className="space-y-3">
+            <label className="text-xs font-bold text-slate-400 uppercase tracking-wider">Level</label>
+            <div className="grid grid-cols-2 gap-3">
+              {LEARNER_LEVELS.map((l) => (
+                <button
+                  key={l.id}
+                  onClick={() => setPreferences({ ...preferences, level: l.id })}
+                  className={`flex items-center gap-3 p-3 text-left ${optionClass(preferences.level === l.id)}`}
+                >
+                  <span className="flex flex-col">
+                    <span className="font-medium text-sm">{l.label}</span>
+                    <span className="text-[11px] text-slate-500">{l.description}</span>
+                  </span>
+                  {preferences.level === l.id && <Check size={16} className="ml-auto text-indigo-400"/>}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Lesson length */}
+          <div className="space-y-3">
+            <label className="text-xs font-bold text-slate-400 uppercase tracking-wider">Lesson Length</label>
+            <div className="flex gap-3">
+              {LESSON_LENGTHS.map((l) => (
+                <button
+                  key={l.id}
+                  onClick={() => setPreferences({ ...preferences, lessonLength: l.id })}
+                  className={`flex-1 py-3 flex flex-col items-center ${optionClass(preferences.lessonLength === l.id)}`}
+                >
+                  <span className="font-medium text-sm">{l.label}</span>
+                  <span className="text-[11px] text-slate-500">{l.description}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Example density */}
+          <div className="space-y-3">
+            <label className="text-xs font-bold text-slate-400 uppercase tracking-wider">Examples</label>
+            <div className="flex gap-3">
+              {EXAMPLE_DENSITIES.map((d) => (
+                <button
+                  key={d.id}
+                  onClick={() => setPreferences({ ...preferences, exampleDensity: d.id })}
+                  className={`flex-1 py-3 font-medium text-sm ${optionClass(preferences.exampleDensity === d.id)}`}
+                >
+                  {d.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Lesson format */}
+          <div className="space-y-3">
+            <label className="text-xs font-bold text-slate-400 uppercase tracking-wider">Lesson Format</label>
+            <div className="flex gap-3">
+              {LESSON_FORMATS.map((f) => (
+                <button
+                  key={f.id}
+                  onClick={() => setPreferences({ ...preferences, lessonFormat: f.id })}
+                  className={`flex-1 py-3 px-2 flex flex-col items-center text-center ${optionClass(preferences.lessonFormat === f.id)}`}
+                >
+                  <span className="font-medium text-sm">{f.label}</span>
+                  <span className="text-[11px] text-slate-500">{f.description}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Language */}
+          <div className="space-y-3">
+            <label className="text-xs font-bold text-slate-400 uppercase tracking-wider flex items-center gap-2">
+              <Languages size={14} /> Language
+            </label>
+            <select
+              value={preferences.language}
+              onChange={(e) => setPreferences({ ...preferences, language: e.target.value })}
+              className="w-full bg-slate-800 border border-slate-700 rounded-lg py-2.5 px-3 text-white focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none transition-all"
+            >
+              {LESSON_LANGUAGES.map((l) => (
+                <option key={l.code} value={l.code}>
+                  {l.label === l.nativeLabel ? l.label : `${l.label} · ${l.nativeLabel}`}
+                </option>
+              ))}
+            </select>
+            {preferences.language !== 'en' && (
+              <label className="flex items-center gap-3 text-sm text-slate-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={preferences.sideBySideEnglish}
+                  onChange={(e) => setPreferences({ ...preferences, sideBySideEnglish: e.target.checked })}
+                  className="w-4 h-4 rounded accent-indigo-500"
+                />
+                Show the transcript side by side with English
+              </label>
+            )}
+          </div>
+
+          <p className="text-xs text-slate-500">
+            Applies to lessons and quizzes you open from now on, and to the outline of the next PDF you upload. Lessons already saved for other settings are kept.
+          </p>
+        </div>
+
+        {/* Footer */}
+        <div className="p-6 border-t border-slate-800 bg-slate-900/50 flex justify-end">
+           <button
+             onClick={handleSave}
+             className="px-6 py-2.5 bg-indigo-600 hover:bg-indigo-500 text-white font-bold rounded-lg transition-all shadow-lg shadow-indigo-500/20 active:scale-95"
+           >
+             Save Preferences
+           </button>
+        </div>
+
+      </div>
+    </div>
+  );
+};
@@ -1,44 +1,160 @@
 
 import React, { useEffect, useRef, useState, useMemo } from 'react';
-import { LessonState, Topic } from '../types';
-import { Play, Pause, ChevronRight, Loader2, Volume2, Volume1, VolumeX, FileText, Maximize2, Star } from 'lucide-react';
+import { ChatMessage, LessonState, SourceCitation, Topic, TranscriptNote } from '../types';
+import { getLessonScript, getSceneStartFractions, getSceneStartTimes } from '../services/lessonContent';
+import { getTurnStarts } from '../services/dialogue';
+import { findNoteWords, getPassageAnchor } from '../services/notes';
+import { hasMarkup, NarrationToken, toSpeakableText, tokenizeNarration } from '../services/richText';
+import { findWordAt } from '../services/narrationTiming';
+import { buildCaptionCues, toWebVtt, toSrt } from '../services/captions';
+import { exportLessonVideo, isVideoExportSupported } from '../services/videoExport';
+import { isAbortError } from '../services/abort';
+import { getLanguage } from '../services/learningPreferences';
+import { TutorChat } from './TutorChat';
+import { RichText } from './RichText';
+import { Play, Pause, ChevronRight, Loader2, Volume2, Volume1, VolumeX, FileText, Maximize2, Minimize2, Star, RefreshCw, HardDriveDownload, RotateCcw, RotateCw, Download, Film, Languages, MessageCircle, Highlighter, StickyNote, Trash2, X, WifiOff, Captions, CaptionsOff } from 'lucide-react';
+
+const PLAYBACK_RATES = [0.75, 1, 1.25, 1.5, 1.75, 2];
+const SKIP_SECONDS = 10;
+const VOLUME_STEP = 0.1;
+// Speaker labels in dialogue transcripts, the tutor first
+const SPEAKER_STYLES = ['bg-indigo-500/15 text-indigo-300', 'bg-teal-500/15 text-teal-300'];
 
 interface LessonPlayerProps {
   topic: Topic;
   state: LessonState;
   onComplete: () => void;
   onFeedback: () => void;
+  onRegenerate: () => void;
+  tutorName: string;
+  chatMessages: ChatMessage[];
+  onAskTutor: (question: string) => Promise<ChatMessage | undefined>;
+  onSpeakAnswer: (text: string, signal: AbortSignal) => Promise<Blob>;
+  onOpenSource: (source: SourceCitation) => void;
+  /** This topic's transcript notes. */
+  notes: TranscriptNote[];
+  /** Adds a note, or replaces the one with the same id. */
+  onSaveNote: (note: TranscriptNote) => void;
+  onDeleteNote: (id: string) => void;
+  /**
+   * Set to jump to a timestamp, e.g. when a note is opened from "My notes". With a note,
+   * its words are looked up in the script once the duration is known, and `time` is the fallback.
+   */
+  seekRequest: { time: number; note?: TranscriptNote } | null;
+  /** Called once the seek request has been applied, so it is not applied again. */
+  onSeekHandled: () => void;
+  /** Offline: a lesson being loaded is queued until the connection is back. */
+  isWaitingForNetwork: boolean;
 }
 
-export const LessonPlayer: React.FC<LessonPlayerProps> = ({ topic, state, onComplete, onFeedback }) => {
+type SidePanel = 'keyPoints' | 'chat';
+
+/** Words selected in the transcript, or the note being edited. */
+interface NoteSelection {
+  first: number;
+  last: number;
+  noteId?: string;
+}
+
+export const LessonPlayer: React.FC<LessonPlayerProps> = ({ topic, state, onComplete, onFeedback, onRegenerate, tutorName, chatMessages, onAskTutor, onSpeakAnswer, onOpenSource, notes, onSaveNote, onDeleteNote, seekRequest, onSeekHandled, isWaitingForNetwork }) => {
   const audioRef = useRef<HTMLAudioElement>(null);
   const transcriptRef = useRef<HTMLDivElement>(null);
+  const playerRef = useRef<HTMLDivElement>(null);
   const [isPlaying, setIsPlaying] = useState(false);
   const [progress, setProgress] = useState(0);
   const [duration, setDuration] = useState(0);
   const [volume, setVolume] = useState(1);
   const [isMuted, setIsMuted] = useState(false);
   const [showVolumeSlider, setShowVolumeSlider] = useState(false);
+  const [playbackRate, setPlaybackRate] = useState(1);
+  const [isFullscreen, setIsFullscreen] = useState(false);
+  // WebViews without the Fullscreen API (e.g. iOS) get a fixed full-window player instead
+  const [isWindowFullscreen, setIsWindowFullscreen] = useState(false);
+  const [captionUrls, setCaptionUrls] = useState<{ vtt: string; srt: string } | null>(null);
+  // Narration captions over the visuals, instead of the scene caption
+  const [showCaptions, setShowCaptions] = useState(false);
+  const [exportProgress, setExportProgress] = useState<number | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const exportAbortRef = useRef<AbortController | null>(null);
+  const [showEnglish, setShowEnglish] = useState(true);
+  const [sidePanel, setSidePanel] = useState<SidePanel>('keyPoints');
+  const sidePanelRef = useRef<HTMLDivElement>(null);
+  const [noteSelection, setNoteSelection] = useState<NoteSelection | null>(null);
+  // Text of the note being written; null while only the selection toolbar is shown
+  const [noteDraft, setNoteDraft] = useState<string | null>(null);
+
+  // The spoken script and its words, the same ones the narration timings are measured for
+  const script = useMemo(() => state.content ? getLessonScript(state.content) : '', [state.content]);
+  const scriptWords = useMemo(() => tokenizeNarration(script), [script]);
 
-  // Prepare transcript data for karaoke effect
+  // Prepare transcript data for karaoke effect, one or more paragraphs per scene
+  // (in dialogue lessons, per turn; the first paragraph of a turn carries its speaker)
   const transcriptData = useMemo(() => {
-    if (!state.content?.script) return { paragraphs: [], totalWords: 0 };
-    
-    const rawParagraphs = state.content.script.split('\n').filter(p => p.trim());
-    let wordCountAccumulator = 0;
-    
-    const paragraphs = rawParagraphs.map(text => {
-      const words = text.split(/\s+/).filter(w => w.length > 0);
-      const start = wordCountAccumulator;
-      wordCountAccumulator += words.length;
-      return { text, words, start, end: wordCountAccumulator };
+    const paragraphs: { words: NarrationToken[]; start: number; sceneIndex: number; speaker?: number }[] = [];
+    if (!state.content) return { paragraphs, totalWords: 0 };
+
+    // Scenes are joined by a single line break in the script
+    const sceneEnds: number[] = [];
+    state.content.scenes.reduce((end, scene) => {
+      sceneEnds.push(end + scene.narration.length);
+      return end + scene.narration.length + 1;
+    }, 0);
+
+    const turnStarts = getTurnStarts(state.content);
+    let turnIndex = 0;
+    let sceneIndex = 0;
+    scriptWords.forEach((word, idx) => {
+      while (sceneIndex < sceneEnds.length - 1 && word.start > sceneEnds[sceneIndex]) sceneIndex++;
+      let speaker: number | undefined;
+      while (turnIndex < turnStarts.length && turnStarts[turnIndex].offset <= word.start) speaker = turnStarts[turnIndex++].speaker;
+      const previous = paragraphs[paragraphs.length - 1];
+      const startsParagraph = !previous || previous.sceneIndex !== sceneIndex || speaker !== undefined || script.slice(scriptWords[idx - 1].end, word.start).includes('\n');
+      if (startsParagraph) {
+        paragraphs.push({ words: [word], start: idx, sceneIndex, ...(speaker !== undefined ? { speaker } : {}) });
+      } else {
+        previous.words.push(word);
+      }
     });
 
-    return { paragraphs, totalWords: wordCountAccumulator };
-  }, [state.content?.script]);
+    return { paragraphs, totalWords: scriptWords.length };
+  }, [state.content, script, scriptWords]);
 
-  // Calculate current word index based on audio progress
-  const currentWordIndex = Math.floor((progress / 100) * transcriptData.totalWords);
+  const language = getLanguage(state.content?.language);
+  const speakers = state.content?.speakers ?? [];
+  const hasEnglish = !!state.content?.scenes.some(scene => scene.englishNarration);
+  const sideBySide = hasEnglish && showEnglish;
+
+  const timings = state.wordTimings && state.wordTimings.length === transcriptData.totalWords ? state.wordTimings : null;
+
+  // The note covering each highlighted word; the note's last word also carries its marker
+  const notesByWord = useMemo(() => {
+    const byWord = new Map<number, { note: TranscriptNote; isLast: boolean }>();
+    for (const note of notes) {
+      const words = findNoteWords(script, scriptWords, note);
+      if (!words) continue;
+      for (let idx = words[0]; idx <= words[1]; idx++) byWord.set(idx, { note, isLast: idx === words[1] });
+    }
+    return byWord;
+  }, [notes, script, scriptWords]);
+
+  // Scene boundaries as percentages of the narration, used for visuals and seek bar markers.
+  // With measured word timings a scene starts exactly at its first word.
+  const sceneStarts = useMemo(() => {
+    if (!state.content) return [];
+    if (timings && duration > 0) {
+      return getSceneStartTimes(state.content, duration, timings).map(t => (t / duration) * 100);
+    }
+    return getSceneStartFractions(state.content).map(f => f * 100);
+  }, [state.content, timings, duration]);
+
+  // Current word from the measured timings; falls back to a linear estimate
+  const currentTime = (progress / 100) * duration;
+  const currentWordIndex = timings
+    ? findWordAt(timings, currentTime)
+    : Math.floor((progress / 100) * transcriptData.totalWords);
+
+  const currentSceneIndex = Math.max(0, sceneStarts.filter(start => start <= progress).length - 1);
+  const currentScene = state.content?.scenes[currentSceneIndex];
 
   useEffect(() => {
     // Reset state when URL changes
@@ -61,6 +177,22 @@ export const LessonPlayer: React.FC<LessonPlayerProps> = ({ topic, state, onComp
     }
   }, [state.audioUrl]);
 
+  // Applied once the lesson's metadata has loaded, so a requested timestamp survives loading
+  // a new lesson; handing it back keeps later duration changes from seeking again
+  useEffect(() => {
+    if (!seekRequest || !audioRef.current || !state.audioUrl || !duration) return;
+    const words = seekRequest.note ? findNoteWords(script, scriptWords, seekRequest.note) : null;
+    const time = Math.min(words ? getWordTime(words[0]) : seekRequest.time, duration);
+    audioRef.current.currentTime = time;
+    setProgress((time / duration) * 100);
+    onSeekHandled();
+  }, [seekRequest, state.audioUrl, duration]);
+
+  useEffect(() => {
+    setNoteSelection(null);
+    setNoteDraft(null);
+  }, [state.content]);
+
   // Volume Effect
   useEffect(() => {
       if (audioRef.current) {
@@ -68,6 +200,47 @@ export const LessonPlayer: React.FC<LessonPlayerProps> = ({ topic, state, onComp
       }
   }, [volume, isMuted]);
 
+  // Playback speed; loading a new source resets playbackRate to defaultPlaybackRate
+  useEffect(() => {
+      if (audioRef.current) {
+          audioRef.current.defaultPlaybackRate = playbackRate;
+          audioRef.current.playbackRate = playbackRate;
+      }
+  }, [playbackRate, state.audioUrl]);
+
+  // Captions need the audio duration, so they are built once metadata has loaded
+  const captionCues = useMemo(() => {
+      return state.content && duration ? buildCaptionCues(state.content, duration, state.wordTimings) : [];
+  }, [state.content, state.wordTimings, duration]);
+  const currentCue = captionCues.find(cue => currentTime >= cue.start && currentTime < cue.end);
+
+  useEffect(() => {
+      if (captionCues.length === 0) {
+          setCaptionUrls(null);
+          return;
+      }
+      const urls = {
+          vtt: URL.createObjectURL(new Blob([toWebVtt(captionCues)], { type: 'text/vtt' })),
+          srt: URL.createObjectURL(new Blob([toSrt(captionCues)], { type: 'application/x-subrip' })),
+      };
+      setCaptionUrls(urls);
+      return () => {
+          URL.revokeObjectURL(urls.vtt);
+          URL.revokeObjectURL(urls.srt);
+      };
+  }, [captionCues]);
+
+  // Stop a running video export when the lesson changes or the player closes
+  useEffect(() => {
+      return () => exportAbortRef.current?.abort();
+  }, [state.audioUrl]);
+
+  useEffect(() => {
+      const handleFullscreenChange = () => setIsFullscreen(document.fullscreenElement === playerRef.current);
+      document.addEventListener('fullscreenchange', handleFullscreenChange);
+      return () => document.removeEventListener('fullscreenchange', handleFullscreenChange);
+  }, []);
+
   // Auto-scroll transcript
   useEffect(() => {
     if (isPlaying && transcriptRef.current) {
@@ -99,12 +272,159 @@ export const LessonPlayer: React.FC<LessonPlayerProps> = ({ topic, state, onComp
       setIsMuted(!isMuted);
   };
 
+  // The lesson waits while the learner talks to the tutor
+  const pauseLesson = () => {
+      audioRef.current?.pause();
+  };
+
+  const openChat = () => {
+      pauseLesson();
+      if (document.fullscreenElement) document.exitFullscreen();
+      setIsWindowFullscreen(false);
+      setSidePanel('chat');
+      sidePanelRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  };
+
+  // Uses the metadata duration, so skipping works while paused, before playback has started
+  const seekToTime = (time: number) => {
+      const audio = audioRef.current;
+      if (!audio || !duration) return;
+      audio.currentTime = Math.min(Math.max(0, time), duration);
+      setProgress((audio.currentTime / duration) * 100);
+  };
+
+  const skipBy = (seconds: number) => {
+      if (audioRef.current) seekToTime(audioRef.current.currentTime + seconds);
+  };
+
+  const cyclePlaybackRate = () => {
+      setPlaybackRate(rate => PLAYBACK_RATES[(PLAYBACK_RATES.indexOf(rate) + 1) % PLAYBACK_RATES.length]);
+  };
+
+  const changeVolume = (delta: number) => {
+      const next = Math.min(1, Math.max(0, Math.round(((isMuted ? 0 : volume) + delta) * 100) / 100));
+      setVolume(next);
+      setIsMuted(next === 0);
+  };
+
+  const toggleFullscreen = () => {
+      const player = playerRef.current;
+      if (!player) return;
+      if (document.fullscreenElement) {
+          document.exitFullscreen();
+      } else if (document.fullscreenEnabled && player.requestFullscreen) {
+          player.requestFullscreen().catch(() => setIsWindowFullscreen(true));
+      } else {
+          setIsWindowFullscreen(prev => !prev);
+      }
+  };
+
+  // The latest controls for the keyboard and Media Session listeners, which are registered once
+  const controlsRef = useRef({ togglePlay, skipBy, seekToTime, changeVolume, toggleMute, toggleFullscreen, isWindowFullscreen });
+  controlsRef.current = { togglePlay, skipBy, seekToTime, changeVolume, toggleMute, toggleFullscreen, isWindowFullscreen };
+
+  // Keyboard shortcuts: space play/pause, ←/→ skip, ↑/↓ volume, M mute, F fullscreen, C captions
+  useEffect(() => {
+      const handleKeyDown = (e: KeyboardEvent) => {
+          const { togglePlay, skipBy, changeVolume, toggleMute, toggleFullscreen, isWindowFullscreen } = controlsRef.current;
+          const target = e.target as HTMLElement;
+          if (e.ctrlKey || e.metaKey || e.altKey || target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+
+          switch (e.key) {
+              case ' ':
+                  // Buttons already react to space; avoid toggling twice
+                  if (target.tagName === 'BUTTON') return;
+                  togglePlay();
+                  break;
+              case 'ArrowLeft': skipBy(-SKIP_SECONDS); break;
+              case 'ArrowRight': skipBy(SKIP_SECONDS); break;
+              case 'ArrowUp': changeVolume(VOLUME_STEP); break;
+              case 'ArrowDown': changeVolume(-VOLUME_STEP); break;
+              case 'm': case 'M': toggleMute(); break;
+              case 'f': case 'F': toggleFullscreen(); break;
+              case 'c': case 'C': setShowCaptions(show => !show); break;
+              case 'Escape':
+                  if (!isWindowFullscreen) return;
+                  setIsWindowFullscreen(false);
+                  break;
+              default: return;
+          }
+          e.preventDefault();
+      };
+      window.addEventListener('keydown', handleKeyDown);
+      return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // Media Session: lock screen, notification and headset controls
+  useEffect(() => {
+      if (!('mediaSession' in navigator)) return;
+      const artwork = state.imageUrls[currentSceneIndex];
+      navigator.mediaSession.metadata = new MediaMetadata({
+          title: topic.title,
+          artist: 'Ready2Learn',
+          album: (currentScene?.caption && toSpeakableText(currentScene.caption)) || topic.description,
+          artwork: artwork ? [{ src: artwork, sizes: '800x450' }] : []
+      });
+  }, [topic, currentSceneIndex, currentScene, state.imageUrls]);
+
+  useEffect(() => {
+      if (!('mediaSession' in navigator)) return;
+      const session = navigator.mediaSession;
+      const handlers: [MediaSessionAction, MediaSessionActionHandler][] = [
+          ['play', () => audioRef.current?.play()],
+          ['pause', () => audioRef.current?.pause()],
+          ['seekbackward', details => controlsRef.current.skipBy(-(details.seekOffset || SKIP_SECONDS))],
+          ['seekforward', details => controlsRef.current.skipBy(details.seekOffset || SKIP_SECONDS)],
+          ['seekto', details => {
+              if (details.seekTime !== undefined) controlsRef.current.seekToTime(details.seekTime);
+          }],
+      ];
+      for (const [action, handler] of handlers) {
+          try {
+              session.setActionHandler(action, handler);
+          } catch {
+              // Not every action is supported on every platform
+          }
+      }
+      return () => {
+          for (const [action] of handlers) {
+              try { session.setActionHandler(action, null); } catch {}
+          }
+      };
+  }, []);
+
+  useEffect(() => {
+      if (!('mediaSession' in navigator)) return;
+      navigator.mediaSession.playbackState = isPlaying ? 'playing' : 'paused';
+  }, [isPlaying]);
+
+  useEffect(() => {
+      if (!('mediaSession' in navigator) || !duration || !navigator.mediaSession.setPositionState) return;
+      navigator.mediaSession.setPositionState({
+          duration,
+          playbackRate,
+          position: Math.min(duration, audioRef.current?.currentTime || 0)
+      });
+  }, [duration, playbackRate, Math.floor(progress)]);
+
+  useEffect(() => {
+      return () => {
+          if ('mediaSession' in navigator) navigator.mediaSession.metadata = null;
+      };
+  }, []);
+
   const handleVolumeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
       const val = parseFloat(e.target.value);
       setVolume(val);
       if (val > 0) setIsMuted(false);
   };
 
+  // Known once metadata has loaded, so seeking works before playback starts
+  const handleDurationChange = () => {
+    const total = audioRef.current?.duration;
+    if (total && total > 0 && isFinite(total)) setDuration(total);
+  };
+
   const handleTimeUpdate = () => {
     if (audioRef.current) {
       const current = audioRef.current.currentTime;
@@ -120,6 +440,12 @@ export const LessonPlayer: React.FC<LessonPlayerProps> = ({ topic, state, onComp
     }
   };
   
+  const seekToPercent = (percentage: number) => {
+      if (!audioRef.current || !duration) return;
+      audioRef.current.currentTime = (percentage / 100) * duration;
+      setProgress(percentage);
+  };
+
   const handleSeek = (e: React.MouseEvent<HTMLDivElement>) => {
       if (!audioRef.current || !duration) return;
       const bar = e.currentTarget;
@@ -133,6 +459,98 @@ export const LessonPlayer: React.FC<LessonPlayerProps> = ({ topic, state, onComp
       setProgress(percentage * 100);
   };
 
+  const getWordTime = (wordIndex: number) => {
+      return timings ? timings[wordIndex] : (wordIndex / Math.max(1, transcriptData.totalWords)) * duration;
+  };
+
+  const seekToWord = (wordIndex: number) => {
+      if (!duration) return;
+      // Land just inside the word so it is highlighted right away
+      seekToPercent(Math.min(100, ((getWordTime(wordIndex) + 0.01) / duration) * 100));
+  };
+
+  // Turns a text selection in the transcript into a word range
+  const handleTranscriptSelection = () => {
+      if (noteDraft !== null) return;
+      const selection = window.getSelection();
+      if (!selection || selection.isCollapsed || !transcriptRef.current) return;
+      const wordAt = (node: Node | null) => {
+          const element = node?.nodeType === Node.TEXT_NODE ? node.parentElement : node as Element | null;
+          const word = element?.closest<HTMLElement>('[data-word]');
+          return word && transcriptRef.current!.contains(word) ? Number(word.dataset.word) : null;
+      };
+      const anchor = wordAt(selection.anchorNode);
+      const focus = wordAt(selection.focusNode);
+      if (anchor === null || focus === null) return;
+      setNoteSelection({ first: Math.min(anchor, focus), last: Math.max(anchor, focus) });
+  };
+
+  const closeNoteEditor = () => {
+      setNoteSelection(null);
+      setNoteDraft(null);
+      window.getSelection()?.removeAllRanges();
+  };
+
+  const saveNote = (text: string) => {
+      if (!noteSelection) return;
+      const existing = notes.find(n => n.id === noteSelection.noteId);
+      onSaveNote(existing ? { ...existing, note: text.trim() } : {
+          id: Date.now().toString(),
+          topicId: topic.id,
+          topicTitle: topic.title,
+          ...getPassageAnchor(script, scriptWords, noteSelection.first, noteSelection.last),
+          // Without timings or metadata the time is unknown; opening the note finds its words instead
+          time: timings || duration ? getWordTime(noteSelection.first) : 0,
+          note: text.trim(),
+          createdAt: new Date().toISOString(),
+      });
+      closeNoteEditor();
+  };
+
+  const editNote = (note: TranscriptNote) => {
+      const words = findNoteWords(script, scriptWords, note);
+      if (!words) return;
+      pauseLesson();
+      setNoteSelection({ first: words[0], last: words[1], noteId: note.id });
+      setNoteDraft(note.note);
+  };
+
+  const handleExportVideo = async () => {
+      if (exportAbortRef.current) {
+          exportAbortRef.current.abort();
+          return;
+      }
+      if (!state.content || !state.audioUrl) return;
+
+      const controller = new AbortController();
+      exportAbortRef.current = controller;
+      setExportError(null);
+      setExportProgress(0);
+      try {
+          const video = await exportLessonVideo(
+              { content: state.content, imageUrls: state.imageUrls, audioUrl: state.audioUrl, wordTimings: state.wordTimings },
+              fraction => setExportProgress(fraction),
+              controller.signal
+          );
+          const url = URL.createObjectURL(video);
+          const link = document.createElement('a');
+          link.href = url;
+          link.download = `${captionFileName}.webm`;
+          link.click();
+          setTimeout(() => URL.revokeObjectURL(url), 1000);
+      } catch (error) {
+          if (!isAbortError(error)) {
+              console.error('Video export failed', error);
+              setExportError(error instanceof Error ? error.message : 'Video export failed.');
+          }
+      } finally {
+          if (exportAbortRef.current === controller) exportAbortRef.current = null;
+          setExportProgress(null);
+      }
+  };
+
+  const captionFileName = topic.title.replace(/[^\w\s-]/g, '').trim().replace(/\s+/g, '-').toLowerCase() || 'lesson';
+
   const formatTime = (time: number) => {
     if (isNaN(time) || !isFinite(time)) return "0:00";
     const mins = Math.floor(time / 60);
@@ -140,6 +558,20 @@ export const LessonPlayer: React.FC<LessonPlayerProps> = ({ topic, state, onComp
     return `${mins}:${secs.toString().padStart(2, '0')}`;
   };
 
+  if (state.isLoading && isWaitingForNetwork) {
+    return (
+      <div className="w-full min-h-[400px] flex flex-col items-center justify-center bg-slate-900/50 rounded-2xl border border-slate-800 p-8 md:p-12 backdrop-blur-sm text-center">
+        <div className="relative bg-slate-900 rounded-2xl p-4 border border-amber-500/30 shadow-xl mb-8">
+           <WifiOff className="text-amber-300 w-12 h-12" />
+        </div>
+        <h2 className="text-2xl md:text-3xl font-bold text-white mb-4">Waiting for a Connection</h2>
+        <p className="text-sm text-slate-400 max-w-md">
+          You're offline. This lesson is queued and will be created as soon as you're back online. Lessons you have opened before still play offline.
+        </p>
+      </div>
+    );
+  }
+
   if (state.isLoading) {
     return (
       <div className="w-full min-h-[400px] flex flex-col items-center justify-center bg-slate-900/50 rounded-2xl border border-slate-800 p-8 md:p-12 backdrop-blur-sm">
@@ -164,29 +596,43 @@ export const LessonPlayer: React.FC<LessonPlayerProps> = ({ topic, state, onComp
   return (
     <div className="flex flex-col gap-6 max-w-6xl mx-auto w-full pb-12">
       {/* Video Player Container */}
-      <div className="relative aspect-video bg-slate-950 rounded-2xl overflow-hidden shadow-2xl border border-slate-800 group ring-1 ring-white/5 touch-none">
+      <div 
+        ref={playerRef}
+        className={`relative bg-slate-950 overflow-hidden shadow-2xl group touch-none ${
+            isWindowFullscreen ? 'fixed inset-0 z-[90]' :
+            isFullscreen ? '' :
+            'aspect-video rounded-2xl border border-slate-800 ring-1 ring-white/5'
+        }`}
+      >
         
         {/* Ambient Background Blur */}
-        {state.imageUrl && (
+        {state.imageUrls[currentSceneIndex] && (
             <div className="absolute inset-0 opacity-40 pointer-events-none">
                 <img 
-                    src={state.imageUrl} 
+                    src={state.imageUrls[currentSceneIndex]} 
                     alt="Background Ambience"
                     className="w-full h-full object-cover blur-3xl scale-110"
                 />
             </div>
         )}
 
-        {/* Visual Content with Ken Burns Effect */}
-        {state.imageUrl ? (
+        {/* Scene Visuals: cross-fade at scene boundaries, Ken Burns on the active one */}
+        {state.imageUrls.length > 0 ? (
             <div className="absolute inset-0 flex items-center justify-center overflow-hidden pointer-events-none">
-                <img 
-                    src={state.imageUrl} 
-                    alt="Lesson Visual" 
-                    className={`w-full h-full object-contain drop-shadow-2xl transition-transform ease-linear will-change-transform ${
-                        isPlaying ? 'duration-[30s] scale-110' : 'duration-1000 scale-100'
-                    }`}
-                />
+                {state.imageUrls.map((url, idx) => {
+                    const isActive = idx === currentSceneIndex;
+                    return (
+                        <img 
+                            key={idx}
+                            src={url} 
+                            alt={state.content?.scenes[idx]?.caption || 'Lesson Visual'} 
+                            className={`absolute inset-0 w-full h-full object-contain drop-shadow-2xl will-change-transform ${
+                                isActive ? 'opacity-100' : 'opacity-0'
+                            } ${isActive && isPlaying ? 'scale-110' : 'scale-100'}`}
+                            style={{ transition: `opacity 700ms ease, transform ${isActive && isPlaying ? '20s' : '1s'} linear` }}
+                        />
+                    );
+                })}
             </div>
         ) : (
             <div className="w-full h-full flex items-center justify-center bg-slate-900 relative z-10">
@@ -197,20 +643,35 @@ export const LessonPlayer: React.FC<LessonPlayerProps> = ({ topic, state, onComp
         {/* Gradient Overlay for UI readability */}
         <div className="absolute inset-0 bg-gradient-to-t from-slate-950 via-transparent to-slate-950/30 pointer-events-none"></div>
 
+        {/* Scene Counter */}
+        {sceneStarts.length > 1 && (
+            <div className="absolute top-4 left-4 z-20 px-2.5 py-1 rounded-full bg-black/50 backdrop-blur-md text-[10px] font-bold uppercase tracking-wider text-white/80 pointer-events-none">
+                Scene {currentSceneIndex + 1} / {sceneStarts.length}
+            </div>
+        )}
+
         {/* Captions Overlay - Responsive Text */}
         <div className="absolute bottom-28 lg:bottom-24 left-0 right-0 px-6 md:px-12 text-center z-20 pointer-events-none">
-           <div className="inline-block bg-black/60 backdrop-blur-md p-3 md:p-4 rounded-xl border border-white/5 shadow-xl transform transition-all">
-             <p className="text-white/90 text-sm md:text-xl font-medium leading-relaxed line-clamp-2">
-               "{state.content?.keyPoints[0] || topic.description}"
-             </p>
-           </div>
+           {showCaptions ? (
+             currentCue && (
+               <div className="inline-block bg-black/75 px-3 py-1.5 md:px-4 md:py-2 rounded-lg">
+                 <p className="text-white text-sm md:text-xl font-medium leading-snug whitespace-pre-line">{currentCue.text}</p>
+               </div>
+             )
+           ) : (
+             <div key={currentSceneIndex} className="inline-block bg-black/60 backdrop-blur-md p-3 md:p-4 rounded-xl border border-white/5 shadow-xl transform transition-all animate-in fade-in duration-500">
+               <p className="text-white/90 text-sm md:text-xl font-medium leading-relaxed line-clamp-2">
+                 "<RichText text={currentScene?.caption || topic.description} />"
+               </p>
+             </div>
+           )}
         </div>
 
         {/* Controls Toolbar */}
         <div className="absolute bottom-0 left-0 right-0 bg-slate-950/90 backdrop-blur-xl p-3 md:p-4 flex flex-col gap-3 border-t border-white/10 z-30">
-            {/* Progress Bar */}
+            {/* Progress Bar with scene markers */}
             <div 
-                className="w-full bg-slate-800 h-2 md:h-1.5 rounded-full cursor-pointer group/bar transition-all touch-none py-1"
+                className="relative w-full bg-slate-800 h-2 md:h-1.5 rounded-full cursor-pointer group/bar transition-all touch-none py-1"
                 onClick={handleSeek}
             >
                 <div 
@@ -219,20 +680,46 @@ export const LessonPlayer: React.FC<LessonPlayerProps> = ({ topic, state, onComp
                 >
                     <div className="absolute right-0 -top-1.5 w-4 h-4 bg-white rounded-full opacity-100 md:opacity-0 md:group-hover/bar:opacity-100 shadow-[0_0_10px_rgba(255,255,255,0.5)] md:transform md:scale-0 md:group-hover/bar:scale-100 transition-all"></div>
                 </div>
+                {sceneStarts.slice(1).map((start, idx) => (
+                    <button
+                        key={idx}
+                        onClick={(e) => { e.stopPropagation(); seekToPercent(start); }}
+                        className="absolute top-1/2 -translate-y-1/2 -translate-x-1/2 w-1 h-3 rounded-sm bg-slate-950/80 hover:bg-white transition-colors"
+                        style={{ left: `${start}%` }}
+                        title={state.content?.scenes[idx + 1]?.caption}
+                    />
+                ))}
             </div>
             
             <div className="flex items-center justify-between">
-                <div className="flex items-center gap-4">
+                <div className="flex items-center gap-2 md:gap-4">
+                    <button 
+                        onClick={() => skipBy(-SKIP_SECONDS)}
+                        className="text-slate-400 hover:text-white transition-colors p-1"
+                        title="Back 10 seconds (←)"
+                    >
+                        <RotateCcw size={18} />
+                    </button>
+
                     <button 
                         onClick={togglePlay}
                         className="w-10 h-10 md:w-10 md:h-10 flex items-center justify-center rounded-full bg-white/10 hover:bg-indigo-500 text-white transition-all active:scale-95"
+                        title={isPlaying ? 'Pause (Space)' : 'Play (Space)'}
                     >
                         {isPlaying ? <Pause size={20} fill="currentColor" /> : <Play size={20} fill="currentColor" className="ml-1"/>}
                     </button>
+
+                    <button 
+                        onClick={() => skipBy(SKIP_SECONDS)}
+                        className="text-slate-400 hover:text-white transition-colors p-1"
+                        title="Forward 10 seconds (→)"
+                    >
+                        <RotateCw size={18} />
+                    </button>
                     
                     <div className="flex flex-col">
                         <span className="text-xs font-bold text-white tracking-wide font-mono">
-                            {formatTime(audioRef.current?.currentTime || 0)} / {formatTime(duration)}
+                            {formatTime(currentTime)} / {formatTime(duration)}
                         </span>
                     </div>
 
@@ -242,7 +729,7 @@ export const LessonPlayer: React.FC<LessonPlayerProps> = ({ topic, state, onComp
                         onMouseEnter={() => setShowVolumeSlider(true)}
                         onMouseLeave={() => setShowVolumeSlider(false)}
                     >
-                        <button onClick={toggleMute} className="text-slate-400 hover:text-white transition-colors p-1">
+                        <button onClick={toggleMute} className="text-slate-400 hover:text-white transition-colors p-1" title="Mute (M)">
                              {isMuted || volume === 0 ? <VolumeX size={20} /> : volume < 0.5 ? <Volume1 size={20} /> : <Volume2 size={20} />}
                         </button>
                         
@@ -260,7 +747,55 @@ export const LessonPlayer: React.FC<LessonPlayerProps> = ({ topic, state, onComp
                     </div>
                 </div>
 
-                <div className="flex items-center gap-3">
+                <div className="flex items-center gap-2 md:gap-3">
+                    <button 
+                        onClick={openChat}
+                        className="flex items-center gap-1.5 h-7 px-2.5 rounded-full bg-slate-800 text-xs font-bold text-slate-300 hover:bg-slate-700 hover:text-white transition-all"
+                        title={`Ask ${tutorName}`}
+                    >
+                        <MessageCircle size={14} /> <span className="hidden sm:inline">Ask</span>
+                    </button>
+
+                    <button 
+                        onClick={cyclePlaybackRate}
+                        className="min-w-[2.75rem] h-7 px-2 rounded-full bg-slate-800 text-xs font-bold font-mono text-slate-300 hover:bg-slate-700 hover:text-white transition-all"
+                        title="Playback speed"
+                    >
+                        {playbackRate}×
+                    </button>
+
+                    <button 
+                        onClick={() => setShowCaptions(show => !show)}
+                        disabled={captionCues.length === 0}
+                        className={`w-9 h-9 flex items-center justify-center rounded-full transition-all disabled:opacity-40 ${showCaptions ? 'bg-indigo-500/20 text-indigo-300' : 'text-slate-400 hover:bg-slate-800 hover:text-white'}`}
+                        title={showCaptions ? 'Hide captions (C)' : 'Show captions (C)'}
+                        aria-pressed={showCaptions}
+                    >
+                        {showCaptions ? <Captions size={18} /> : <CaptionsOff size={18} />}
+                    </button>
+
+                    <button 
+                        onClick={toggleFullscreen}
+                        className="w-9 h-9 flex items-center justify-center rounded-full text-slate-400 hover:bg-slate-800 hover:text-white transition-all"
+                        title={isFullscreen || isWindowFullscreen ? 'Exit fullscreen (F)' : 'Fullscreen (F)'}
+                    >
+                        {isFullscreen || isWindowFullscreen ? <Minimize2 size={18} /> : <Maximize2 size={18} />}
+                    </button>
+
+                    {state.fromCache && (
+                        <span className="hidden sm:flex items-center gap-1.5 text-[10px] font-bold uppercase tracking-wider text-emerald-400/80" title="Loaded from your device">
+                            <HardDriveDownload size={14} /> Saved
+                        </span>
+                    )}
+
+                    <button 
+                        onClick={onRegenerate}
+                        className="w-9 h-9 flex items-center justify-center rounded-full bg-slate-800 text-slate-400 hover:bg-slate-700 hover:text-indigo-300 transition-all"
+                        title="Regenerate this lesson"
+                    >
+                        <RefreshCw size={18} />
+                    </button>
+
                     <button 
                         onClick={onFeedback}
                         className="w-9 h-9 flex items-center justify-center rounded-full bg-slate-800 text-slate-400 hover:bg-slate-700 hover:text-yellow-400 transition-all"
@@ -283,68 +818,224 @@ export const LessonPlayer: React.FC<LessonPlayerProps> = ({ topic, state, onComp
       {/* Supplemental Content - Stacked on Mobile */}
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
          {/* Interactive Transcript */}
-         <div className="lg:col-span-2 bg-slate-900 rounded-2xl border border-slate-800 overflow-hidden flex flex-col h-[400px] md:h-[500px]">
+         <div className="relative lg:col-span-2 bg-slate-900 rounded-2xl border border-slate-800 overflow-hidden flex flex-col h-[400px] md:h-[500px]">
             <div className="p-4 border-b border-slate-800 bg-slate-900/90 backdrop-blur sticky top-0 z-10 flex items-center justify-between">
                 <h3 className="text-sm font-bold text-slate-200 flex items-center gap-2 uppercase tracking-wider">
                     <FileText size={16} className="text-indigo-400"/> 
                     Live Transcript
                 </h3>
-                <div className="text-xs text-slate-500 font-mono">
-                    {(progress).toFixed(0)}% READ
+                <div className="flex items-center gap-3">
+                    {hasEnglish && (
+                        <button
+                            onClick={() => setShowEnglish(!showEnglish)}
+                            className={`flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] font-bold uppercase tracking-wider transition-colors ${
+                                showEnglish ? 'text-indigo-300 bg-indigo-500/10' : 'text-slate-400 hover:bg-slate-800 hover:text-indigo-300'
+                            }`}
+                            title="Show English side by side"
+                        >
+                            <Languages size={12} /> EN
+                        </button>
+                    )}
+                    {captionUrls && (
+                        <div className="flex items-center gap-1 text-[10px] font-bold uppercase tracking-wider" title="Download captions">
+                            <Download size={14} className="text-slate-500" />
+                            <a href={captionUrls.vtt} download={`${captionFileName}.vtt`} className="px-1.5 py-0.5 rounded text-slate-400 hover:bg-slate-800 hover:text-indigo-300 transition-colors">VTT</a>
+                            <a href={captionUrls.srt} download={`${captionFileName}.srt`} className="px-1.5 py-0.5 rounded text-slate-400 hover:bg-slate-800 hover:text-indigo-300 transition-colors">SRT</a>
+                        </div>
+                    )}
+                    {isVideoExportSupported() && state.audioUrl && (
+                        <button
+                            onClick={handleExportVideo}
+                            className={`flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] font-bold uppercase tracking-wider transition-colors ${
+                                exportProgress !== null ? 'text-indigo-300 bg-indigo-500/10 hover:bg-red-500/10 hover:text-red-300' :
+                                exportError ? 'text-red-400 hover:bg-slate-800' :
+                                'text-slate-400 hover:bg-slate-800 hover:text-indigo-300'
+                            }`}
+                            title={exportProgress !== null ? 'Rendering in real time, keep this tab open. Click to cancel.' : exportError ?? 'Download as WebM video'}
+                        >
+                            {exportProgress !== null ? <Loader2 size={12} className="animate-spin" /> : <Film size={12} />}
+                            {exportProgress !== null ? `${Math.round(exportProgress * 100)}%` : 'Video'}
+                        </button>
+                    )}
+                    <div className="text-xs text-slate-500 font-mono">
+                        {(progress).toFixed(0)}% READ
+                    </div>
                 </div>
             </div>
             
             <div 
                 ref={transcriptRef}
+                onMouseUp={handleTranscriptSelection}
+                onTouchEnd={() => setTimeout(handleTranscriptSelection, 0)}
                 className="p-4 md:p-6 overflow-y-auto scrollbar-thin scrollbar-thumb-slate-700 flex-1 relative scroll-smooth"
             >
                 <div className="space-y-6 max-w-3xl mx-auto">
-                    {transcriptData.paragraphs.map((para, pIdx) => (
-                        <p key={pIdx} className="text-base md:text-xl leading-relaxed md:leading-loose text-slate-600">
-                            {para.words.map((word, wIdx) => {
-                                const globalIdx = para.start + wIdx;
-                                const isRead = globalIdx < currentWordIndex;
-                                const isCurrent = globalIdx === currentWordIndex;
-                                
-                                return (
-                                    <span 
-                                        key={wIdx} 
-                                        className={`transition-all duration-300 inline-block mr-1.5 rounded px-0.5 ${
-                                            isRead ? "text-slate-200" : 
-                                            isCurrent ? "text-indigo-300 bg-indigo-500/20 font-medium scale-105 shadow-sm" : 
-                                            ""
-                                        }`}
-                                    >
-                                        {word}
+                    {transcriptData.paragraphs.map((para, pIdx) => {
+                        const speaker = para.speaker !== undefined ? speakers[para.speaker] : undefined;
+                        const paragraph = (
+                            <div key={pIdx} dir={language.rtl ? 'rtl' : undefined} className="text-base md:text-xl leading-relaxed md:leading-loose text-slate-600">
+                                {speaker && (
+                                    <span className={`block w-fit mb-1 px-2 py-0.5 rounded-full text-[11px] font-bold uppercase tracking-wider select-none ${SPEAKER_STYLES[para.speaker! % SPEAKER_STYLES.length]}`}>
+                                        {speaker.name}{speaker.role === 'student' && <span className="font-normal normal-case tracking-normal opacity-70"> · student</span>}
                                     </span>
-                                );
-                            })}
-                        </p>
-                    ))}
+                                )}
+                                {para.words.map((word, wIdx) => {
+                                    const globalIdx = para.start + wIdx;
+                                    const isRead = globalIdx < currentWordIndex;
+                                    const isCurrent = globalIdx === currentWordIndex;
+                                    const isSelected = !!noteSelection && globalIdx >= noteSelection.first && globalIdx <= noteSelection.last;
+                                    const noted = notesByWord.get(globalIdx);
+                                
+                                    return (
+                                        <React.Fragment key={wIdx}>
+                                        <span 
+                                            data-word={globalIdx}
+                                            onClick={() => seekToWord(globalIdx)}
+                                            className={`transition-all duration-300 ${word.block ? 'block w-full my-1' : 'inline-block mr-1.5'} rounded px-0.5 cursor-pointer hover:bg-slate-800 ${
+                                                isCurrent ? "text-indigo-300 bg-indigo-500/20 font-medium scale-105 shadow-sm" : 
+                                                isSelected ? "text-white bg-indigo-500/30" :
+                                                noted ? `bg-amber-400/15 ${isRead ? "text-amber-100" : "text-amber-200/70"}` :
+                                                isRead ? "text-slate-200" : 
+                                                ""
+                                            }`}
+                                        >
+                                            {hasMarkup(word.text) ? <RichText text={word.text} /> : word.text}
+                                        </span>
+                                        {noted?.isLast && (
+                                            <button
+                                                onClick={() => editNote(noted.note)}
+                                                className={`inline-flex align-middle mr-1.5 -ml-1 transition-colors ${noted.note.note ? 'text-amber-300 hover:text-amber-100' : 'text-amber-300/40 hover:text-amber-200'}`}
+                                                title={noted.note.note || 'Add a note'}
+                                            >
+                                                {noted.note.note ? <StickyNote size={14} /> : <Highlighter size={12} />}
+                                            </button>
+                                        )}
+                                        </React.Fragment>
+                                    );
+                                })}
+                            </div>
+                        );
+                        if (!sideBySide) return paragraph;
+
+                        // The translation sits next to the first paragraph of its scene
+                        const isSceneStart = pIdx === 0 || transcriptData.paragraphs[pIdx - 1].sceneIndex !== para.sceneIndex;
+                        return (
+                            <div key={pIdx} className="grid grid-cols-1 md:grid-cols-2 gap-2 md:gap-6">
+                                {paragraph}
+                                <div className="text-sm md:text-base leading-relaxed text-slate-500 md:border-l md:border-slate-800 md:pl-6">
+                                    {isSceneStart && <RichText text={state.content?.scenes[para.sceneIndex]?.englishNarration ?? ''} />}
+                                </div>
+                            </div>
+                        );
+                    })}
                 </div>
                 
                 {/* Gradient fade at bottom */}
                 <div className="absolute bottom-0 left-0 right-0 h-12 md:h-24 bg-gradient-to-t from-slate-900 to-transparent pointer-events-none"></div>
             </div>
+
+            {/* Highlight / note toolbar for the selected passage */}
+            {noteSelection && (
+                <div className="absolute bottom-4 left-4 right-4 z-20 flex justify-center animate-in fade-in slide-in-from-bottom-2 duration-200">
+                    {noteDraft === null ? (
+                        <div className="flex items-center gap-1 p-1 rounded-full bg-slate-800 border border-slate-700 shadow-xl text-xs font-semibold">
+                            <button onClick={() => saveNote('')} className="flex items-center gap-1.5 px-3 py-1.5 rounded-full text-amber-200 hover:bg-slate-700 transition-colors">
+                                <Highlighter size={14} /> Highlight
+                            </button>
+                            <button onClick={() => { pauseLesson(); setNoteDraft(''); }} className="flex items-center gap-1.5 px-3 py-1.5 rounded-full text-slate-200 hover:bg-slate-700 transition-colors">
+                                <StickyNote size={14} /> Add note
+                            </button>
+                            <button onClick={closeNoteEditor} className="p-1.5 rounded-full text-slate-500 hover:text-white hover:bg-slate-700 transition-colors" title="Cancel">
+                                <X size={14} />
+                            </button>
+                        </div>
+                    ) : (
+                        <div className="w-full max-w-lg p-3 rounded-2xl bg-slate-800 border border-slate-700 shadow-xl flex flex-col gap-2">
+                            <textarea
+                                autoFocus
+                                value={noteDraft}
+                                onChange={(e) => setNoteDraft(e.target.value)}
+                                onKeyDown={(e) => {
+                                    if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) saveNote(noteDraft);
+                                    if (e.key === 'Escape') closeNoteEditor();
+                                }}
+                                rows={3}
+                                placeholder="Your note…"
+                                className="w-full resize-none bg-slate-900 border border-slate-700 rounded-xl py-2 px-3 text-sm text-white placeholder-slate-500 focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none"
+                            />
+                            <div className="flex items-center justify-end gap-2 text-xs font-semibold">
+                                {noteSelection.noteId && (
+                                    <button
+                                        onClick={() => { onDeleteNote(noteSelection.noteId!); closeNoteEditor(); }}
+                                        className="mr-auto flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-red-300 hover:bg-red-500/10 transition-colors"
+                                    >
+                                        <Trash2 size={14} /> Delete
+                                    </button>
+                                )}
+                                <button onClick={closeNoteEditor} className="px-3 py-1.5 rounded-lg text-slate-400 hover:text-white hover:bg-slate-700 transition-colors">
+                                    Cancel
+                                </button>
+                                <button onClick={() => saveNote(noteDraft)} className="px-3 py-1.5 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white transition-colors">
+                                    Save
+                                </button>
+                            </div>
+                        </div>
+                    )}
+                </div>
+            )}
          </div>
 
-         {/* Key Points Sidebar */}
-         <div className="lg:col-span-1 bg-slate-900 rounded-2xl border border-slate-800 p-6 h-full flex flex-col">
-            <h3 className="text-xs font-bold text-indigo-400 uppercase tracking-wider mb-6 flex items-center gap-2">
-                <span className="w-2 h-2 rounded-full bg-indigo-500"></span>
-                Key Takeaways
-            </h3>
+         {/* Key Points / Ask the Tutor Sidebar */}
+         <div 
+            ref={sidePanelRef}
+            className={`lg:col-span-1 bg-slate-900 rounded-2xl border border-slate-800 p-6 flex flex-col ${sidePanel === 'chat' ? 'h-[450px] lg:h-[500px]' : 'h-full'}`}
+         >
+            <div className="flex items-center gap-4 mb-6">
+                {([['keyPoints', 'Key Takeaways'], ['chat', `Ask ${tutorName}`]] as [SidePanel, string][]).map(([panel, label]) => (
+                    <button
+                        key={panel}
+                        onClick={() => panel === 'chat' ? openChat() : setSidePanel(panel)}
+                        className={`text-xs font-bold uppercase tracking-wider flex items-center gap-2 transition-colors ${sidePanel === panel ? 'text-indigo-400' : 'text-slate-500 hover:text-slate-300'}`}
+                    >
+                        <span className={`w-2 h-2 rounded-full ${sidePanel === panel ? 'bg-indigo-500' : 'bg-slate-700'}`}></span>
+                        {label}
+                    </button>
+                ))}
+            </div>
             
+            {sidePanel === 'chat' ? (
+                <TutorChat
+                    key={topic.id}
+                    tutorName={tutorName}
+                    messages={chatMessages}
+                    onAsk={onAskTutor}
+                    onSpeak={onSpeakAnswer}
+                    onEngage={pauseLesson}
+                    onOpenPage={page => { pauseLesson(); onOpenSource({ page }); }}
+                />
+            ) : (
             <ul className="space-y-4 flex-1">
                 {state.content?.keyPoints.map((point, idx) => (
                     <li key={idx} className="flex gap-4 text-sm text-slate-300 group p-3 rounded-xl hover:bg-slate-800/50 transition-colors border border-transparent hover:border-slate-700/50">
                         <span className="flex-shrink-0 w-6 h-6 rounded-full bg-slate-800 border border-slate-700 flex items-center justify-center text-xs font-mono text-indigo-400 group-hover:border-indigo-500 group-hover:text-indigo-300 transition-colors shadow-sm">
                             {idx + 1}
                         </span>
-                        <span className="pt-0.5 leading-relaxed">{point}</span>
+                        <span className="pt-0.5 leading-relaxed">
+                            <RichText text={point.text} />
+                            {point.source && (
+                                <button
+                                    onClick={() => { pauseLesson(); onOpenSource(point.source!); }}
+                                    className="ml-2 inline-flex items-center gap-1 px-1.5 rounded bg-indigo-500/15 text-indigo-300 hover:bg-indigo-500/30 text-xs font-mono align-baseline transition-colors"
+                                    title={point.source.quote ? `“${point.source.quote}”` : 'Open the page in the PDF'}
+                                >
+                                    p. {point.source.page}
+                                </button>
+                            )}
+                        </span>
                     </li>
                 ))}
             </ul>
+            )}
          </div>
       </div>
 
@@ -352,10 +1043,20 @@ export const LessonPlayer: React.FC<LessonPlayerProps> = ({ topic, state, onComp
       <audio 
         ref={audioRef} 
         onTimeUpdate={handleTimeUpdate} 
+        onLoadedMetadata={handleDurationChange}
+        onDurationChange={handleDurationChange}
         onEnded={() => setIsPlaying(false)}
+        onPlay={() => setIsPlaying(true)}
+        onPause={() => setIsPlaying(false)}
         className="absolute w-0 h-0 opacity-0 pointer-events-none"
         playsInline
-      />
+      >
+        {/* Audio has no rendering area, so the browser never draws this track: it exposes the captions
+            through textTracks, and the overlay above shows the same cues */}
+        {captionUrls && (
+          <track key={captionUrls.vtt} kind="captions" src={captionUrls.vtt} srcLang={language.code} label={language.nativeLabel} />
+        )}
+      </audio>
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,108 @@
+import React from 'react';
+import { CourseStructure, Topic, TranscriptNote } from '../types';
+import { formatTimestamp, notesToMarkdown, sortNotes } from '../services/notes';
+import { RichText } from './RichText';
+import { NotebookPen, X, Download, Trash2, Play } from 'lucide-react';
+
+interface NotesPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  notes: TranscriptNote[];
+  courseStructure: CourseStructure | null;
+  /** Opens the note's lesson at its timestamp. */
+  onOpenNote: (note: TranscriptNote) => void;
+  onDeleteNote: (id: string) => void;
+}
+
+export const NotesPanel: React.FC<NotesPanelProps> = ({ isOpen, onClose, notes, courseStructure, onOpenNote, onDeleteNote }) => {
+  if (!isOpen) return null;
+
+  const sorted = sortNotes(notes, courseStructure);
+  const topics = new Map<string, Topic>((courseStructure?.chapters.flatMap(ch => ch.topics) ?? []).map(t => [t.id, t]));
+
+  const handleExport = () => {
+    const markdown = notesToMarkdown(notes, courseStructure);
+    const url = URL.createObjectURL(new Blob([markdown], { type: 'text/markdown' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${(courseStructure?.title ?? 'course').replace(/[^\w\s-]/g, '').trim().replace(/\s+/g, '-').toLowerCase() || 'course'}-notes.md`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className="w-full max-w-2xl bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl overflow-hidden animate-in zoom-in-95 duration-300 max-h-[90vh] flex flex-col">
+
+        {/* Header */}
+        <div className="p-6 border-b border-slate-800 flex items-center justify-between bg-slate-900/50">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-xl bg-indigo-500/20 flex items-center justify-center text-indigo-400">
+              <NotebookPen size={24} />
+            </div>
+            <div>
+              <h2 className="text-lg font-bold text-white">My Notes</h2>
+              <p className="text-xs text-slate-400">{notes.length} {notes.length === 1 ? 'note' : 'notes'} in this course</p>
+            </div>
+          </div>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={handleExport}
+              disabled={notes.length === 0}
+              className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-slate-800 hover:bg-slate-700 text-slate-300 text-xs font-semibold transition-colors disabled:opacity-40"
+              title="Export as Markdown"
+            >
+              <Download size={14} /> Markdown
+            </button>
+            <button onClick={onClose} className="text-slate-500 hover:text-white transition-colors">
+              <X size={20} />
+            </button>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-4 overflow-y-auto">
+          {sorted.length === 0 && (
+            <p className="text-sm text-slate-500 text-center py-8">
+              Select words in a lesson transcript to highlight them or add a note. They are collected here.
+            </p>
+          )}
+
+          {sorted.map((note, idx) => {
+            const isFirstOfTopic = idx === 0 || sorted[idx - 1].topicId !== note.topicId;
+            const topic = topics.get(note.topicId);
+            return (
+              <React.Fragment key={note.id}>
+                {isFirstOfTopic && (
+                  <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider pt-2">{topic?.title ?? note.topicTitle}</h3>
+                )}
+                <div className="group rounded-xl bg-slate-800/50 border border-slate-800 p-4 space-y-2">
+                  <blockquote className="text-sm text-amber-100/90 border-l-2 border-amber-400/60 pl-3 leading-relaxed">
+                    <RichText text={note.quote} />
+                  </blockquote>
+                  {note.note && <p className="text-sm text-slate-300 whitespace-pre-wrap">{note.note}</p>}
+                  <div className="flex items-center gap-3 text-[10px] font-bold uppercase tracking-wider text-slate-500">
+                    <button
+                      onClick={() => onOpenNote(note)}
+                      disabled={!topic || topic.isLocked}
+                      className="flex items-center gap-1 hover:text-indigo-300 transition-colors disabled:hover:text-slate-500"
+                      title="Open the lesson here"
+                    >
+                      <Play size={12} /> {formatTimestamp(note.time)}
+                    </button>
+                    <button
+                      onClick={() => onDeleteNote(note.id)}
+                      className="ml-auto flex items-center gap-1 opacity-0 group-hover:opacity-100 focus:opacity-100 hover:text-red-300 transition-all"
+                    >
+                      <Trash2 size={12} /> Delete
+                    </button>
+                  </div>
+                </div>
+              </React.Fragment>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
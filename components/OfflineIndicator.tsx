@@ -0,0 +1,29 @@
+import React from 'react';
+import { WifiOff } from 'lucide-react';
+
+interface OfflineIndicatorProps {
+  isOnline: boolean;
+  /** Lessons and quizzes waiting for the connection to come back. */
+  queuedRequests: number;
+}
+
+/**
+ * Header badge shown while offline: saved lessons and quizzes keep working, new ones wait.
+ */
+export const OfflineIndicator: React.FC<OfflineIndicatorProps> = ({ isOnline, queuedRequests }) => {
+  if (isOnline) return null;
+
+  return (
+    <div
+      className="flex items-center gap-2 px-3 py-1.5 rounded-full bg-amber-500/10 text-amber-300 border border-amber-500/30 text-xs font-semibold"
+      title="Saved lessons and quizzes still work. New ones are generated when you're back online."
+      role="status"
+    >
+      <WifiOff size={14} />
+      <span className="hidden sm:inline">Offline</span>
+      {queuedRequests > 0 && (
+        <span className="px-1.5 rounded-full bg-amber-500/20 font-mono">{queuedRequests} queued</span>
+      )}
+    </div>
+  );
+};
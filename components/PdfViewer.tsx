@@ -0,0 +1,201 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { PDFDocumentProxy, RenderTask } from 'pdfjs-dist';
+import { SourceCitation } from '../types';
+import { getStoredDocument } from '../services/documentStore';
+import { getQuoteRects, loadPdf, PageRect } from '../services/pdfText';
+import { ChevronLeft, ChevronRight, FileText, Loader2, X, AlertCircle } from 'lucide-react';
+
+interface PdfViewerProps {
+  /** Hash of the course PDF in the document store. */
+  pdfHash: string | null;
+  /** Page (and optional quote) to open at; the viewer is closed while null. */
+  target: SourceCitation | null;
+  onClose: () => void;
+}
+
+// The last opened document stays loaded, so following several citations does not re-parse the PDF
+let openDocument: { hash: string; pdf: Promise<PDFDocumentProxy> } | null = null;
+
+const getDocument = (hash: string): Promise<PDFDocumentProxy> => {
+  if (openDocument?.hash === hash) return openDocument.pdf;
+  openDocument?.pdf.then(pdf => pdf.destroy()).catch(() => {});
+
+  const pdf = getStoredDocument(hash).then(async stored => {
+    if (!stored) throw new Error('The PDF for this course is no longer stored on this device.');
+    return loadPdf(await stored.pdf.arrayBuffer());
+  });
+  openDocument = { hash, pdf };
+  pdf.catch(() => {
+    if (openDocument?.pdf === pdf) openDocument = null;
+  });
+  return pdf;
+};
+
+export const PdfViewer: React.FC<PdfViewerProps> = ({ pdfHash, target, onClose }) => {
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [pageNumber, setPageNumber] = useState(1);
+  const [highlights, setHighlights] = useState<PageRect[]>([]);
+  const [isRendering, setIsRendering] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!target || !pdfHash) return;
+    setPageNumber(target.page);
+    setError(null);
+
+    let cancelled = false;
+    getDocument(pdfHash)
+      .then(doc => { if (!cancelled) setPdf(doc); })
+      .catch(err => { if (!cancelled) setError(err instanceof Error ? err.message : 'The PDF could not be opened.'); });
+    return () => { cancelled = true; };
+  }, [target, pdfHash]);
+
+  // Render the current page fitted to the viewer width, then mark the quote on the cited page
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const container = scrollRef.current;
+    if (!pdf || !target || !canvas || !container || pageNumber < 1 || pageNumber > pdf.numPages) return;
+
+    let cancelled = false;
+    let renderTask: RenderTask | null = null;
+    setIsRendering(true);
+    setHighlights([]);
+
+    (async () => {
+      try {
+        const page = await pdf.getPage(pageNumber);
+        if (cancelled) return;
+        const scale = (container.clientWidth - 32) / page.getViewport({ scale: 1 }).width;
+        const viewport = page.getViewport({ scale });
+        const outputScale = window.devicePixelRatio || 1;
+
+        canvas.width = Math.floor(viewport.width * outputScale);
+        canvas.height = Math.floor(viewport.height * outputScale);
+        canvas.style.width = `${Math.floor(viewport.width)}px`;
+        canvas.style.height = `${Math.floor(viewport.height)}px`;
+
+        renderTask = page.render({
+          canvasContext: canvas.getContext('2d')!,
+          viewport,
+          transform: outputScale !== 1 ? [outputScale, 0, 0, outputScale, 0, 0] : undefined,
+        });
+        await renderTask.promise;
+        if (cancelled) return;
+
+        if (pageNumber === target.page && target.quote) {
+          const rects = await getQuoteRects(page, viewport, target.quote);
+          if (cancelled) return;
+          setHighlights(rects);
+          if (rects.length > 0) {
+            container.scrollTo({ top: Math.max(0, rects[0].top - container.clientHeight / 3), behavior: 'smooth' });
+          }
+        } else {
+          container.scrollTo({ top: 0 });
+        }
+      } catch (err) {
+        if (!cancelled && (err as Error)?.name !== 'RenderingCancelledException') {
+          console.warn('Rendering the PDF page failed', err);
+          setError('This page could not be displayed.');
+        }
+      } finally {
+        if (!cancelled) setIsRendering(false);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+    };
+  }, [pdf, pageNumber, target]);
+
+  useEffect(() => {
+    if (!target) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+      else if (e.key === 'ArrowLeft') setPageNumber(p => Math.max(1, p - 1));
+      else if (e.key === 'ArrowRight') setPageNumber(p => (pdf ? Math.min(pdf.numPages, p + 1) : p));
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [target, pdf, onClose]);
+
+  if (!target) return null;
+
+  const pageCount = pdf?.numPages ?? 0;
+
+  return (
+    <div className="fixed inset-0 z-[95] flex items-center justify-center bg-black/70 backdrop-blur-sm p-4 animate-in fade-in duration-200" onClick={onClose}>
+      <div
+        className="w-full max-w-3xl h-[90vh] bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl overflow-hidden flex flex-col animate-in zoom-in-95 duration-300"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="px-5 py-4 border-b border-slate-800 flex items-center justify-between gap-4">
+          <div className="flex items-center gap-3 min-w-0">
+            <div className="w-9 h-9 rounded-xl bg-indigo-500/20 flex items-center justify-center text-indigo-400 flex-shrink-0">
+              <FileText size={20} />
+            </div>
+            <div className="min-w-0">
+              <h2 className="text-sm font-bold text-white">Source</h2>
+              {target.quote && (
+                <p className="text-xs text-slate-400 truncate" title={target.quote}>“{target.quote}”</p>
+              )}
+            </div>
+          </div>
+          <div className="flex items-center gap-2 flex-shrink-0">
+            <button
+              onClick={() => setPageNumber(p => Math.max(1, p - 1))}
+              disabled={pageNumber <= 1}
+              className="w-8 h-8 flex items-center justify-center rounded-full bg-slate-800 text-slate-300 hover:text-white disabled:opacity-40 transition-colors"
+              title="Previous page"
+            >
+              <ChevronLeft size={16} />
+            </button>
+            <span className="text-xs font-mono text-slate-400 min-w-[4.5rem] text-center">
+              {pageNumber}{pageCount ? ` / ${pageCount}` : ''}
+            </span>
+            <button
+              onClick={() => setPageNumber(p => Math.min(pageCount, p + 1))}
+              disabled={!pageCount || pageNumber >= pageCount}
+              className="w-8 h-8 flex items-center justify-center rounded-full bg-slate-800 text-slate-300 hover:text-white disabled:opacity-40 transition-colors"
+              title="Next page"
+            >
+              <ChevronRight size={16} />
+            </button>
+            <button onClick={onClose} className="ml-2 text-slate-500 hover:text-white transition-colors" title="Close">
+              <X size={20} />
+            </button>
+          </div>
+        </div>
+
+        {/* Page */}
+        <div ref={scrollRef} className="flex-1 overflow-auto bg-slate-950 p-4">
+          {error ? (
+            <div className="h-full flex flex-col items-center justify-center text-center gap-3 text-sm text-red-300">
+              <AlertCircle size={28} />
+              <p>{error}</p>
+            </div>
+          ) : (
+            <div className="relative mx-auto w-fit shadow-xl">
+              <canvas ref={canvasRef} className="block bg-white" />
+              {highlights.map((rect, idx) => (
+                <span
+                  key={idx}
+                  className="absolute bg-yellow-300/40 mix-blend-multiply rounded-sm pointer-events-none"
+                  style={{ left: rect.left, top: rect.top, width: rect.width, height: rect.height }}
+                />
+              ))}
+              {(isRendering || !pdf) && (
+                <div className="absolute inset-0 min-h-[200px] flex items-center justify-center bg-slate-950/40">
+                  <Loader2 size={28} className="animate-spin text-indigo-400" />
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,278 @@
+import React, { useState } from 'react';
+import { ClozeQuestion, MultiSelectQuestion, OrderingQuestion, QuizQuestion } from '../types';
+import { QuizLabels, QuizResponse, createShuffledOrder, isAcceptedBlank, splitCloze } from '../services/quiz';
+import { RichText } from './RichText';
+import { Check, X, ChevronUp, ChevronDown, Square, CheckSquare, Loader2 } from 'lucide-react';
+
+interface QuizAnswerProps {
+  question: QuizQuestion;
+  /** The submitted answer; once set, the answer is shown marked and can't be changed. */
+  response: QuizResponse | null;
+  onSubmit: (response: QuizResponse) => void;
+  /** A short answer is being graded. */
+  isGrading?: boolean;
+  /** True/false options, in the quiz's language. */
+  labels: QuizLabels;
+}
+
+const OPTION_BASE = 'w-full text-left p-4 rounded-xl border-2 transition-all duration-200 flex items-center justify-between gap-3';
+const OPTION_IDLE = 'border-slate-700 hover:bg-slate-700/50 hover:border-slate-600';
+const OPTION_CORRECT = 'border-green-500 bg-green-500/10 text-green-400';
+const OPTION_WRONG = 'border-red-500 bg-red-500/10 text-red-400';
+const OPTION_MISSED = 'border-amber-500/60 bg-amber-500/5 text-amber-300';
+const OPTION_FADED = 'border-slate-800 opacity-50';
+
+const SubmitButton: React.FC<{ onClick: () => void; disabled: boolean; children: React.ReactNode }> = ({ onClick, disabled, children }) => (
+  <button
+    onClick={onClick}
+    disabled={disabled}
+    className="mt-5 w-full py-3 bg-indigo-600 hover:bg-indigo-500 disabled:bg-slate-700 disabled:text-slate-400 text-white font-semibold rounded-xl transition-colors flex items-center justify-center gap-2"
+  >
+    {children}
+  </button>
+);
+
+/**
+ * Single choice and true/false: one click answers. `correct` is the right option.
+ */
+const ChoiceList: React.FC<{ options: string[]; correct: number; selected: number | null; onSelect: (idx: number) => void }> = ({ options, correct, selected, onSelect }) => {
+  const isAnswered = selected !== null;
+  return (
+    <div className="space-y-3">
+      {options.map((option, idx) => {
+        const stateClass = !isAnswered ? OPTION_IDLE
+          : idx === correct ? OPTION_CORRECT
+          : idx === selected ? OPTION_WRONG
+          : OPTION_FADED;
+        return (
+          <button key={idx} onClick={() => onSelect(idx)} disabled={isAnswered} className={`${OPTION_BASE} ${stateClass}`}>
+            <span className={isAnswered && idx === correct ? 'font-semibold' : 'text-slate-300'}>
+              <RichText text={option} />
+            </span>
+            {isAnswered && idx === correct && <Check size={20} className="flex-shrink-0" />}
+            {isAnswered && idx === selected && idx !== correct && <X size={20} className="flex-shrink-0" />}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+const MultiSelectInput: React.FC<{ question: MultiSelectQuestion; submitted: number[] | null; onSubmit: (options: number[]) => void }> = ({ question, submitted, onSubmit }) => {
+  const [picked, setPicked] = useState<number[]>([]);
+  const chosen = submitted ?? picked;
+
+  const toggle = (idx: number) => {
+    setPicked(current => current.includes(idx) ? current.filter(i => i !== idx) : [...current, idx].sort((a, b) => a - b));
+  };
+
+  return (
+    <>
+      <div className="space-y-3">
+        {question.options.map((option, idx) => {
+          const isCorrect = question.correctOptionIndices.includes(idx);
+          const isChosen = chosen.includes(idx);
+          const stateClass = !submitted ? (isChosen ? 'border-indigo-500 bg-indigo-500/10' : OPTION_IDLE)
+            : isCorrect ? (isChosen ? OPTION_CORRECT : OPTION_MISSED)
+            : isChosen ? OPTION_WRONG
+            : OPTION_FADED;
+          return (
+            <button key={idx} onClick={() => toggle(idx)} disabled={!!submitted} className={`${OPTION_BASE} ${stateClass}`}>
+              <span className="flex items-center gap-3">
+                {isChosen ? <CheckSquare size={18} className="flex-shrink-0" /> : <Square size={18} className="flex-shrink-0 text-slate-500" />}
+                <span className={submitted && isCorrect ? 'font-semibold' : 'text-slate-300'}>
+                  <RichText text={option} />
+                </span>
+              </span>
+              {submitted && isCorrect && !isChosen && <span className="text-xs font-semibold flex-shrink-0">Missed</span>}
+              {submitted && isCorrect && isChosen && <Check size={20} className="flex-shrink-0" />}
+              {submitted && !isCorrect && isChosen && <X size={20} className="flex-shrink-0" />}
+            </button>
+          );
+        })}
+      </div>
+      {!submitted && (
+        <SubmitButton onClick={() => onSubmit(picked)} disabled={picked.length === 0}>
+          Check Answer
+        </SubmitButton>
+      )}
+    </>
+  );
+};
+
+const OrderingInput: React.FC<{ question: OrderingQuestion; submitted: number[] | null; onSubmit: (order: number[]) => void }> = ({ question, submitted, onSubmit }) => {
+  const [order, setOrder] = useState(() => createShuffledOrder(question.items.length));
+  const shown = submitted ?? order;
+
+  const move = (position: number, offset: number) => {
+    setOrder(current => {
+      const next = [...current];
+      [next[position], next[position + offset]] = [next[position + offset], next[position]];
+      return next;
+    });
+  };
+
+  return (
+    <>
+      <ol className="space-y-2">
+        {shown.map((item, position) => {
+          const stateClass = !submitted ? 'border-slate-700' : item === position ? OPTION_CORRECT : OPTION_WRONG;
+          return (
+            <li key={item} className={`flex items-center gap-3 p-3 rounded-xl border-2 transition-colors ${stateClass}`}>
+              <span className="w-6 text-center font-mono text-sm text-slate-500 flex-shrink-0">{position + 1}</span>
+              <span className="flex-1 text-slate-300">
+                <RichText text={question.items[item]} />
+              </span>
+              {submitted ? (
+                item !== position && <span className="text-xs font-semibold flex-shrink-0">Goes {item + 1}</span>
+              ) : (
+                <span className="flex flex-col flex-shrink-0">
+                  <button onClick={() => move(position, -1)} disabled={position === 0} className="text-slate-400 hover:text-white disabled:opacity-20" title="Move up">
+                    <ChevronUp size={18} />
+                  </button>
+                  <button onClick={() => move(position, 1)} disabled={position === shown.length - 1} className="text-slate-400 hover:text-white disabled:opacity-20" title="Move down">
+                    <ChevronDown size={18} />
+                  </button>
+                </span>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+      {!submitted && (
+        <SubmitButton onClick={() => onSubmit(order)} disabled={false}>
+          Check Order
+        </SubmitButton>
+      )}
+    </>
+  );
+};
+
+const ClozeInput: React.FC<{ question: ClozeQuestion; submitted: string[] | null; onSubmit: (blanks: string[]) => void }> = ({ question, submitted, onSubmit }) => {
+  const [typed, setTyped] = useState<string[]>(() => question.blanks.map(() => ''));
+  const shown = submitted ?? typed;
+  const parts = splitCloze(question.question);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (typed.some(text => text.trim())) onSubmit(typed);
+  };
+
+  return (
+    <form onSubmit={handleSubmit}>
+      <div className="text-xl font-semibold text-white leading-loose">
+        {parts.map((part, idx) => (
+          <React.Fragment key={idx}>
+            {idx > 0 && (() => {
+              const blank = idx - 1;
+              const isRight = submitted && isAcceptedBlank(shown[blank] ?? '', question.blanks[blank]);
+              const stateClass = !submitted ? 'border-slate-500 focus:border-indigo-400' : isRight ? 'border-green-500 text-green-400' : 'border-red-500 text-red-400';
+              return (
+                <span className="inline-flex items-baseline gap-1.5 mx-1">
+                  <input
+                    value={shown[blank] ?? ''}
+                    onChange={e => setTyped(current => current.map((text, i) => i === blank ? e.target.value : text))}
+                    readOnly={!!submitted}
+                    aria-label={`Blank ${blank + 1}`}
+                    className={`w-36 px-2 py-0.5 bg-slate-900/60 border-b-2 rounded-t text-base font-medium outline-none transition-colors ${stateClass}`}
+                  />
+                  {submitted && !isRight && <span className="text-base text-green-400">{question.blanks[blank][0]}</span>}
+                </span>
+              );
+            })()}
+            <RichText text={part} />
+          </React.Fragment>
+        ))}
+      </div>
+      {!submitted && (
+        <button
+          type="submit"
+          disabled={typed.every(text => !text.trim())}
+          className="mt-5 w-full py-3 bg-indigo-600 hover:bg-indigo-500 disabled:bg-slate-700 disabled:text-slate-400 text-white font-semibold rounded-xl transition-colors flex items-center justify-center gap-2"
+        >
+          Check Answer
+        </button>
+      )}
+    </form>
+  );
+};
+
+const ShortAnswerInput: React.FC<{ submitted: string | null; onSubmit: (text: string) => void; isGrading: boolean }> = ({ submitted, onSubmit, isGrading }) => {
+  const [draft, setDraft] = useState('');
+  return (
+    <>
+      <textarea
+        value={submitted ?? draft}
+        onChange={e => setDraft(e.target.value)}
+        readOnly={submitted !== null}
+        rows={4}
+        placeholder="Answer in a few sentences..."
+        className="w-full p-4 rounded-xl bg-slate-900/60 border-2 border-slate-700 focus:border-indigo-500 text-slate-200 placeholder:text-slate-500 outline-none resize-y transition-colors"
+      />
+      {(submitted === null || isGrading) && (
+        <SubmitButton onClick={() => onSubmit(draft.trim())} disabled={!draft.trim() || isGrading}>
+          {isGrading ? <><Loader2 size={18} className="animate-spin" /> Grading...</> : 'Submit Answer'}
+        </SubmitButton>
+      )}
+    </>
+  );
+};
+
+/**
+ * The answer area of a quiz question, one input per question type.
+ * Render with a `key` per question so drafts don't carry over.
+ */
+export const QuizAnswer: React.FC<QuizAnswerProps> = ({ question, response, onSubmit, isGrading = false, labels }) => {
+  switch (question.type) {
+    case 'single':
+      return (
+        <ChoiceList
+          options={question.options}
+          correct={question.correctOptionIndex}
+          selected={response?.type === 'single' ? response.option : null}
+          onSelect={option => onSubmit({ type: 'single', option })}
+        />
+      );
+    case 'true_false':
+      return (
+        <ChoiceList
+          options={[labels.true, labels.false]}
+          correct={question.answer ? 0 : 1}
+          selected={response?.type === 'true_false' ? (response.value ? 0 : 1) : null}
+          onSelect={idx => onSubmit({ type: 'true_false', value: idx === 0 })}
+        />
+      );
+    case 'multiple':
+      return (
+        <MultiSelectInput
+          question={question}
+          submitted={response?.type === 'multiple' ? response.options : null}
+          onSubmit={options => onSubmit({ type: 'multiple', options })}
+        />
+      );
+    case 'ordering':
+      return (
+        <OrderingInput
+          question={question}
+          submitted={response?.type === 'ordering' ? response.order : null}
+          onSubmit={order => onSubmit({ type: 'ordering', order })}
+        />
+      );
+    case 'cloze':
+      return (
+        <ClozeInput
+          question={question}
+          submitted={response?.type === 'cloze' ? response.blanks : null}
+          onSubmit={blanks => onSubmit({ type: 'cloze', blanks })}
+        />
+      );
+    case 'short_answer':
+      return (
+        <ShortAnswerInput
+          submitted={response?.type === 'short_answer' ? response.text : null}
+          onSubmit={text => onSubmit({ type: 'short_answer', text })}
+          isGrading={isGrading}
+        />
+      );
+  }
+};
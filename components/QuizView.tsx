@@ -1,43 +1,86 @@
-
-import React, { useState } from 'react';
-import { QuizQuestion } from '../types';
-import { Check, X, ArrowRight, RefreshCcw, Trophy, MessageSquarePlus } from 'lucide-react';
+import React, { useEffect, useRef, useState } from 'react';
+import { QuizQuestion, ShortAnswerGrade, ShortAnswerQuestion, SourceCitation } from '../types';
+import { QuizResponse, getQuizLabels, formatScore, scoreResponse, scoreShortAnswer } from '../services/quiz';
+import { classifyError } from '../services/errors';
+import { isAbortError } from '../services/abort';
+import { QuizAnswer } from './QuizAnswer';
+import { RichText } from './RichText';
+import { Check, X, ArrowRight, Trophy, MessageSquarePlus, FileText, AlertCircle, RefreshCcw, CircleDot } from 'lucide-react';
 
 interface QuizViewProps {
   questions: QuizQuestion[];
   onFinish: (passed: boolean) => void;
   onFeedback: () => void;
+  onOpenSource: (source: SourceCitation) => void;
+  /** Grades a short answer against the question's rubric. */
+  onGradeShortAnswer: (question: ShortAnswerQuestion, answer: string, signal: AbortSignal) => Promise<ShortAnswerGrade>;
+  /** Language code the questions were written in. */
+  language: string;
+}
+
+// What an answered question earned; `grade` is set for graded short answers
+interface QuestionResult {
+  score: number;
+  grade?: ShortAnswerGrade;
 }
 
-export const QuizView: React.FC<QuizViewProps> = ({ questions, onFinish, onFeedback }) => {
+export const QuizView: React.FC<QuizViewProps> = ({ questions, onFinish, onFeedback, onOpenSource, onGradeShortAnswer, language }) => {
   const [currentIndex, setCurrentIndex] = useState(0);
-  const [selectedOption, setSelectedOption] = useState<number | null>(null);
-  const [isAnswered, setIsAnswered] = useState(false);
+  const [response, setResponse] = useState<QuizResponse | null>(null);
+  const [result, setResult] = useState<QuestionResult | null>(null);
+  const [isGrading, setIsGrading] = useState(false);
+  const [gradingError, setGradingError] = useState<string | null>(null);
   const [score, setScore] = useState(0);
   const [showResult, setShowResult] = useState(false);
+  const gradingRequestRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => gradingRequestRef.current?.abort(), []);
 
   const currentQuestion = questions[currentIndex];
+  const labels = getQuizLabels(language);
+
+  const finishQuestion = (earned: QuestionResult) => {
+    setResult(earned);
+    setScore(s => s + earned.score);
+  };
 
-  const handleOptionClick = (idx: number) => {
-    if (isAnswered) return;
-    setSelectedOption(idx);
-    setIsAnswered(true);
-    if (idx === currentQuestion.correctOptionIndex) {
-      setScore(s => s + 1);
+  const grade = async (question: ShortAnswerQuestion, text: string) => {
+    const controller = new AbortController();
+    gradingRequestRef.current = controller;
+    setGradingError(null);
+    setIsGrading(true);
+    try {
+      const graded = await onGradeShortAnswer(question, text, controller.signal);
+      finishQuestion({ score: scoreShortAnswer(question, graded), grade: graded });
+    } catch (err) {
+      if (!isAbortError(err)) setGradingError(classifyError(err).message);
+    } finally {
+      if (gradingRequestRef.current === controller) setIsGrading(false);
+    }
+  };
+
+  const handleSubmit = (answer: QuizResponse) => {
+    if (response) return;
+    setResponse(answer);
+    if (currentQuestion.type === 'short_answer') {
+      if (answer.type === 'short_answer') grade(currentQuestion, answer.text);
+    } else {
+      finishQuestion({ score: scoreResponse(currentQuestion, answer) });
     }
   };
 
   const handleNext = () => {
     if (currentIndex < questions.length - 1) {
       setCurrentIndex(prev => prev + 1);
-      setSelectedOption(null);
-      setIsAnswered(false);
+      setResponse(null);
+      setResult(null);
+      setGradingError(null);
     } else {
       setShowResult(true);
     }
   };
 
-  const passed = score >= Math.ceil(questions.length * 0.6); // 60% to pass
+  const passed = score >= questions.length * 0.6; // 60% to pass
 
   if (showResult) {
     return (
@@ -49,7 +92,7 @@ export const QuizView: React.FC<QuizViewProps> = ({ questions, onFinish, onFeedb
           {passed ? 'Topic Mastered!' : 'Needs Review'}
         </h2>
         <p className="text-slate-400 mb-8 text-lg">
-          You scored <span className="text-white font-bold">{score}</span> out of {questions.length}
+          You scored <span className="text-white font-bold">{formatScore(score)}</span> out of {questions.length}
         </p>
         
         <div className="flex flex-col gap-3 w-full max-w-xs">
@@ -91,51 +134,73 @@ export const QuizView: React.FC<QuizViewProps> = ({ questions, onFinish, onFeedb
 
       {/* Question Card */}
       <div className="bg-slate-800 rounded-2xl p-8 shadow-xl border border-slate-700 transition-all">
-        <h3 className="text-xl font-semibold text-white mb-6 leading-relaxed">
-          {currentQuestion.question}
-        </h3>
-
-        <div className="space-y-3">
-          {currentQuestion.options.map((option, idx) => {
-            let stateClass = "border-slate-700 hover:bg-slate-700/50 hover:border-slate-600";
-            
-            if (isAnswered) {
-              if (idx === currentQuestion.correctOptionIndex) {
-                stateClass = "border-green-500 bg-green-500/10 text-green-400";
-              } else if (idx === selectedOption && idx !== currentQuestion.correctOptionIndex) {
-                stateClass = "border-red-500 bg-red-500/10 text-red-400";
-              } else {
-                stateClass = "border-slate-800 opacity-50";
-              }
-            } else if (selectedOption === idx) {
-              stateClass = "border-indigo-500 bg-indigo-500/10";
-            }
+        <span className="inline-block mb-3 text-xs font-semibold uppercase tracking-wider text-indigo-300">
+          {labels.types[currentQuestion.type]}
+        </span>
+        {currentQuestion.type !== 'cloze' && (
+          <div className="text-xl font-semibold text-white mb-6 leading-relaxed">
+            <RichText text={currentQuestion.question} />
+          </div>
+        )}
 
-            return (
+        <QuizAnswer
+          key={currentIndex}
+          question={currentQuestion}
+          response={response}
+          onSubmit={handleSubmit}
+          isGrading={isGrading}
+          labels={labels}
+        />
+
+        {gradingError && (
+          <div className="mt-4 flex flex-col gap-3 text-sm text-red-300 bg-red-900/20 border border-red-500/20 rounded-lg p-3">
+            <span className="flex items-start gap-2">
+              <AlertCircle size={16} className="flex-shrink-0 mt-0.5" /> {gradingError}
+            </span>
+            <div className="flex gap-2">
               <button
-                key={idx}
-                onClick={() => handleOptionClick(idx)}
-                disabled={isAnswered}
-                className={`w-full text-left p-4 rounded-xl border-2 transition-all duration-200 flex items-center justify-between ${stateClass}`}
+                onClick={() => currentQuestion.type === 'short_answer' && response?.type === 'short_answer' && grade(currentQuestion, response.text)}
+                className="px-3 py-1.5 rounded-lg bg-red-500/20 hover:bg-red-500/30 text-red-200 font-medium flex items-center gap-1.5 transition-colors"
               >
-                <span className={isAnswered && idx === currentQuestion.correctOptionIndex ? 'font-semibold' : 'text-slate-300'}>
-                  {option}
-                </span>
-                {isAnswered && idx === currentQuestion.correctOptionIndex && <Check size={20} />}
-                {isAnswered && idx === selectedOption && idx !== currentQuestion.correctOptionIndex && <X size={20} />}
+                <RefreshCcw size={14} /> Try Again
               </button>
-            );
-          })}
-        </div>
+              <button
+                onClick={() => { setGradingError(null); finishQuestion({ score: 0 }); }}
+                className="px-3 py-1.5 rounded-lg bg-slate-800 hover:bg-slate-700 text-slate-300 font-medium transition-colors"
+                title="Counts as not answered and shows the model answer"
+              >
+                Skip Grading
+              </button>
+            </div>
+          </div>
+        )}
 
         {/* Feedback Section */}
-        {isAnswered && (
+        {result && (
           <div className="mt-6 pt-6 border-t border-slate-700/50 animate-in fade-in slide-in-from-bottom-2">
+            <ResultBadge score={result.score} />
+
+            {currentQuestion.type === 'short_answer' && (
+              <ShortAnswerReview question={currentQuestion} grade={result.grade} />
+            )}
+
             <div className="bg-slate-900/50 rounded-lg p-4 mb-6 border border-slate-800">
-              <p className="text-sm text-slate-400">
+              <div className="text-sm text-slate-400">
                 <span className="font-bold text-indigo-400 block mb-1">Explanation:</span>
-                {currentQuestion.explanation}
-              </p>
+                <RichText text={currentQuestion.explanation} />
+              </div>
+              {currentQuestion.source && (
+                <button
+                  onClick={() => onOpenSource(currentQuestion.source!)}
+                  className="mt-3 w-full text-left flex items-start gap-2 text-xs text-slate-400 hover:text-indigo-300 transition-colors group"
+                >
+                  <FileText size={14} className="flex-shrink-0 mt-0.5 text-indigo-400" />
+                  <span>
+                    <span className="font-mono text-indigo-300 group-hover:underline">p. {currentQuestion.source.page}</span>
+                    {currentQuestion.source.quote && <span className="italic"> · “{currentQuestion.source.quote}”</span>}
+                  </span>
+                </button>
+              )}
             </div>
             <button
               onClick={handleNext}
@@ -149,3 +214,55 @@ export const QuizView: React.FC<QuizViewProps> = ({ questions, onFinish, onFeedb
     </div>
   );
 };
+
+const ResultBadge: React.FC<{ score: number }> = ({ score }) => {
+  if (score >= 1) {
+    return (
+      <div className="mb-4 flex items-center gap-2 text-sm font-semibold text-green-400">
+        <Check size={18} /> Correct
+      </div>
+    );
+  }
+  if (score > 0) {
+    return (
+      <div className="mb-4 flex items-center gap-2 text-sm font-semibold text-amber-300">
+        <CircleDot size={18} /> Partly correct · {formatScore(Math.round(score * 10) / 10)} of 1 point
+      </div>
+    );
+  }
+  return (
+    <div className="mb-4 flex items-center gap-2 text-sm font-semibold text-red-400">
+      <X size={18} /> Incorrect
+    </div>
+  );
+};
+
+/**
+ * The model answer and, once graded, the points per rubric criterion and the grader's feedback.
+ */
+const ShortAnswerReview: React.FC<{ question: ShortAnswerQuestion; grade?: ShortAnswerGrade }> = ({ question, grade }) => (
+  <div className="bg-slate-900/50 rounded-lg p-4 mb-4 border border-slate-800 text-sm text-slate-400 space-y-3">
+    {grade && (
+      <>
+        <ul className="space-y-1.5">
+          {question.rubric.map((criterion, idx) => {
+            const awarded = grade.awarded[idx] ?? 0;
+            return (
+              <li key={idx} className="flex items-start justify-between gap-3">
+                <span>{criterion.description}</span>
+                <span className={`font-mono flex-shrink-0 ${awarded >= criterion.points ? 'text-green-400' : awarded > 0 ? 'text-amber-300' : 'text-red-400'}`}>
+                  {formatScore(awarded)}/{criterion.points}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+        {grade.feedback && <p className="text-slate-300">{grade.feedback}</p>}
+      </>
+    )}
+    <div>
+      <span className="font-bold text-indigo-400 block mb-1">Model answer:</span>
+      <RichText text={question.modelAnswer} />
+    </div>
+  </div>
+);
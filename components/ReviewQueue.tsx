@@ -0,0 +1,55 @@
+import React from 'react';
+import { Flashcard } from '../types';
+import { getDueCards } from '../services/flashcards';
+import { Layers, ArrowRight, CheckCircle2 } from 'lucide-react';
+
+interface ReviewQueueProps {
+  cards: Flashcard[];
+  onStart: () => void;
+}
+
+// Topics listed on the dashboard before "and N more"
+const MAX_LISTED_TOPICS = 3;
+
+/**
+ * Dashboard summary of the flashcards due today.
+ */
+export const ReviewQueue: React.FC<ReviewQueueProps> = ({ cards, onStart }) => {
+  if (cards.length === 0) return null;
+
+  const due = getDueCards(cards);
+  const topics = Array.from(new Set(due.map(card => card.topicTitle)));
+  const nextDue = cards.map(card => card.due).sort()[0];
+
+  return (
+    <div className="w-full max-w-md bg-slate-900 border border-slate-800 rounded-2xl p-5 text-left shadow-xl">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider flex items-center gap-2">
+          <Layers size={14} className="text-indigo-400" /> Due for review
+        </h3>
+        <span className="text-xs text-slate-500">{cards.length} cards</span>
+      </div>
+
+      {due.length > 0 ? (
+        <>
+          <p className="text-white font-semibold mb-1">{due.length} {due.length === 1 ? 'card' : 'cards'} to review</p>
+          <p className="text-xs text-slate-400 mb-4 truncate">
+            {topics.slice(0, MAX_LISTED_TOPICS).join(' · ')}
+            {topics.length > MAX_LISTED_TOPICS && ` and ${topics.length - MAX_LISTED_TOPICS} more`}
+          </p>
+          <button
+            onClick={onStart}
+            className="w-full py-2.5 bg-indigo-600 hover:bg-indigo-500 text-white text-sm font-semibold rounded-xl transition-colors flex items-center justify-center gap-2"
+          >
+            Start review <ArrowRight size={16} />
+          </button>
+        </>
+      ) : (
+        <p className="text-sm text-slate-400 flex items-center gap-2">
+          <CheckCircle2 size={16} className="text-green-400" />
+          All caught up. Next review {new Date(nextDue).toLocaleDateString(undefined, { weekday: 'long', month: 'short', day: 'numeric' })}.
+        </p>
+      )}
+    </div>
+  );
+};
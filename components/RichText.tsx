@@ -0,0 +1,70 @@
+import React, { useMemo } from 'react';
+import katex from 'katex';
+import hljs from 'highlight.js/lib/common';
+import 'katex/dist/katex.min.css';
+import 'highlight.js/styles/github-dark.css';
+import { parseRichText, RichSegment } from '../services/richText';
+
+interface RichTextProps {
+  text: string;
+  /** Renders the plain-text parts, e.g. to turn citations into links. */
+  renderText?: (text: string) => React.ReactNode;
+}
+
+// The transcript re-renders on every playback tick, so typeset HTML is kept per source
+const MAX_CACHED_RENDERS = 500;
+const renderCache = new Map<string, string>();
+
+const cached = (key: string, render: () => string): string => {
+  let html = renderCache.get(key);
+  if (html === undefined) {
+    html = render();
+    if (renderCache.size >= MAX_CACHED_RENDERS) renderCache.delete(renderCache.keys().next().value!);
+    renderCache.set(key, html);
+  }
+  return html;
+};
+
+const renderMath = (tex: string, display: boolean): string => {
+  return cached(`math:${display}:${tex}`, () => katex.renderToString(tex, { displayMode: display, throwOnError: false, output: 'html' }));
+};
+
+const highlightCode = (code: string, language?: string): string => {
+  return cached(`code:${language ?? ''}:${code}`, () => {
+    if (language && hljs.getLanguage(language)) {
+      return hljs.highlight(code, { language, ignoreIllegals: true }).value;
+    }
+    return hljs.highlightAuto(code).value;
+  });
+};
+
+const renderSegment = (segment: RichSegment, idx: number, renderText?: (text: string) => React.ReactNode) => {
+  switch (segment.type) {
+    case 'text':
+      return <React.Fragment key={idx}>{renderText ? renderText(segment.text) : segment.text}</React.Fragment>;
+    case 'math':
+      return (
+        <span
+          key={idx}
+          className={segment.display ? 'block my-2 overflow-x-auto overflow-y-hidden text-center' : 'inline-block align-baseline'}
+          dangerouslySetInnerHTML={{ __html: renderMath(segment.tex, segment.display) }}
+        />
+      );
+    case 'code':
+      return segment.block ? (
+        <pre key={idx} className="my-2 rounded-lg bg-slate-950 border border-slate-800 p-3 overflow-x-auto text-left text-xs md:text-sm leading-relaxed whitespace-pre" dir="ltr">
+          <code className="hljs !bg-transparent !p-0 font-mono" dangerouslySetInnerHTML={{ __html: highlightCode(segment.code, segment.language) }} />
+        </pre>
+      ) : (
+        <code key={idx} className="px-1 py-0.5 rounded bg-slate-800 text-indigo-200 font-mono text-[0.9em]">{segment.code}</code>
+      );
+  }
+};
+
+/**
+ * Generated text with its math typeset and code highlighted (see services/richText for the markup).
+ */
+export const RichText: React.FC<RichTextProps> = ({ text, renderText }) => {
+  const segments = useMemo(() => parseRichText(text), [text]);
+  return <>{segments.map((segment, idx) => renderSegment(segment, idx, renderText))}</>;
+};
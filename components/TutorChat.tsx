@@ -0,0 +1,204 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChatMessage } from '../types';
+import { classifyError } from '../services/errors';
+import { isAbortError } from '../services/abort';
+import { RichText } from './RichText';
+import { Send, Loader2, Volume2, VolumeX, Square, AlertCircle, MessageCircle } from 'lucide-react';
+
+interface TutorChatProps {
+  tutorName: string;
+  messages: ChatMessage[];
+  /** Resolves with the tutor's answer once it is saved. */
+  onAsk: (question: string) => Promise<ChatMessage | undefined>;
+  onSpeak: (text: string, signal: AbortSignal) => Promise<Blob>;
+  /** Called when the learner starts typing or sends, so the lesson can pause. */
+  onEngage: () => void;
+  /** Opens a cited page of the PDF. */
+  onOpenPage?: (page: number) => void;
+}
+
+// The "(p. 12)" / "(p. 12-14)" citations the tutor is asked to use
+const CITATION_SPLIT = /(\(p\. ?\d+(?:[-–]\d+)?\))/;
+const CITATION = /^\(p\. ?\d+(?:[-–]\d+)?\)$/;
+
+const renderWithCitations = (text: string, onOpenPage?: (page: number) => void) => {
+  return text.split(CITATION_SPLIT).map((part, idx) =>
+    CITATION.test(part) ? (
+      <button
+        key={idx}
+        onClick={() => onOpenPage?.(parseInt(part.match(/\d+/)![0], 10))}
+        disabled={!onOpenPage}
+        className="inline-block px-1.5 rounded bg-indigo-500/15 text-indigo-300 enabled:hover:bg-indigo-500/30 text-xs font-mono align-baseline transition-colors"
+        title="Open the page in the PDF"
+      >
+        {part.slice(1, -1)}
+      </button>
+    ) : (
+      <React.Fragment key={idx}>{part}</React.Fragment>
+    )
+  );
+};
+
+export const TutorChat: React.FC<TutorChatProps> = ({ tutorName, messages, onAsk, onSpeak, onEngage, onOpenPage }) => {
+  const [draft, setDraft] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [readAloud, setReadAloud] = useState(false);
+  const [speakingId, setSpeakingId] = useState<string | null>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+  const playerRef = useRef<HTMLAudioElement | null>(null);
+  const speechRequestRef = useRef<AbortController | null>(null);
+  // Narrations generated this session, so replaying an answer costs nothing
+  const speechUrls = useRef(new Map<string, string>());
+
+  useEffect(() => {
+    listRef.current?.scrollTo({ top: listRef.current.scrollHeight, behavior: 'smooth' });
+  }, [messages, isSending]);
+
+  const stopSpeaking = () => {
+    speechRequestRef.current?.abort();
+    speechRequestRef.current = null;
+    playerRef.current?.pause();
+    setSpeakingId(null);
+  };
+
+  useEffect(() => {
+    const urls = speechUrls.current;
+    return () => {
+      stopSpeaking();
+      urls.forEach(url => URL.revokeObjectURL(url));
+    };
+  }, []);
+
+  const speak = async (message: ChatMessage) => {
+    stopSpeaking();
+    setSpeakingId(message.id);
+    try {
+      let url = speechUrls.current.get(message.id);
+      if (!url) {
+        const controller = new AbortController();
+        speechRequestRef.current = controller;
+        const audio = await onSpeak(message.text, controller.signal);
+        url = URL.createObjectURL(audio);
+        speechUrls.current.set(message.id, url);
+      }
+      const player = new Audio(url);
+      playerRef.current = player;
+      player.onended = () => setSpeakingId(null);
+      await player.play();
+    } catch (err) {
+      if (!isAbortError(err)) {
+        console.warn('Reading the answer aloud failed', err);
+        setError(classifyError(err).message);
+      }
+      setSpeakingId(null);
+    }
+  };
+
+  const handleSubmit = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+    const question = draft.trim();
+    if (!question || isSending) return;
+
+    onEngage();
+    stopSpeaking();
+    setDraft('');
+    setError(null);
+    setIsSending(true);
+    try {
+      const answer = await onAsk(question);
+      setIsSending(false);
+      if (answer && readAloud) speak(answer);
+    } catch (err) {
+      if (!isAbortError(err)) setError(classifyError(err).message);
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full min-h-0">
+      <div ref={listRef} className="flex-1 overflow-y-auto space-y-4 pr-1 scrollbar-thin scrollbar-thumb-slate-700">
+        {messages.length === 0 && !isSending && (
+          <div className="h-full flex flex-col items-center justify-center text-center text-slate-500 text-sm gap-3 px-4">
+            <MessageCircle size={28} className="text-slate-700" />
+            <p>Stuck on a term or an idea? Ask {tutorName}. Answers are based on this topic's pages of your PDF.</p>
+          </div>
+        )}
+
+        {messages.map(message => (
+          message.role === 'learner' ? (
+            <div key={message.id} className="flex justify-end">
+              <div className="max-w-[85%] bg-indigo-600 text-white text-sm rounded-2xl rounded-br-md px-4 py-2.5 leading-relaxed whitespace-pre-wrap">
+                {message.text}
+              </div>
+            </div>
+          ) : (
+            <div key={message.id} className="flex flex-col items-start gap-1.5">
+              <div className="max-w-[90%] bg-slate-800 text-slate-200 text-sm rounded-2xl rounded-bl-md px-4 py-2.5 leading-relaxed whitespace-pre-wrap">
+                <RichText text={message.text} renderText={part => renderWithCitations(part, onOpenPage)} />
+              </div>
+              <div className="flex items-center gap-3 pl-2 text-[10px] font-bold uppercase tracking-wider text-slate-500">
+                {message.pages && message.pages.length > 0 && (
+                  <span>{message.pages.length === 1 ? 'Page' : 'Pages'} {message.pages.join(', ')}</span>
+                )}
+                <button
+                  onClick={() => speakingId === message.id ? stopSpeaking() : speak(message)}
+                  className="flex items-center gap-1 hover:text-indigo-300 transition-colors"
+                  title={speakingId === message.id ? 'Stop' : 'Read aloud'}
+                >
+                  {speakingId === message.id ? <Square size={12} /> : <Volume2 size={12} />}
+                  {speakingId === message.id ? 'Stop' : 'Listen'}
+                </button>
+              </div>
+            </div>
+          )
+        ))}
+
+        {isSending && (
+          <div className="flex items-center gap-2 text-slate-500 text-sm pl-2">
+            <Loader2 size={14} className="animate-spin" /> {tutorName} is thinking…
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <div className="mt-3 flex items-start gap-2 text-xs text-red-300 bg-red-900/20 border border-red-500/20 rounded-lg p-2.5">
+          <AlertCircle size={14} className="flex-shrink-0 mt-0.5" /> {error}
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="mt-3 flex items-end gap-2">
+        <button
+          type="button"
+          onClick={() => setReadAloud(!readAloud)}
+          className={`w-9 h-9 flex-shrink-0 flex items-center justify-center rounded-full transition-colors ${readAloud ? 'bg-indigo-500/20 text-indigo-300' : 'bg-slate-800 text-slate-500 hover:text-white'}`}
+          title={readAloud ? 'Answers are read aloud' : 'Read answers aloud'}
+        >
+          {readAloud ? <Volume2 size={16} /> : <VolumeX size={16} />}
+        </button>
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onFocus={onEngage}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && !e.shiftKey) {
+              e.preventDefault();
+              handleSubmit();
+            }
+          }}
+          rows={1}
+          placeholder={`Ask ${tutorName}…`}
+          className="flex-1 resize-none bg-slate-800 border border-slate-700 rounded-xl py-2 px-3 text-sm text-white placeholder-slate-500 focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none transition-all max-h-32"
+        />
+        <button
+          type="submit"
+          disabled={!draft.trim() || isSending}
+          className="w-9 h-9 flex-shrink-0 flex items-center justify-center rounded-full bg-indigo-600 hover:bg-indigo-500 text-white transition-colors disabled:opacity-40 disabled:hover:bg-indigo-600"
+          title="Send"
+        >
+          <Send size={16} />
+        </button>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,170 @@
+import React, { useState } from 'react';
+import { UsageLedger } from '../types';
+import { USAGE_OPERATIONS, sumUsage, getMonthEntries, formatUsd } from '../services/usage';
+import { Wallet, X, Check } from 'lucide-react';
+
+interface UsagePanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  ledger: UsageLedger;
+  /** Hash of the course PDF currently open, if any. */
+  currentCourseId: string | null;
+  onSetBudget: (monthlyBudgetUsd: number | null) => void;
+}
+
+type Scope = 'course' | 'all';
+
+const formatTokens = (value: number): string => {
+  if (value >= 1_000_000) return `${(value / 1_000_000).toFixed(1)}M`;
+  if (value >= 1_000) return `${(value / 1_000).toFixed(1)}k`;
+  return String(value);
+};
+
+export const UsagePanel: React.FC<UsagePanelProps> = ({ isOpen, onClose, ledger, currentCourseId, onSetBudget }) => {
+  const [scope, setScope] = useState<Scope>(currentCourseId ? 'course' : 'all');
+  const [budgetInput, setBudgetInput] = useState(ledger.monthlyBudgetUsd?.toString() ?? '');
+
+  if (!isOpen) return null;
+
+  const scopedEntries = scope === 'course' && currentCourseId
+    ? ledger.entries.filter(e => e.courseId === currentCourseId)
+    : ledger.entries;
+  const total = sumUsage(scopedEntries);
+  const monthSpend = sumUsage(getMonthEntries(ledger.entries)).costUsd;
+  const budget = ledger.monthlyBudgetUsd;
+  const budgetShare = budget ? Math.min(100, (monthSpend / budget) * 100) : 0;
+
+  // Courses by spend, most expensive first
+  const courses = Array.from(new Set(ledger.entries.map(e => e.courseId)))
+    .map(courseId => {
+      const entries = ledger.entries.filter(e => e.courseId === courseId);
+      return { courseId, title: entries[entries.length - 1].courseTitle, costUsd: sumUsage(entries).costUsd };
+    })
+    .sort((a, b) => b.costUsd - a.costUsd);
+
+  const handleSaveBudget = () => {
+    const value = parseFloat(budgetInput);
+    onSetBudget(Number.isFinite(value) && value > 0 ? value : null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className="w-full max-w-lg bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl overflow-hidden animate-in zoom-in-95 duration-300 max-h-[90vh] flex flex-col">
+
+        {/* Header */}
+        <div className="p-6 border-b border-slate-800 flex items-center justify-between bg-slate-900/50">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-xl bg-indigo-500/20 flex items-center justify-center text-indigo-400">
+              <Wallet size={24} />
+            </div>
+            <div>
+              <h2 className="text-lg font-bold text-white">Usage</h2>
+              <p className="text-xs text-slate-400">Estimated model cost of your courses</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="text-slate-500 hover:text-white transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-6 overflow-y-auto">
+
+          {/* Monthly budget */}
+          <div className="space-y-3">
+            <div className="flex items-baseline justify-between">
+              <label className="text-xs font-bold text-slate-400 uppercase tracking-wider">This Month</label>
+              <span className="text-sm text-white font-semibold">
+                {formatUsd(monthSpend)}
+                {budget !== null && <span className="text-slate-500 font-normal"> of {formatUsd(budget)}</span>}
+              </span>
+            </div>
+            {budget !== null && (
+              <div className="h-2 bg-slate-800 rounded-full overflow-hidden">
+                <div
+                  className={`h-full transition-all ${budgetShare >= 100 ? 'bg-red-500' : budgetShare >= 80 ? 'bg-amber-500' : 'bg-indigo-500'}`}
+                  style={{ width: `${budgetShare}%` }}
+                />
+              </div>
+            )}
+            <div className="flex gap-2">
+              <div className="relative flex-1">
+                <span className="absolute left-3 top-2.5 text-slate-500">$</span>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.5"
+                  value={budgetInput}
+                  onChange={(e) => setBudgetInput(e.target.value)}
+                  className="w-full bg-slate-800 border border-slate-700 rounded-lg py-2 pl-7 pr-4 text-white placeholder-slate-500 focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none transition-all"
+                  placeholder="No monthly budget"
+                />
+              </div>
+              <button
+                onClick={handleSaveBudget}
+                className="px-4 py-2 bg-indigo-600 hover:bg-indigo-500 text-white text-sm font-semibold rounded-lg transition-colors flex items-center gap-2"
+              >
+                <Check size={16} /> Set
+              </button>
+            </div>
+            <p className="text-xs text-slate-500">
+              When this month's spend reaches the budget, new lessons and quizzes are not generated. Saved lessons still play.
+            </p>
+          </div>
+
+          {/* Per operation */}
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <label className="text-xs font-bold text-slate-400 uppercase tracking-wider">By Operation</label>
+              <div className="flex bg-slate-800 rounded-lg p-0.5 text-xs">
+                {(['course', 'all'] as Scope[]).map(s => (
+                  <button
+                    key={s}
+                    onClick={() => setScope(s)}
+                    disabled={s === 'course' && !currentCourseId}
+                    className={`px-3 py-1 rounded-md transition-colors disabled:opacity-40 ${scope === s ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-white'}`}
+                  >
+                    {s === 'course' ? 'This course' : 'All courses'}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="bg-slate-800/50 rounded-xl border border-slate-800 divide-y divide-slate-800 text-sm">
+              {USAGE_OPERATIONS.map(op => {
+                const totals = sumUsage(scopedEntries.filter(e => e.operation === op.id));
+                return (
+                  <div key={op.id} className="flex items-center justify-between px-4 py-2.5">
+                    <span className="text-slate-300">{op.label}</span>
+                    <span className="text-slate-500 text-xs">
+                      {totals.calls} calls · {formatTokens(totals.inputTokens + totals.outputTokens)} tokens
+                      <span className="text-white font-medium text-sm ml-3">{formatUsd(totals.costUsd)}</span>
+                    </span>
+                  </div>
+                );
+              })}
+              <div className="flex items-center justify-between px-4 py-2.5 font-semibold">
+                <span className="text-white">Total</span>
+                <span className="text-white">{formatUsd(total.costUsd)}</span>
+              </div>
+            </div>
+          </div>
+
+          {/* Per course */}
+          {courses.length > 0 && (
+            <div className="space-y-3">
+              <label className="text-xs font-bold text-slate-400 uppercase tracking-wider">By Course</label>
+              <div className="space-y-2">
+                {courses.map(c => (
+                  <div key={c.courseId} className="flex items-center justify-between text-sm">
+                    <span className={`truncate mr-4 ${c.courseId === currentCourseId ? 'text-indigo-300' : 'text-slate-300'}`}>{c.title}</span>
+                    <span className="text-white font-medium">{formatUsd(c.costUsd)}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -2,6 +2,7 @@ import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
 import { AlertCircle, RotateCcw } from 'lucide-react';
+import { registerServiceWorker } from './services/offline';
 
 interface ErrorBoundaryProps {
   children?: React.ReactNode;
@@ -74,4 +75,6 @@ root.render(
       <App />
     </ErrorBoundary>
   </React.StrictMode>
-);
\ No newline at end of file
+);
+
+registerServiceWorker();
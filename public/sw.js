@@ -0,0 +1,92 @@
+/**
+ * Service worker: keeps the app shell available offline.
+ *
+ * - Install caches every file of the build, as listed in precache-manifest.json.
+ * - Page loads try the network first and fall back to the cached shell.
+ * - Built assets (hashed file names) are served from the cache.
+ * - Scripts, styles and fonts from CDNs are served from the cache and refreshed in the background.
+ * - API calls are never cached: lessons and quizzes are stored by the app in IndexedDB.
+ */
+
+const CACHE_PREFIX = 'ready2learn-shell-';
+const RUNTIME_CACHE = 'ready2learn-runtime';
+// Files of public/, which the build does not list
+const PUBLIC_FILES = ['manifest.webmanifest', 'icon.svg'];
+// Loaded by index.html outside the bundle
+const CDN_SHELL = ['https://cdn.tailwindcss.com'];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil((async () => {
+    const response = await fetch('precache-manifest.json', { cache: 'no-store' });
+    const { version, files } = await response.json();
+    const cache = await caches.open(CACHE_PREFIX + version);
+    await cache.addAll([...files, ...PUBLIC_FILES]);
+    const runtime = await caches.open(RUNTIME_CACHE);
+    await Promise.all(CDN_SHELL.map(async (url) => {
+      try {
+        await runtime.put(url, await fetch(url, { mode: 'no-cors' }));
+      } catch (e) {
+        console.warn('Could not cache', url, e);
+      }
+    }));
+    await self.skipWaiting();
+  })());
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    const current = names.filter(name => name.startsWith(CACHE_PREFIX)).pop();
+    // Keep only the newest shell: caches.keys() lists caches in creation order
+    await Promise.all(names
+      .filter(name => name.startsWith(CACHE_PREFIX) && name !== current)
+      .map(name => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+const networkFirst = async (request) => {
+  try {
+    return await fetch(request);
+  } catch (e) {
+    return (await caches.match(request, { ignoreSearch: true })) || (await caches.match('./')) || Response.error();
+  }
+};
+
+const cacheFirst = async (request) => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) {
+    const runtime = await caches.open(RUNTIME_CACHE);
+    runtime.put(request, response.clone());
+  }
+  return response;
+};
+
+const staleWhileRevalidate = async (request) => {
+  const runtime = await caches.open(RUNTIME_CACHE);
+  const cached = await runtime.match(request);
+  const refresh = fetch(request)
+    .then((response) => {
+      if (response.ok || response.type === 'opaque') runtime.put(request, response.clone());
+      return response;
+    })
+    .catch(() => cached || Response.error());
+  return cached || refresh;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request));
+  } else if (url.origin === self.location.origin) {
+    if (url.pathname.includes('/api/')) return;
+    event.respondWith(cacheFirst(request));
+  } else if (['script', 'style', 'font'].includes(request.destination)) {
+    event.respondWith(staleWhileRevalidate(request));
+  }
+});
@@ -0,0 +1,292 @@
+import http from 'node:http';
+import type { ContentProvider, GenerationOptions } from '../services/contentProvider';
+import type { ChatMessage, DialogueTurn, DocumentPage, Gender, LessonSpeaker, ShortAnswerQuestion, TutorProfile, UsageRecord } from '../types';
+import { BadRequestError, GenerationError, QuotaError, PayloadTooLargeError, classifyError, serializeError } from '../services/errors';
+import { isAbortError } from '../services/abort';
+import { getLanguage, normalizeLearningPreferences } from '../services/learningPreferences';
+import { REGIONS } from '../services/dialogue';
+import { createDailyQuota } from './quota';
+
+/**
+ * The API proxy's request handling: one route per content provider operation,
+ * request body checks, the per-client daily quota and the error wire format.
+ * server/index.ts configures it from the environment and listens.
+ */
+
+export interface ApiServerConfig {
+  backend: ContentProvider;
+  dailyLimit: number;
+  /** Take the client address from X-Forwarded-For, for a proxy behind a reverse proxy. */
+  trustProxy: boolean;
+  maxBodyBytes: number;
+  allowedOrigin: string;
+  /** Receives one entry per finished request; defaults to a JSON line on stdout. */
+  log?: (entry: RequestLogEntry) => void;
+}
+
+export interface RequestLogEntry {
+  method?: string;
+  path: string;
+  client: string;
+  profileId: string;
+  status: number;
+  durationMs: number;
+  kind?: string;
+  tokens?: number;
+}
+
+type RequestBody = Record<string, unknown>;
+type Handler = (body: RequestBody, backend: ContentProvider, options: GenerationOptions) => Promise<unknown>;
+
+const isObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+// Everything from the client is checked before it reaches a provider; its fields end up as prompt text.
+// A body of the wrong shape is the client's fault and is answered with a 400.
+const GENDERS: Gender[] = ['Male', 'Female'];
+
+const asText = (value: unknown): string => (typeof value === 'string' ? value : '');
+
+const requireText = (value: unknown, name: string): string => {
+  if (typeof value !== 'string') throw new BadRequestError(`The request needs a "${name}" string.`);
+  return value;
+};
+
+const requireList = (value: unknown, name: string): unknown[] => {
+  if (!Array.isArray(value)) throw new BadRequestError(`The request needs a "${name}" list.`);
+  return value;
+};
+
+const requireObject = (value: unknown, name: string): Record<string, unknown> => {
+  if (!isObject(value)) throw new BadRequestError(`The request needs a "${name}" object.`);
+  return value;
+};
+
+const asPages = (value: unknown): DocumentPage[] => {
+  return requireList(value, 'pages').map((item, idx) => {
+    if (!isObject(item) || typeof item.pageNumber !== 'number' || typeof item.text !== 'string') {
+      throw new BadRequestError(`Page ${idx + 1} needs a numeric "pageNumber" and a "text" string.`);
+    }
+    return { pageNumber: item.pageNumber, text: item.text, source: item.source === 'ocr' ? 'ocr' : 'text' };
+  });
+};
+
+const asTutor = (value: unknown, name: string): TutorProfile => {
+  const tutor = requireObject(value, name);
+  const region = REGIONS.find(r => r === tutor.region);
+  const gender = GENDERS.find(g => g === tutor.gender);
+  if (!region || !gender || typeof tutor.name !== 'string') {
+    throw new BadRequestError(`"${name}" needs a "name", a "region" (${REGIONS.join(', ')}) and a "gender" (${GENDERS.join(', ')}).`);
+  }
+  return { name: tutor.name, region, gender };
+};
+
+const asSpeakers = (value: unknown): LessonSpeaker[] => {
+  return requireList(value, 'speakers').map((item, idx) => {
+    const role = isObject(item) ? item.role : undefined;
+    if (role !== 'tutor' && role !== 'student') throw new BadRequestError(`Speaker ${idx + 1} needs a "role" of tutor or student.`);
+    return { ...asTutor(item, `speakers[${idx}]`), role };
+  });
+};
+
+const asTurns = (value: unknown, speakerCount: number): DialogueTurn[] => {
+  return requireList(value, 'turns').map((item, idx) => {
+    if (!isObject(item) || typeof item.text !== 'string' || !Number.isInteger(item.speaker) || Number(item.speaker) < 0 || Number(item.speaker) >= speakerCount) {
+      throw new BadRequestError(`Turn ${idx + 1} needs a "text" string and a "speaker" index into "speakers".`);
+    }
+    return { speaker: Number(item.speaker), text: item.text };
+  });
+};
+
+const asHistory = (value: unknown): ChatMessage[] => {
+  return requireList(value, 'history').map((item, idx) => {
+    const role = isObject(item) ? item.role : undefined;
+    if (!isObject(item) || (role !== 'learner' && role !== 'tutor') || typeof item.text !== 'string') {
+      throw new BadRequestError(`History message ${idx + 1} needs a "role" of learner or tutor and a "text" string.`);
+    }
+    return { id: asText(item.id), role, text: item.text, createdAt: asText(item.createdAt) };
+  });
+};
+
+const asShortAnswerQuestion = (value: unknown): ShortAnswerQuestion => {
+  const question = requireObject(value, 'question');
+  const rubric = requireList(question.rubric, 'question.rubric').map((item, idx) => {
+    if (!isObject(item) || typeof item.description !== 'string' || typeof item.points !== 'number') {
+      throw new BadRequestError(`Rubric criterion ${idx + 1} needs a "description" string and numeric "points".`);
+    }
+    return { description: item.description, points: item.points };
+  });
+  return {
+    id: typeof question.id === 'number' ? question.id : 0,
+    type: 'short_answer',
+    question: requireText(question.question, 'question.question'),
+    explanation: asText(question.explanation),
+    rubric,
+    modelAnswer: requireText(question.modelAnswer, 'question.modelAnswer'),
+  };
+};
+
+const routes: Record<string, Handler> = {
+  '/api/analyze': (body, backend, options) => backend.analyzePdfStructure(asPages(body.pages), getLanguage(asText(body.language)).code, options),
+  '/api/lesson': (body, backend, options) => backend.generateLessonContent(requireText(body.topicTitle, 'topicTitle'), asPages(body.pages), asTutor(body.tutor, 'tutor'), normalizeLearningPreferences(body.preferences), options),
+  '/api/image': async (body, backend, options) => ({ imageUrl: await backend.generateLessonImage(requireText(body.prompt, 'prompt'), options) }),
+  '/api/audio': (body, backend, options) => backend.generateLessonAudio(requireText(body.text, 'text'), asTutor(body.tutor, 'tutor'), options),
+  '/api/dialogue-audio': (body, backend, options) => {
+    const speakers = asSpeakers(body.speakers);
+    return backend.generateDialogueAudio(asTurns(body.turns, speakers.length), speakers, options);
+  },
+  '/api/quiz': (body, backend, options) => backend.generateQuiz(requireText(body.topicTitle, 'topicTitle'), asPages(body.pages), normalizeLearningPreferences(body.preferences), options),
+  '/api/grade': (body, backend, options) => backend.gradeShortAnswer(asShortAnswerQuestion(body.question), requireText(body.answer, 'answer'), normalizeLearningPreferences(body.preferences), options),
+  '/api/ask': (body, backend, options) => backend.askTutor(requireText(body.question, 'question'), asHistory(body.history), requireText(body.topicTitle, 'topicTitle'), asPages(body.pages), asTutor(body.tutor, 'tutor'), normalizeLearningPreferences(body.preferences), options),
+};
+
+// Usage of the model calls behind a response, so the client can do its own cost accounting
+const USAGE_HEADER = 'X-Usage';
+
+const STATUS_BY_KIND: Record<GenerationError['kind'], number> = {
+  network: 502,
+  quota: 429,
+  payload_too_large: 413,
+  unreadable_pdf: 422,
+  safety_blocked: 422,
+  invalid_output: 422,
+  budget_exceeded: 402,
+  bad_request: 400,
+  unknown: 500,
+};
+
+const readBody = (req: http.IncomingMessage, maxBytes: number): Promise<RequestBody> => {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    let tooLarge = false;
+    req.on('data', (chunk: Buffer) => {
+      if (tooLarge) return;
+      size += chunk.length;
+      if (size > maxBytes) {
+        // Keep draining instead of destroying the socket, so the client receives the 413;
+        // the response closes the connection (see sendError)
+        tooLarge = true;
+        chunks.length = 0;
+        reject(new PayloadTooLargeError());
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      if (tooLarge) return;
+      try {
+        const body: unknown = JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}');
+        if (!isObject(body)) throw new Error('Not an object');
+        resolve(body);
+      } catch (e) {
+        reject(new BadRequestError('The request body is not a JSON object.'));
+      }
+    });
+    req.on('error', reject);
+  });
+};
+
+const sendJson = (res: http.ServerResponse, status: number, payload: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(payload));
+};
+
+const sendError = (res: http.ServerResponse, error: GenerationError) => {
+  const headers: Record<string, string> = {};
+  if (error instanceof PayloadTooLargeError) {
+    // The rest of the oversized body is not worth reading
+    headers['Connection'] = 'close';
+  }
+  if (error instanceof QuotaError && error.retryAfterMs) {
+    headers['Retry-After'] = String(Math.ceil(error.retryAfterMs / 1000));
+  }
+  sendJson(res, STATUS_BY_KIND[error.kind], { error: serializeError(error) }, headers);
+};
+
+/**
+ * The address the daily quota is counted against. The X-Profile-Id header is chosen by
+ * the client, so it only labels log lines and never decides the quota.
+ */
+const getClientAddress = (req: http.IncomingMessage, trustProxy: boolean): string => {
+  const forwarded = trustProxy ? String(req.headers['x-forwarded-for'] ?? '').split(',')[0].trim() : '';
+  return forwarded || req.socket.remoteAddress || 'unknown';
+};
+
+const logRequest = (entry: RequestLogEntry) => {
+  console.log(JSON.stringify({ time: new Date().toISOString(), ...entry }));
+};
+
+export const createApiServer = ({ backend, dailyLimit, trustProxy, maxBodyBytes, allowedOrigin, log = logRequest }: ApiServerConfig): http.Server => {
+  const quota = createDailyQuota(dailyLimit);
+
+  return http.createServer(async (req, res) => {
+    const startedAt = Date.now();
+    const url = new URL(req.url || '/', 'http://localhost');
+    const client = getClientAddress(req, trustProxy);
+    const profileId = String(req.headers['x-profile-id'] || 'anonymous');
+    let errorKind: string | undefined;
+    const usage: UsageRecord[] = [];
+
+    res.setHeader('Access-Control-Allow-Origin', allowedOrigin);
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-Profile-Id');
+    res.setHeader('Access-Control-Expose-Headers', USAGE_HEADER);
+    res.on('finish', () => {
+      const tokens = usage.reduce((sum, u) => sum + u.inputTokens + u.outputTokens, 0);
+      log({ method: req.method, path: url.pathname, client, profileId, status: res.statusCode, durationMs: Date.now() - startedAt, kind: errorKind, tokens });
+    });
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, { 'Access-Control-Allow-Methods': 'POST, GET, OPTIONS' });
+      res.end();
+      return;
+    }
+
+    if (req.method === 'GET' && url.pathname === '/api/health') {
+      sendJson(res, 200, { ok: true, backend: backend.name });
+      return;
+    }
+
+    const handler = routes[url.pathname];
+    if (!handler || req.method !== 'POST') {
+      sendJson(res, 404, { error: { kind: 'unknown', message: 'Not found', retryable: false } });
+      return;
+    }
+
+    // Stop generating as soon as the client goes away (e.g. the learner switched topic)
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableEnded) controller.abort();
+    });
+
+    try {
+      const check = quota.consume(client);
+      if (!check.allowed) {
+        throw new QuotaError(check.resetInMs);
+      }
+
+      const body = await readBody(req, maxBodyBytes);
+      const result = await handler(body, backend, { signal: controller.signal, profileId, onUsage: record => usage.push(record) });
+      res.setHeader(USAGE_HEADER, JSON.stringify(usage));
+
+      if (result instanceof Blob) {
+        res.writeHead(200, { 'Content-Type': result.type || 'application/octet-stream' });
+        res.end(Buffer.from(await result.arrayBuffer()));
+        return;
+      }
+      sendJson(res, 200, result);
+    } catch (error) {
+      if (isAbortError(error)) {
+        errorKind = 'aborted';
+        if (!res.headersSent) res.destroy();
+        return;
+      }
+      const typed = classifyError(error);
+      errorKind = typed.kind;
+      // Failed requests may still have been billed, e.g. output that failed validation
+      res.setHeader(USAGE_HEADER, JSON.stringify(usage));
+      sendError(res, typed);
+    }
+  });
+};
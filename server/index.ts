@@ -0,0 +1,68 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import type { ContentProvider } from '../services/contentProvider';
+import { createApiServer } from './app';
+
+/**
+ * Ready2Learn API proxy.
+ * Owns the Gemini key and exposes one endpoint per content provider operation,
+ * so the browser/Capacitor bundle never contains the secret.
+ *
+ *   GEMINI_API_KEY=... npm run server        # real model
+ *   MODEL_BACKEND=stub npm run server        # deterministic local stub, no key needed
+ */
+
+/**
+ * Reads KEY=VALUE pairs from .env.local (the same file Vite uses) without overriding the real environment.
+ */
+const loadEnvFile = (file: string) => {
+  if (!fs.existsSync(file)) return;
+  for (const line of fs.readFileSync(file, 'utf8').split('\n')) {
+    const match = line.match(/^\s*([A-Z0-9_]+)\s*=\s*(.*?)\s*$/i);
+    if (match && process.env[match[1]] === undefined) {
+      process.env[match[1]] = match[2].replace(/^['"]|['"]$/g, '');
+    }
+  }
+};
+
+loadEnvFile(path.resolve(process.cwd(), '.env.local'));
+// geminiService reads API_KEY, matching what Vite used to inline
+process.env.API_KEY ||= process.env.GEMINI_API_KEY;
+
+const PORT = Number(process.env.API_PORT || 8787);
+const DAILY_LIMIT = Number(process.env.CLIENT_DAILY_LIMIT || 200);
+// Behind a reverse proxy every request comes from the proxy, so the client address is taken from X-Forwarded-For
+const TRUST_PROXY = process.env.TRUST_PROXY === '1';
+// The largest request is an outline: at most ANALYSIS_CHAR_BUDGET characters of page text (a few MB as UTF-8)
+const MAX_BODY_BYTES = Number(process.env.MAX_BODY_MB || 10) * 1024 * 1024;
+const ALLOWED_ORIGIN = process.env.ALLOWED_ORIGIN || '*';
+
+const loadBackend = async (): Promise<ContentProvider> => {
+  if (process.env.MODEL_BACKEND === 'stub') {
+    return (await import('../services/localProvider')).localProvider;
+  }
+  if (!process.env.API_KEY) {
+    throw new Error('GEMINI_API_KEY is not set. Set it, or start with MODEL_BACKEND=stub.');
+  }
+  return (await import('../services/geminiService')).geminiProvider;
+};
+
+const start = async () => {
+  const backend = await loadBackend();
+  const server = createApiServer({
+    backend,
+    dailyLimit: DAILY_LIMIT,
+    trustProxy: TRUST_PROXY,
+    maxBodyBytes: MAX_BODY_BYTES,
+    allowedOrigin: ALLOWED_ORIGIN,
+  });
+
+  server.listen(PORT, () => {
+    console.log(`Ready2Learn API proxy listening on http://localhost:${PORT} (backend: ${backend.name}, ${DAILY_LIMIT} requests/client/day)`);
+  });
+};
+
+start().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
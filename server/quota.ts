@@ -0,0 +1,43 @@
+/**
+ * In-memory daily request quotas for the API proxy, per client address.
+ * Counters reset at UTC midnight and when the server restarts.
+ */
+
+export interface QuotaCheck {
+  allowed: boolean;
+  used: number;
+  limit: number;
+  /** Milliseconds until the counter resets. */
+  resetInMs: number;
+}
+
+export interface DailyQuota {
+  /** Counts one request against `client` if it is still under its limit. */
+  consume: (client: string, cost?: number) => QuotaCheck;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const createDailyQuota = (dailyLimit: number, now: () => number = Date.now): DailyQuota => {
+  const usage = new Map<string, { day: number; used: number }>();
+
+  const consume = (client: string, cost = 1): QuotaCheck => {
+    const timestamp = now();
+    const day = Math.floor(timestamp / DAY_MS);
+    const resetInMs = (day + 1) * DAY_MS - timestamp;
+
+    let entry = usage.get(client);
+    if (!entry || entry.day !== day) {
+      entry = { day, used: 0 };
+      usage.set(client, entry);
+    }
+
+    if (entry.used + cost > dailyLimit) {
+      return { allowed: false, used: entry.used, limit: dailyLimit, resetInMs };
+    }
+    entry.used += cost;
+    return { allowed: true, used: entry.used, limit: dailyLimit, resetInMs };
+  };
+
+  return { consume };
+};
@@ -0,0 +1,36 @@
+/**
+ * Small helpers for threading AbortSignal through generation calls.
+ */
+
+export const createAbortError = (): Error => {
+  return new DOMException('The operation was cancelled.', 'AbortError');
+};
+
+export const isAbortError = (error: unknown): boolean => {
+  return (error as { name?: string } | null)?.name === 'AbortError';
+};
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw createAbortError();
+};
+
+/**
+ * setTimeout wrapped in a promise that rejects as soon as the signal aborts.
+ */
+export const abortableDelay = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
@@ -0,0 +1,88 @@
+/**
+ * Sample rate used for all generated lesson audio.
+ * Gemini 2.5 Flash TTS returns raw PCM at 24kHz, the local provider matches it.
+ */
+export const TTS_SAMPLE_RATE = 24000;
+
+/**
+ * Helper to write string to DataView for WAV header
+ */
+function writeString(view: DataView, offset: number, string: string) {
+  for (let i = 0; i < string.length; i++) {
+    view.setUint8(offset + i, string.charCodeAt(i));
+  }
+}
+
+/**
+ * Converts raw PCM data to a WAV Blob by adding a RIFF header.
+ */
+export function pcmToWav(pcmData: Uint8Array, sampleRate: number = TTS_SAMPLE_RATE): Blob {
+  const numChannels = 1;
+  const bitsPerSample = 16;
+  const byteRate = (sampleRate * numChannels * bitsPerSample) / 8;
+  const blockAlign = (numChannels * bitsPerSample) / 8;
+  const dataSize = pcmData.length;
+  const buffer = new ArrayBuffer(44 + dataSize);
+  const view = new DataView(buffer);
+
+  // RIFF chunk descriptor
+  writeString(view, 0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(view, 8, 'WAVE');
+
+  // fmt sub-chunk
+  writeString(view, 12, 'fmt ');
+  view.setUint32(16, 16, true); // Subchunk1Size (16 for PCM)
+  view.setUint16(20, 1, true); // AudioFormat (1 for PCM)
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, byteRate, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bitsPerSample, true);
+
+  // data sub-chunk
+  writeString(view, 36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  // Write PCM data
+  const pcmBytes = new Uint8Array(buffer, 44);
+  pcmBytes.set(pcmData);
+
+  return new Blob([buffer], { type: 'audio/wav' });
+}
+
+/**
+ * Reads 16-bit PCM WAV data (as written by pcmToWav) into mono samples in [-1, 1].
+ * Returns null for anything else, e.g. compressed audio.
+ */
+export function readWavSamples(buffer: ArrayBuffer): { samples: Float32Array; sampleRate: number } | null {
+  const view = new DataView(buffer);
+  const readString = (offset: number, length: number) =>
+    String.fromCharCode(...new Uint8Array(buffer, offset, length));
+  if (buffer.byteLength < 44 || readString(0, 4) !== 'RIFF' || readString(8, 4) !== 'WAVE') return null;
+
+  let sampleRate = 0;
+  let numChannels = 1;
+  let bitsPerSample = 0;
+  let offset = 12;
+  while (offset + 8 <= buffer.byteLength) {
+    const chunkId = readString(offset, 4);
+    const chunkSize = view.getUint32(offset + 4, true);
+    if (chunkId === 'fmt ') {
+      numChannels = view.getUint16(offset + 10, true);
+      sampleRate = view.getUint32(offset + 12, true);
+      bitsPerSample = view.getUint16(offset + 22, true);
+    } else if (chunkId === 'data') {
+      if (bitsPerSample !== 16 || !sampleRate) return null;
+      const frameCount = Math.floor(Math.min(chunkSize, buffer.byteLength - offset - 8) / (2 * numChannels));
+      const samples = new Float32Array(frameCount);
+      for (let i = 0; i < frameCount; i++) {
+        // Only the first channel matters for timing
+        samples[i] = view.getInt16(offset + 8 + i * 2 * numChannels, true) / 32768;
+      }
+      return { samples, sampleRate };
+    }
+    offset += 8 + chunkSize + (chunkSize % 2);
+  }
+  return null;
+}
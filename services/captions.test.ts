@@ -0,0 +1,36 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { buildCaptionCues, toSrt, toWebVtt } from "./captions";
+import type { LessonContent } from "../types";
+
+const lesson = (...narrations: string[]): LessonContent => ({
+  scenes: narrations.map(narration => ({ narration, caption: '', visualPrompt: '' })),
+  keyPoints: [],
+});
+
+test("cues break at sentence ends and scene changes, spread evenly without timings", () => {
+  const cues = buildCaptionCues(lesson('Cells are small units. They make up all living things.', 'Next scene here.'), 12);
+  assert.deepEqual(cues.map(cue => cue.text), ['Cells are small units.', 'They make up all living things.', 'Next scene here.']);
+  // 13 words over 12 seconds
+  assert.equal(cues[0].start, 0);
+  assert.equal(cues[1].start, 4 * 12 / 13);
+  assert.equal(cues[2].end, 12);
+});
+
+test("measured word timings place cues on their first word", () => {
+  const timings = [0.5, 0.9, 1.2, 1.6, 3, 3.3, 3.6, 4, 4.4];
+  const cues = buildCaptionCues(lesson('One two three four. Five six seven eight nine.'), 6, timings);
+  assert.deepEqual(cues.map(cue => [cue.start, cue.end]), [[0.5, 3], [3, 6]]);
+});
+
+test("formulas are captioned as spoken and empty input gives no cues", () => {
+  const [cue] = buildCaptionCues(lesson('The area is $\\pi r^2$ here.'), 4);
+  assert.match(cue.text, /pi r squared/);
+  assert.deepEqual(buildCaptionCues(lesson('Words'), 0), []);
+});
+
+test("WebVTT and SRT differ only in header and decimal separator", () => {
+  const cues = [{ start: 0, end: 2.5, text: 'Hello' }, { start: 3661.007, end: 3662, text: 'Line one\nline two' }];
+  assert.equal(toWebVtt(cues), 'WEBVTT\n\n1\n00:00:00.000 --> 00:00:02.500\nHello\n\n2\n01:01:01.007 --> 01:01:02.000\nLine one\nline two\n');
+  assert.equal(toSrt(cues), '1\n00:00:00,000 --> 00:00:02,500\nHello\n\n2\n01:01:01,007 --> 01:01:02,000\nLine one\nline two\n');
+});
@@ -0,0 +1,100 @@
+import { LessonContent } from "../types";
+import { tokenizeNarration } from "./richText";
+
+/**
+ * Timed caption files (WebVTT and SRT) for a lesson's narration.
+ */
+
+// Keep cues short enough to read at a glance
+const MAX_CUE_WORDS = 14;
+const MAX_CUE_SECONDS = 6;
+// A sentence end closes the cue once it has at least this many words
+const MIN_SENTENCE_CUE_WORDS = 4;
+const MAX_LINE_CHARS = 42;
+
+export interface CaptionCue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * Splits the narration into cues. Each scene starts a new cue, and cues break at sentence
+ * ends or when they get too long. With measured word timings a cue starts on its first
+ * word and ends before the pause that follows; otherwise words are spread evenly over the audio.
+ */
+export const buildCaptionCues = (content: LessonContent, duration: number, wordTimings?: number[] | null): CaptionCue[] => {
+  // Captions show what is said: formulas as read aloud, code blocks left out
+  const scenes = content.scenes.map(scene => tokenizeNarration(scene.narration).map(token => token.speech));
+  const totalWords = scenes.reduce((sum, words) => sum + words.length, 0);
+  if (totalWords === 0 || !(duration > 0)) return [];
+
+  const timings = wordTimings && wordTimings.length === totalWords ? wordTimings : null;
+  const wordStart = (index: number) => timings ? timings[index] : (index / totalWords) * duration;
+
+  const groups: { first: number; words: string[] }[] = [];
+  let index = 0;
+  for (const words of scenes) {
+    let current: { first: number; words: string[] } | null = null;
+    for (const word of words) {
+      if (!current) current = { first: index, words: [] };
+      current.words.push(word);
+      index++;
+
+      const elapsed = wordStart(Math.min(index, totalWords - 1)) - wordStart(current.first);
+      const endsSentence = /[.!?…]["')\]]?$/.test(word) && current.words.length >= MIN_SENTENCE_CUE_WORDS;
+      if (endsSentence || current.words.length >= MAX_CUE_WORDS || elapsed >= MAX_CUE_SECONDS) {
+        groups.push(current);
+        current = null;
+      }
+    }
+    if (current) groups.push(current);
+  }
+
+  return groups.filter(group => group.words.some(Boolean)).map(group => {
+    const start = wordStart(group.first);
+    const next = group.first + group.words.length;
+    const end = next < totalWords ? wordStart(next) : duration;
+    return {
+      start,
+      end: Math.max(start + 0.5, Math.min(end, start + MAX_CUE_SECONDS * 1.5)),
+      text: wrapCueText(group.words.filter(Boolean).join(' ')),
+    };
+  });
+};
+
+/**
+ * Breaks long cue text into two lines near the middle.
+ */
+const wrapCueText = (text: string): string => {
+  if (text.length <= MAX_LINE_CHARS) return text;
+  const middle = Math.floor(text.length / 2);
+  const before = text.lastIndexOf(' ', middle);
+  const after = text.indexOf(' ', middle);
+  const breakAt = before === -1 ? after : after === -1 ? before : (middle - before <= after - middle ? before : after);
+  if (breakAt === -1) return text;
+  return `${text.slice(0, breakAt)}\n${text.slice(breakAt + 1)}`;
+};
+
+const formatTimestamp = (seconds: number, decimalSeparator: '.' | ','): string => {
+  const totalMs = Math.round(Math.max(0, seconds) * 1000);
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (value: number, length = 2) => value.toString().padStart(length, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${decimalSeparator}${pad(ms, 3)}`;
+};
+
+export const toWebVtt = (cues: CaptionCue[]): string => {
+  const body = cues
+    .map((cue, i) => `${i + 1}\n${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n${cue.text}`)
+    .join('\n\n');
+  return `WEBVTT\n\n${body}\n`;
+};
+
+export const toSrt = (cues: CaptionCue[]): string => {
+  return cues
+    .map((cue, i) => `${i + 1}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n${cue.text}`)
+    .join('\n\n') + '\n';
+};
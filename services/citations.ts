@@ -0,0 +1,78 @@
+import { DocumentPage, SourceCitation } from "../types";
+
+/**
+ * Matching model-provided quotes against the document text.
+ * Extracted text and quotes differ in case, punctuation, hyphenation and line breaks,
+ * so both are compared in a normalized form: lowercase letters and digits separated by single spaces.
+ */
+
+// Quotes longer than this are cut; the viewer only needs enough to find the passage
+export const MAX_QUOTE_CHARS = 240;
+// A paraphrased ending is tolerated when this many leading words match exactly
+const MIN_PREFIX_WORDS = 6;
+
+interface NormalizedText {
+  text: string;
+  /** Index in the original string of every character of `text`. */
+  map: number[];
+}
+
+export const normalizeForMatch = (value: string): NormalizedText => {
+  let text = '';
+  const map: number[] = [];
+  let pendingSpace = false;
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i].toLowerCase();
+    if (/[\p{L}\p{N}]/u.test(char)) {
+      if (pendingSpace && text) {
+        text += ' ';
+        map.push(i);
+      }
+      pendingSpace = false;
+      text += char;
+      map.push(i);
+    } else {
+      pendingSpace = true;
+    }
+  }
+  return { text, map };
+};
+
+/**
+ * Finds `quote` in `text` and returns its [start, end) range in the original string.
+ * Falls back to the quote's first words when the model did not copy it verbatim to the end.
+ */
+export const findQuoteRange = (text: string, quote: string): [number, number] | null => {
+  const haystack = normalizeForMatch(text);
+  const needle = normalizeForMatch(quote).text;
+  if (!needle) return null;
+
+  const candidates = [needle];
+  const words = needle.split(' ');
+  if (words.length > MIN_PREFIX_WORDS) candidates.push(words.slice(0, MIN_PREFIX_WORDS).join(' '));
+
+  for (const candidate of candidates) {
+    const at = haystack.text.indexOf(candidate);
+    if (at !== -1) {
+      return [haystack.map[at], haystack.map[at + candidate.length - 1] + 1];
+    }
+  }
+  return null;
+};
+
+/**
+ * Checks a cited page and quote against the pages the content was generated from.
+ * A quote found on a different page moves the citation there; a quote found nowhere
+ * is dropped and only the page is kept. Returns null when nothing usable is left.
+ */
+export const verifyCitation = (page: number, quote: string, pages: DocumentPage[]): SourceCitation | null => {
+  const trimmed = quote.length > MAX_QUOTE_CHARS ? `${quote.slice(0, MAX_QUOTE_CHARS).replace(/\s+\S*$/, '')}…` : quote;
+  const cited = pages.find(p => p.pageNumber === page);
+
+  if (trimmed) {
+    if (cited && findQuoteRange(cited.text, trimmed)) return { page, quote: trimmed };
+    const elsewhere = pages.find(p => findQuoteRange(p.text, trimmed));
+    if (elsewhere) return { page: elsewhere.pageNumber, quote: trimmed };
+  }
+  return cited ? { page } : null;
+};
@@ -0,0 +1,61 @@
+import { ChatMessage, CourseStructure, DialogueTurn, DocumentPage, LearningPreferences, LessonContent, LessonSpeaker, QuizQuestion, ShortAnswerGrade, ShortAnswerQuestion, TutorAnswer, TutorProfile, UsageRecord } from "../types";
+import { geminiProvider } from "./geminiService";
+import { localProvider } from "./localProvider";
+import { proxyProvider } from "./proxyProvider";
+
+/**
+ * Per-call options shared by every provider operation.
+ */
+export interface GenerationOptions {
+  /** Aborts the request (and any pending retries) when the learner moves on. */
+  signal?: AbortSignal;
+  /** Learner profile the request is made for; used by the API proxy for quotas. */
+  profileId?: string;
+  /** Called once per model call with the tokens it used, including repair attempts. */
+  onUsage?: (usage: UsageRecord) => void;
+}
+
+/**
+ * A backend capable of turning a PDF into course material.
+ * The app only talks to this interface, never to a model SDK directly.
+ * Documents are passed as text extracted page by page in the browser, so a
+ * lesson or quiz only carries the pages of its topic.
+ */
+export interface ContentProvider {
+  /** Short identifier used in logs. */
+  name: string;
+  analyzePdfStructure: (pages: DocumentPage[], language: string, options?: GenerationOptions) => Promise<CourseStructure>;
+  generateLessonContent: (topicTitle: string, pages: DocumentPage[], tutor: TutorProfile, preferences: LearningPreferences, options?: GenerationOptions) => Promise<LessonContent>;
+  /** Resolves to an image URL (data URL or remote URL). */
+  generateLessonImage: (prompt: string, options?: GenerationOptions) => Promise<string>;
+  /** Resolves to the narration as a WAV blob. */
+  generateLessonAudio: (text: string, tutor: TutorProfile, options?: GenerationOptions) => Promise<Blob>;
+  /** Resolves to a dialogue lesson's narration as a WAV blob, each speaker in their own voice. */
+  generateDialogueAudio: (turns: DialogueTurn[], speakers: LessonSpeaker[], options?: GenerationOptions) => Promise<Blob>;
+  generateQuiz: (topicTitle: string, pages: DocumentPage[], preferences: LearningPreferences, options?: GenerationOptions) => Promise<QuizQuestion[]>;
+  /** Grades a learner's answer to a short-answer question against the question's rubric. */
+  gradeShortAnswer: (question: ShortAnswerQuestion, answer: string, preferences: LearningPreferences, options?: GenerationOptions) => Promise<ShortAnswerGrade>;
+  /** Answers a learner question about the topic from its pages; `history` is the conversation so far. */
+  askTutor: (question: string, history: ChatMessage[], topicTitle: string, pages: DocumentPage[], tutor: TutorProfile, preferences: LearningPreferences, options?: GenerationOptions) => Promise<TutorAnswer>;
+}
+
+export type ContentProviderId = 'proxy' | 'gemini' | 'local';
+
+const providers: Record<ContentProviderId, ContentProvider> = {
+  proxy: proxyProvider,
+  gemini: geminiProvider,
+  local: localProvider,
+};
+
+/**
+ * Picks the provider configured through CONTENT_PROVIDER.
+ * Without explicit configuration, Gemini is used directly only when an API key
+ * was inlined into the bundle; otherwise the offline provider is used.
+ */
+export const getContentProvider = (): ContentProvider => {
+  const configured = process.env.CONTENT_PROVIDER as ContentProviderId | undefined;
+  if (configured && providers[configured]) {
+    return providers[configured];
+  }
+  return process.env.API_KEY ? geminiProvider : localProvider;
+};
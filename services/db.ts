@@ -0,0 +1,55 @@
+/**
+ * Shared IndexedDB database for everything stored on the device
+ * (generated lessons and quizzes, uploaded documents).
+ */
+
+const DB_NAME = 'ready2learn';
+const DB_VERSION = 3;
+
+export const LESSON_STORE = 'lessons';
+export const DOCUMENT_STORE = 'documents';
+export const QUIZ_STORE = 'quizzes';
+
+const STORES = [LESSON_STORE, DOCUMENT_STORE, QUIZ_STORE];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        for (const store of STORES) {
+          if (!db.objectStoreNames.contains(store)) {
+            db.createObjectStore(store);
+          }
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+/**
+ * Runs a single request against `storeName` and resolves with its result.
+ */
+export const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = action(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
@@ -0,0 +1,55 @@
+import { DialogueTurn, Gender, LessonContent, LessonFormat, LessonSpeaker, Region, TutorProfile } from "../types";
+
+/**
+ * Dialogue lessons: the script is a conversation between the learner's tutor and
+ * a second speaker, narrated with one voice per speaker.
+ */
+
+export const REGIONS: Region[] = ['African', 'European', 'Asian', 'American'];
+
+const PARTNER_NAMES: Record<Region, Record<Gender, string[]>> = {
+  African: { Male: ['Kwame', 'Tunde'], Female: ['Amara', 'Zawadi'] },
+  European: { Male: ['Luca', 'Henrik'], Female: ['Sofia', 'Clara'] },
+  Asian: { Male: ['Kenji', 'Arjun'], Female: ['Mei', 'Ananya'] },
+  American: { Male: ['Jordan', 'Diego'], Female: ['Maya', 'Riley'] },
+};
+
+/**
+ * The two speakers of a dialogue lesson, or none for a lecture.
+ * The partner has the other gender, so the two voices are always told apart:
+ * a student from the tutor's region, or a tutor from the next region.
+ */
+export const getDialogueSpeakers = (tutor: TutorProfile, format: LessonFormat): LessonSpeaker[] => {
+  if (format === 'lecture') return [];
+  const gender: Gender = tutor.gender === 'Male' ? 'Female' : 'Male';
+  const region = format === 'tutors' ? REGIONS[(REGIONS.indexOf(tutor.region) + 1) % REGIONS.length] : tutor.region;
+  const [name, alternative] = PARTNER_NAMES[region][gender];
+  return [
+    { ...tutor, role: 'tutor' },
+    { name: name === tutor.name ? alternative : name, region, gender, role: format === 'tutors' ? 'tutor' : 'student' },
+  ];
+};
+
+/** The narration of a dialogue scene: its turns joined by line breaks. */
+export const joinTurns = (turns: DialogueTurn[]): string => turns.map(turn => turn.text).join('\n');
+
+/** Every turn of the lesson in order, across scenes. */
+export const getLessonTurns = (content: LessonContent): DialogueTurn[] => content.scenes.flatMap(scene => scene.turns ?? []);
+
+/**
+ * Where each turn starts in the lesson script (see getLessonScript), as a character offset.
+ * Empty for lectures.
+ */
+export const getTurnStarts = (content: LessonContent): { offset: number; speaker: number }[] => {
+  const starts: { offset: number; speaker: number }[] = [];
+  let sceneStart = 0;
+  content.scenes.forEach(scene => {
+    let offset = sceneStart;
+    scene.turns?.forEach(turn => {
+      starts.push({ offset, speaker: turn.speaker });
+      offset += turn.text.length + 1;
+    });
+    sceneStart += scene.narration.length + 1;
+  });
+  return starts;
+};
@@ -0,0 +1,47 @@
+import { DocumentPage, PageRange } from "../types";
+
+/**
+ * Helpers for sending only the relevant part of a document to the model.
+ * Kept free of PDF parsing so the API proxy can use them too.
+ */
+
+// Upper bounds on how much document text a single request may carry
+export const ANALYSIS_CHAR_BUDGET = 600000;
+export const TOPIC_CHAR_BUDGET = 120000;
+
+/**
+ * Pages covered by a topic. Topics without a range (courses created before
+ * page tracking existed) fall back to the whole document.
+ */
+export const getPagesInRange = (pages: DocumentPage[], range?: PageRange): DocumentPage[] => {
+  if (!range) return pages;
+  const selected = pages.filter(p => p.pageNumber >= range.start && p.pageNumber <= range.end);
+  return selected.length > 0 ? selected : pages;
+};
+
+// Appended to a page that was shortened to fit a budget
+const TRUNCATION_MARK = ' […]';
+
+/**
+ * Pages shortened evenly so their text fits `charBudget` and the whole range stays
+ * represented. Pages that already fit are returned as they are.
+ */
+export const fitPagesToBudget = (pages: DocumentPage[], charBudget: number): DocumentPage[] => {
+  const total = pages.reduce((sum, p) => sum + p.text.length, 0);
+  if (total <= charBudget) return pages;
+  const perPage = Math.max(0, Math.floor(charBudget / Math.max(1, pages.length)) - TRUNCATION_MARK.length);
+  return pages.map(p => p.text.length > perPage + TRUNCATION_MARK.length ? { ...p, text: `${p.text.slice(0, perPage)}${TRUNCATION_MARK}` } : p);
+};
+
+/**
+ * Renders pages as page-tagged plain text, shortened to `charBudget` (see fitPagesToBudget).
+ */
+export const formatPagesForPrompt = (pages: DocumentPage[], charBudget: number): string => {
+  return fitPagesToBudget(pages, charBudget)
+    .map(p => {
+      // OCR text may contain recognition mistakes; tell the model so it reads around them
+      const label = p.source === 'ocr' ? ' (scanned, OCR)' : '';
+      return `--- Page ${p.pageNumber}${label} ---\n${p.text}`;
+    })
+    .join('\n\n');
+};
@@ -0,0 +1,51 @@
+import { DocumentPage } from "../types";
+import { DOCUMENT_STORE, runRequest } from "./db";
+
+/**
+ * Uploaded documents kept on the device, keyed by their content hash.
+ * Holds the extracted page text (what the model sees) and the original PDF.
+ */
+
+export interface StoredDocument {
+  hash: string;
+  name: string;
+  pages: DocumentPage[];
+  pdf: Blob;
+  storedAt: string;
+}
+
+/**
+ * Fingerprints a PDF so stored documents and cached lessons survive re-uploads of the same file.
+ */
+export const hashPdf = async (pdfBytes: ArrayBuffer): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', pdfBytes);
+  return Array.from(new Uint8Array(digest))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+export const getStoredDocument = async (hash: string): Promise<StoredDocument | null> => {
+  try {
+    const entry = await runRequest<StoredDocument | undefined>(DOCUMENT_STORE, 'readonly', store => store.get(hash));
+    return entry ?? null;
+  } catch (e) {
+    console.warn("Document read failed", e);
+    return null;
+  }
+};
+
+export const putStoredDocument = async (doc: StoredDocument): Promise<void> => {
+  try {
+    await runRequest(DOCUMENT_STORE, 'readwrite', store => store.put(doc, doc.hash));
+  } catch (e) {
+    console.warn("Document write failed", e);
+  }
+};
+
+export const deleteStoredDocument = async (hash: string): Promise<void> => {
+  try {
+    await runRequest(DOCUMENT_STORE, 'readwrite', store => store.delete(hash));
+  } catch (e) {
+    console.warn("Document delete failed", e);
+  }
+};
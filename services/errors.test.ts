@@ -0,0 +1,50 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  BadRequestError, BudgetExceededError, GenerationError, InvalidModelOutputError, NetworkError, PayloadTooLargeError,
+  QuotaError, SafetyBlockError, UnreadablePdfError, classifyError, deserializeError, serializeError,
+} from "./errors";
+
+test("SDK and fetch failures are classified by status and message", () => {
+  const quota = classifyError(Object.assign(new Error('RESOURCE_EXHAUSTED: please retry in 12.5s'), { status: 429 }));
+  assert.ok(quota instanceof QuotaError);
+  assert.equal(quota.retryAfterMs, 12500);
+  assert.ok(quota.retryable);
+
+  assert.ok(classifyError({ message: 'Request Entity Too Large', status: 413 }) instanceof PayloadTooLargeError);
+  assert.ok(classifyError(new Error('The document has no pages')) instanceof UnreadablePdfError);
+  assert.ok(classifyError(new Error('Response was blocked due to SAFETY')) instanceof SafetyBlockError);
+  const network = classifyError(new TypeError('Failed to fetch'));
+  assert.ok(network instanceof NetworkError);
+  assert.ok(network.retryable);
+  assert.ok(classifyError({ message: 'Service unavailable', status: 503 }) instanceof NetworkError);
+
+  const unknown = classifyError('something odd');
+  assert.equal(unknown.kind, 'unknown');
+  assert.equal(unknown.retryable, false);
+
+  const typed = new BudgetExceededError(5);
+  assert.equal(classifyError(typed), typed);
+});
+
+test("every error kind survives serialization", () => {
+  const errors: GenerationError[] = [
+    new NetworkError(),
+    new QuotaError(3000),
+    new PayloadTooLargeError(),
+    new UnreadablePdfError(),
+    new SafetyBlockError('PROHIBITED_CONTENT'),
+    new InvalidModelOutputError('quiz', ['Question 1 has no "question" text.']),
+    new BudgetExceededError(2.5),
+    new BadRequestError('The request needs a "tutor" object.'),
+    new GenerationError('unknown', 'Something broke', true),
+  ];
+  for (const error of errors) {
+    const restored = deserializeError(JSON.parse(JSON.stringify(serializeError(error))));
+    assert.equal(restored.constructor, error.constructor, error.name);
+    assert.equal(restored.kind, error.kind);
+    assert.equal(restored.message, error.message);
+    assert.equal(restored.retryable, error.retryable);
+    assert.deepEqual(serializeError(restored), serializeError(error));
+  }
+});
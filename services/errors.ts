@@ -0,0 +1,205 @@
+/**
+ * Errors surfaced by content generation that the UI can react to by type.
+ * Every error carries a `kind` for the UI and `retryable`, which tells
+ * withRetry whether repeating the same request automatically is worthwhile.
+ */
+
+export type GenerationErrorKind =
+  | 'network'
+  | 'quota'
+  | 'payload_too_large'
+  | 'unreadable_pdf'
+  | 'safety_blocked'
+  | 'invalid_output'
+  | 'budget_exceeded'
+  | 'bad_request'
+  | 'unknown';
+
+export class GenerationError extends Error {
+  readonly kind: GenerationErrorKind;
+  readonly retryable: boolean;
+
+  constructor(kind: GenerationErrorKind, message: string, retryable: boolean, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'GenerationError';
+    this.kind = kind;
+    this.retryable = retryable;
+  }
+}
+
+/**
+ * The request never reached the model or the connection dropped.
+ */
+export class NetworkError extends GenerationError {
+  constructor(options?: { cause?: unknown }) {
+    super('network', "We couldn't reach the AI service. Check your connection and try again.", true, options);
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * Rate limit or quota exhausted. `retryAfterMs` is set when the service tells us how long to wait.
+ */
+export class QuotaError extends GenerationError {
+  readonly retryAfterMs: number | null;
+
+  constructor(retryAfterMs: number | null = null, options?: { cause?: unknown }) {
+    super('quota', "The AI service is busy or your usage limit was reached. Please wait a moment and try again.", true, options);
+    this.name = 'QuotaError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export class PayloadTooLargeError extends GenerationError {
+  constructor(options?: { cause?: unknown }) {
+    super('payload_too_large', "The PDF is too large to send to the AI service. Please try a smaller or compressed PDF.", false, options);
+    this.name = 'PayloadTooLargeError';
+  }
+}
+
+export class UnreadablePdfError extends GenerationError {
+  constructor(options?: { cause?: unknown }) {
+    super('unreadable_pdf', "The PDF appears to be empty, encrypted, or corrupted. Please try a different file.", false, options);
+    this.name = 'UnreadablePdfError';
+  }
+}
+
+/**
+ * The model refused to answer because of its safety filters.
+ */
+export class SafetyBlockError extends GenerationError {
+  readonly reason: string;
+
+  constructor(reason: string, options?: { cause?: unknown }) {
+    super('safety_blocked', "The AI declined to generate this content. Try a different topic or document.", false, options);
+    this.name = 'SafetyBlockError';
+    this.reason = reason;
+  }
+}
+
+/**
+ * The model kept returning output that failed validation, even after being asked to repair it.
+ */
+export class InvalidModelOutputError extends GenerationError {
+  /** Name of the schema the output was checked against, e.g. "quiz". */
+  readonly schema: string;
+  /** Human readable validation issues from the last attempt. */
+  readonly issues: string[];
+
+  constructor(schema: string, issues: string[]) {
+    super('invalid_output', `The AI returned a ${schema} we could not use. Please try again.`, false);
+    this.name = 'InvalidModelOutputError';
+    this.schema = schema;
+    this.issues = issues;
+  }
+}
+
+/**
+ * The learner's own monthly spending cap was reached; nothing is sent to the model.
+ */
+export class BudgetExceededError extends GenerationError {
+  readonly budgetUsd: number;
+
+  constructor(budgetUsd: number) {
+    super('budget_exceeded', `This month's generation budget of $${budgetUsd.toFixed(2)} has been used up. Raise the budget in Usage to keep generating.`, false);
+    this.name = 'BudgetExceededError';
+    this.budgetUsd = budgetUsd;
+  }
+}
+
+/**
+ * The API proxy rejected a request body that doesn't have the shape its route expects.
+ */
+export class BadRequestError extends GenerationError {
+  constructor(message: string) {
+    super('bad_request', message, false);
+    this.name = 'BadRequestError';
+  }
+}
+
+/**
+ * Reads a "retry in 30s" style hint from a rate limit error, if present.
+ */
+const parseRetryAfterMs = (message: string): number | null => {
+  const match = message.match(/retry(?:Delay)?\D{0,10}(\d+(?:\.\d+)?)\s*s/i);
+  return match ? Math.round(parseFloat(match[1]) * 1000) : null;
+};
+
+/**
+ * Maps anything thrown by an SDK, fetch or our own code onto the taxonomy above.
+ * Abort errors are not generation failures and must be checked before calling this.
+ */
+export const classifyError = (error: unknown): GenerationError => {
+  if (error instanceof GenerationError) return error;
+
+  const err = error as { message?: string; status?: number; code?: number } | null;
+  const message = err?.message ?? String(error);
+  const status = err?.status ?? err?.code;
+
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) {
+    return new QuotaError(parseRetryAfterMs(message), { cause: error });
+  }
+  if (status === 413 || /Rpc failed|payload|too large|Request Entity/i.test(message)) {
+    return new PayloadTooLargeError({ cause: error });
+  }
+  if (/document has no pages|password|encrypted|Unable to process input image/i.test(message)) {
+    return new UnreadablePdfError({ cause: error });
+  }
+  if (/SAFETY|PROHIBITED_CONTENT|blocked/i.test(message)) {
+    return new SafetyBlockError(message, { cause: error });
+  }
+  if (
+    status === 500 || status === 502 || status === 503 || status === 504 ||
+    /xhr|fetch|NetworkError|network|ECONNRESET|ETIMEDOUT/i.test(message)
+  ) {
+    return new NetworkError({ cause: error });
+  }
+
+  return new GenerationError('unknown', message || "Something went wrong while generating content.", false, { cause: error });
+};
+
+/**
+ * Wire format used by the API proxy to send typed errors to the client.
+ */
+export interface SerializedGenerationError {
+  kind: GenerationErrorKind;
+  message: string;
+  retryable: boolean;
+  retryAfterMs?: number | null;
+  schema?: string;
+  issues?: string[];
+  reason?: string;
+  budgetUsd?: number;
+}
+
+export const serializeError = (error: GenerationError): SerializedGenerationError => ({
+  kind: error.kind,
+  message: error.message,
+  retryable: error.retryable,
+  retryAfterMs: error instanceof QuotaError ? error.retryAfterMs : undefined,
+  schema: error instanceof InvalidModelOutputError ? error.schema : undefined,
+  issues: error instanceof InvalidModelOutputError ? error.issues : undefined,
+  reason: error instanceof SafetyBlockError ? error.reason : undefined,
+  budgetUsd: error instanceof BudgetExceededError ? error.budgetUsd : undefined,
+});
+
+/** Whether a response payload's `error` is one of ours; anything else is left to the HTTP status. */
+export const isSerializedError = (value: unknown): value is SerializedGenerationError => {
+  if (typeof value !== 'object' || value === null) return false;
+  const { kind, message } = value as Record<string, unknown>;
+  return typeof kind === 'string' && typeof message === 'string';
+};
+
+export const deserializeError = (data: SerializedGenerationError): GenerationError => {
+  switch (data.kind) {
+    case 'network': return new NetworkError();
+    case 'quota': return new QuotaError(data.retryAfterMs ?? null);
+    case 'payload_too_large': return new PayloadTooLargeError();
+    case 'unreadable_pdf': return new UnreadablePdfError();
+    case 'safety_blocked': return new SafetyBlockError(data.reason ?? 'unknown');
+    case 'invalid_output': return new InvalidModelOutputError(data.schema ?? 'response', data.issues ?? []);
+    case 'budget_exceeded': return new BudgetExceededError(data.budgetUsd ?? 0);
+    case 'bad_request': return new BadRequestError(data.message);
+    default: return new GenerationError('unknown', data.message, data.retryable);
+  }
+};
@@ -0,0 +1,42 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createFlashcards, makeCloze, scheduleReview } from "./flashcards";
+import type { Flashcard, LessonContent, Topic } from "../types";
+
+const topic: Topic = { id: 't1', title: 'Cells', description: '', isCompleted: true, isLocked: false };
+
+test("the cloze hides the longest plain word, never math or code", () => {
+  assert.equal(makeCloze('Mitochondria produce energy.'), '_____ produce energy.');
+  assert.equal(makeCloze('Energy is $E = mc^2$ where c is lightspeed'), 'Energy is $E = mc^2$ where c is _____');
+  assert.equal(makeCloze('Call `Math.floor(valueOfPi)` to round it down'), 'Call `Math.floor(valueOfPi)` to _____ it down');
+  assert.equal(makeCloze('C++ (plus) and .NET: small'), 'C++ (plus) and .NET: _____');
+  assert.equal(makeCloze('$\\alpha + \\beta$ is a sum'), null);
+});
+
+test("key point cards are keyed by their text, not their position", () => {
+  const lesson = (points: string[]): LessonContent => ({ scenes: [], keyPoints: points.map(text => ({ text })) });
+  const before = createFlashcards(topic, lesson(['Cells divide by mitosis.', 'Ribosomes build proteins.']), []);
+  const after = createFlashcards(topic, lesson(['Ribosomes build proteins.', 'Membranes control transport.']), []);
+  assert.equal(before[1].id, after[0].id);
+  assert.ok(!after.some(card => card.id === before[0].id));
+});
+
+test("reviews follow SM-2: 1 day, 6 days, then the interval times the ease", () => {
+  const now = new Date('2026-01-01T00:00:00Z');
+  const card: Flashcard = { id: 'c1', topicId: 't1', topicTitle: 'Cells', front: 'Q', back: 'A', ease: 2.5, interval: 0, repetitions: 0, due: now.toISOString() };
+  const first = scheduleReview(card, 4, now);
+  const second = scheduleReview(first, 4, now);
+  const third = scheduleReview(second, 5, now);
+  assert.deepEqual([first.interval, second.interval, third.interval], [1, 6, 15]);
+  assert.equal(third.repetitions, 3);
+  assert.equal(first.due, '2026-01-02T00:00:00.000Z');
+
+  const failed = scheduleReview(third, 1, now);
+  assert.equal(failed.repetitions, 0);
+  assert.equal(failed.interval, 1);
+  assert.ok(failed.ease < third.ease);
+
+  let hard = card;
+  for (let i = 0; i < 10; i++) hard = scheduleReview(hard, 0, now);
+  assert.equal(hard.ease, 1.3);
+});
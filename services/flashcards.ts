@@ -0,0 +1,142 @@
+import { Flashcard, LessonContent, QuizQuestion, ReviewGrade, Topic } from "../types";
+import { maskMarkup } from "./richText";
+import { createShuffledOrder, describeCorrectAnswer } from "./quiz";
+import { hashString } from "./hash";
+
+/**
+ * Flashcards for spaced repetition, scheduled with SM-2: every review is graded,
+ * and the grade moves the card's next review further out (or back to tomorrow).
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+// Grades below this count as forgotten: the card starts over
+const PASSING_GRADE = 3;
+
+export const REVIEW_GRADES: { grade: ReviewGrade; label: string }[] = [
+  { grade: 1, label: 'Again' },
+  { grade: 3, label: 'Hard' },
+  { grade: 4, label: 'Good' },
+  { grade: 5, label: 'Easy' },
+];
+
+// Key point cards hide the longest word of at least this many letters
+const CLOZE_WORD = /(?<!\p{L})\p{L}{5,}(?!\p{L})/gu;
+
+/**
+ * Turns a key point into a fill-in-the-blank prompt by hiding its longest word.
+ * Math and code are never hidden. Returns null when no word is long enough.
+ */
+export const makeCloze = (text: string): string | null => {
+  let longest: RegExpMatchArray | null = null;
+  for (const match of maskMarkup(text).matchAll(CLOZE_WORD)) {
+    if (!longest || match[0].length > longest[0].length) longest = match;
+  }
+  if (!longest || longest.index === undefined) return null;
+  return `${text.slice(0, longest.index)}_____${text.slice(longest.index + longest[0].length)}`;
+};
+
+// Deterministic, so an ordering card lists its items the same way every time it is made
+const seededRandom = (seed: number) => () => (seed = (Math.imul(seed, 1664525) + 1013904223) >>> 0) / 2 ** 32;
+
+/**
+ * The front of a quiz card: the question with whatever is needed to answer it.
+ * Options are listed; ordering items are listed shuffled, never in the answer's order.
+ */
+const getQuestionFront = (q: QuizQuestion): string => {
+  switch (q.type) {
+    case 'single':
+    case 'multiple':
+      return `${q.question}\n\n${q.options.map(option => `• ${option}`).join('\n')}`;
+    case 'ordering': {
+      const order = createShuffledOrder(q.items.length, seededRandom(hashString(q.question)));
+      return `${q.question}\n\n${order.map(idx => `• ${q.items[idx]}`).join('\n')}`;
+    }
+    case 'true_false':
+      return `True or false: ${q.question}`;
+    default:
+      return q.question;
+  }
+};
+
+/**
+ * Cards for a completed topic: one per key point and one per quiz question.
+ * Cards are keyed by their point or question, so cards made again after a retake keep
+ * their schedule, and a regenerated lesson's new points don't inherit old reviews.
+ */
+export const createFlashcards = (topic: Topic, content: LessonContent | null, questions: QuizQuestion[], now = new Date()): Flashcard[] => {
+  const base = {
+    topicId: topic.id,
+    topicTitle: topic.title,
+    ease: INITIAL_EASE,
+    interval: 0,
+    repetitions: 0,
+    due: now.toISOString(),
+  };
+
+  const keyPointCards: Flashcard[] = (content?.keyPoints ?? []).map(point => {
+    const cloze = makeCloze(point.text);
+    return {
+      ...base,
+      id: `${topic.id}-kp-${hashString(point.text).toString(36)}`,
+      front: cloze ?? `Recall a key point of "${topic.title}".`,
+      back: point.text,
+      ...(point.source ? { source: point.source } : {}),
+    };
+  });
+
+  const quizCards: Flashcard[] = questions.map(q => ({
+    ...base,
+    id: `${topic.id}-q-${hashString(q.question).toString(36)}`,
+    front: getQuestionFront(q),
+    back: `${describeCorrectAnswer(q)}\n\n${q.explanation}`.trim(),
+    ...(q.source ? { source: q.source } : {}),
+  }));
+
+  return [...keyPointCards, ...quizCards];
+};
+
+/**
+ * Adds new cards and refreshes the text of existing ones, keeping their schedule.
+ */
+export const mergeFlashcards = (existing: Flashcard[], incoming: Flashcard[]): Flashcard[] => {
+  const byId = new Map(existing.map(card => [card.id, card]));
+  for (const card of incoming) {
+    const current = byId.get(card.id);
+    byId.set(card.id, current ? { ...current, front: card.front, back: card.back, source: card.source } : card);
+  }
+  return Array.from(byId.values());
+};
+
+/**
+ * SM-2: the interval grows 1 day, 6 days, then by the card's ease factor;
+ * the ease factor drifts with every grade and a failed card starts over.
+ */
+export const scheduleReview = (card: Flashcard, grade: ReviewGrade, now = new Date()): Flashcard => {
+  const passed = grade >= PASSING_GRADE;
+  const repetitions = passed ? card.repetitions + 1 : 0;
+  const interval = !passed || repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(card.interval * card.ease);
+  const ease = Math.max(MIN_EASE, card.ease + 0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02));
+  return {
+    ...card,
+    repetitions,
+    interval,
+    ease,
+    due: new Date(now.getTime() + interval * DAY_MS).toISOString(),
+    lastReviewedAt: now.toISOString(),
+  };
+};
+
+/** Cards due at `now`, most overdue first. */
+export const getDueCards = (cards: Flashcard[], now = new Date()): Flashcard[] => {
+  return cards
+    .filter(card => new Date(card.due).getTime() <= now.getTime())
+    .sort((a, b) => a.due.localeCompare(b.due));
+};
+
+export const formatInterval = (days: number): string => {
+  if (days < 30) return days === 1 ? '1 day' : `${days} days`;
+  if (days < 365) return `${Math.round(days / 30)} mo`;
+  return `${(days / 365).toFixed(1)} yr`;
+};
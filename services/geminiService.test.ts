@@ -0,0 +1,43 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { GoogleGenAI } from "@google/genai";
+import { generateValidated } from "./geminiService";
+import { createShortAnswerGradeSchema } from "./validation";
+import { InvalidModelOutputError } from "./errors";
+
+const schema = createShortAnswerGradeSchema([{ description: 'Names both products', points: 2 }]);
+const request = { model: 'gemini-2.5-flash', contents: { parts: [{ text: 'Grade this answer.' }] }, config: {} };
+
+// A client whose responses are `texts`, one per call; records the prompt parts it was sent
+const fakeClient = (texts: string[]) => {
+  const prompts: string[][] = [];
+  const ai = {
+    models: {
+      generateContent: async ({ contents }: { contents: { parts: { text: string }[] } }) => {
+        prompts.push(contents.parts.map(part => part.text));
+        return { text: texts[prompts.length - 1] };
+      },
+    },
+  } as unknown as GoogleGenAI;
+  return { ai, prompts };
+};
+
+test("output that fails validation is sent back with its issues and the repaired output is used", async () => {
+  const { ai, prompts } = fakeClient(['{"feedback":"Good"}', '{"awarded":[5],"feedback":"Good"}']);
+  const grade = await generateValidated(ai, request, schema, 'grading', {});
+  // Recoverable problems are normalized: points are clamped to what the criterion is worth
+  assert.deepEqual(grade, { awarded: [2], feedback: 'Good' });
+  assert.equal(prompts.length, 2);
+  assert.match(prompts[1][1], /"awarded" must list the points/);
+});
+
+test("output that is still invalid after the repair attempt fails with the last issues", async () => {
+  const { ai, prompts } = fakeClient(['not json', '{}']);
+  await assert.rejects(generateValidated(ai, request, schema, 'grading', {}), (error: unknown) => {
+    assert.ok(error instanceof InvalidModelOutputError);
+    assert.equal(error.schema, 'short answer grade');
+    assert.deepEqual(error.issues, ['"awarded" must list the points given for each rubric criterion.']);
+    return true;
+  });
+  assert.match(prompts[1][1], /not valid JSON/);
+});
@@ -1,5 +1,31 @@
-import { GoogleGenAI, Type, Modality } from "@google/genai";
-import { CourseStructure, LessonContent, QuizQuestion, TutorProfile } from "../types";
+import { GoogleGenAI, Type, Modality, GenerateContentConfig, GenerateContentResponse, FinishReason, Part, SpeechConfig } from "@google/genai";
+import { ChatMessage, CourseStructure, DialogueTurn, DocumentPage, LearningPreferences, LessonContent, LessonSpeaker, QuizQuestion, ShortAnswerGrade, ShortAnswerQuestion, TutorAnswer, TutorProfile, UsageOperation } from "../types";
+import type { ContentProvider, GenerationOptions } from "./contentProvider";
+import { abortableDelay, isAbortError, throwIfAborted } from "./abort";
+import { pcmToWav, TTS_SAMPLE_RATE } from "./audioUtils";
+import { ModelOutputSchema, createCourseStructureSchema, createLessonContentSchema, createQuizSchema, createShortAnswerGradeSchema, createTutorAnswerSchema } from "./validation";
+import { ANALYSIS_CHAR_BUDGET, TOPIC_CHAR_BUDGET, formatPagesForPrompt } from "./documentPages";
+import { estimateCostUsd } from "./usage";
+import { describeLearner, describeOutputLanguage, getLessonLength } from "./learningPreferences";
+import { describeMarkup } from "./richText";
+import { getDialogueSpeakers } from "./dialogue";
+import { createPlaceholderImage } from "./placeholderImage";
+import { MAX_RUBRIC_POINTS } from "./quiz";
+import { InvalidModelOutputError, QuotaError, SafetyBlockError, classifyError } from "./errors";
+
+// How many times the model is asked to fix output that failed validation
+const MAX_REPAIR_ATTEMPTS = 1;
+
+// Rate limits asking us to wait longer than this are surfaced to the user instead
+const MAX_AUTO_RETRY_WAIT_MS = 10000;
+
+const BLOCKING_FINISH_REASONS: (FinishReason | undefined)[] = [
+  FinishReason.SAFETY,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.BLOCKLIST,
+  FinishReason.SPII,
+  FinishReason.IMAGE_SAFETY,
+];
 
 // Helper to get initialized client safely
 const getAiClient = () => {
@@ -7,105 +33,146 @@ const getAiClient = () => {
 };
 
 /**
- * Helper to write string to DataView for WAV header
+ * Wraps extracted pages in a text part the model can cite page numbers from.
  */
-function writeString(view: DataView, offset: number, string: string) {
-  for (let i = 0; i < string.length; i++) {
-    view.setUint8(offset + i, string.charCodeAt(i));
-  }
+function documentPart(pages: DocumentPage[], charBudget: number): Part {
+  return { text: `DOCUMENT (text extracted page by page):\n\n${formatPagesForPrompt(pages, charBudget)}` };
+}
+
+/**
+ * Throws SafetyBlockError when the model refused to answer.
+ */
+function assertNotBlocked(response: GenerateContentResponse) {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) throw new SafetyBlockError(String(blockReason));
+
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (BLOCKING_FINISH_REASONS.includes(finishReason)) throw new SafetyBlockError(String(finishReason));
 }
 
 /**
- * Helper to clean Base64 string
+ * Passes the usage metadata of a response to `options.onUsage`.
+ * Thinking tokens are billed as output.
  */
-function cleanBase64(str: string): string {
-  return str.replace(/[\r\n\s]/g, '');
+function reportUsage(response: GenerateContentResponse, model: string, operation: UsageOperation, options: GenerationOptions) {
+  const usage = response.usageMetadata;
+  if (!usage || !options.onUsage) return;
+  const inputTokens = usage.promptTokenCount ?? 0;
+  const outputTokens = (usage.candidatesTokenCount ?? 0) + (usage.thoughtsTokenCount ?? 0);
+  options.onUsage({ operation, model, inputTokens, outputTokens, costUsd: estimateCostUsd(model, inputTokens, outputTokens) });
 }
 
 /**
- * Helper to retry async operations with exponential backoff
+ * Helper to retry async operations with exponential backoff.
+ * Failures are classified into typed errors; only retryable ones are repeated.
+ * Stops immediately (without retrying) once the signal is aborted.
  */
-async function withRetry<T>(operation: () => Promise<T>, retries = 2, delay = 1000): Promise<T> {
+async function withRetry<T>(operation: () => Promise<T>, signal?: AbortSignal, retries = 2, delay = 1000): Promise<T> {
+  throwIfAborted(signal);
   try {
     return await operation();
   } catch (error: any) {
-    const isNetworkError = error.message?.includes('xhr') || error.message?.includes('fetch') || error.message?.includes('NetworkError');
-    const isServerError = error.status === 503 || error.status === 500;
-    
-    if (retries > 0 && (isNetworkError || isServerError)) {
-      console.warn(`Retrying operation... attempts left: ${retries}. Error: ${error.message}`);
-      await new Promise(resolve => setTimeout(resolve, delay));
-      return withRetry(operation, retries - 1, delay * 2);
+    if (isAbortError(error) || signal?.aborted) throw error;
+
+    const typed = classifyError(error);
+    const wait = typed instanceof QuotaError && typed.retryAfterMs ? Math.max(delay, typed.retryAfterMs) : delay;
+
+    if (retries > 0 && typed.retryable && wait <= MAX_AUTO_RETRY_WAIT_MS) {
+      console.warn(`Retrying operation... attempts left: ${retries}. Error: ${typed.kind} (${error.message})`);
+      await abortableDelay(wait, signal);
+      return withRetry(operation, signal, retries - 1, delay * 2);
     }
-    throw error;
+    throw typed;
   }
 }
 
+interface JsonRequest {
+  model: string;
+  contents: { parts: Part[] };
+  config: GenerateContentConfig;
+}
+
 /**
- * Converts raw PCM data to a WAV Blob by adding a RIFF header.
- * Gemini 2.5 Flash TTS returns raw PCM at 24kHz.
+ * Runs a JSON generation request and validates the result against `schema`.
+ * Recoverable problems are normalized by the schema; on hard failures the model
+ * is re-prompted with the list of issues before giving up with InvalidModelOutputError.
  */
-function pcmToWav(pcmData: Uint8Array, sampleRate: number = 24000): Blob {
-  const numChannels = 1;
-  const bitsPerSample = 16;
-  const byteRate = (sampleRate * numChannels * bitsPerSample) / 8;
-  const blockAlign = (numChannels * bitsPerSample) / 8;
-  const dataSize = pcmData.length;
-  const buffer = new ArrayBuffer(44 + dataSize);
-  const view = new DataView(buffer);
-
-  // RIFF chunk descriptor
-  writeString(view, 0, 'RIFF');
-  view.setUint32(4, 36 + dataSize, true);
-  writeString(view, 8, 'WAVE');
-
-  // fmt sub-chunk
-  writeString(view, 12, 'fmt ');
-  view.setUint32(16, 16, true); // Subchunk1Size (16 for PCM)
-  view.setUint16(20, 1, true); // AudioFormat (1 for PCM)
-  view.setUint16(22, numChannels, true);
-  view.setUint32(24, sampleRate, true);
-  view.setUint32(28, byteRate, true);
-  view.setUint16(32, blockAlign, true);
-  view.setUint16(34, bitsPerSample, true);
-
-  // data sub-chunk
-  writeString(view, 36, 'data');
-  view.setUint32(40, dataSize, true);
-
-  // Write PCM data
-  const pcmBytes = new Uint8Array(buffer, 44);
-  pcmBytes.set(pcmData);
-
-  return new Blob([buffer], { type: 'audio/wav' });
+export async function generateValidated<T>(
+  ai: GoogleGenAI,
+  request: JsonRequest,
+  schema: ModelOutputSchema<T>,
+  operation: UsageOperation,
+  options: GenerationOptions
+): Promise<T> {
+  let issues: string[] = [];
+
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    throwIfAborted(options.signal);
+    const parts = attempt === 0 ? request.contents.parts : [
+      ...request.contents.parts,
+      {
+        text: `Your previous answer was not a valid ${schema.name}. Problems found:
+        ${issues.map(issue => `- ${issue}`).join('\n')}
+        Return the complete corrected JSON only.`
+      }
+    ];
+
+    const response = await ai.models.generateContent({ ...request, contents: { parts } });
+    reportUsage(response, request.model, operation, options);
+    assertNotBlocked(response);
+    if (!response.text) {
+      issues = ['The response was empty.'];
+      continue;
+    }
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(response.text);
+    } catch {
+      issues = ['The response was not valid JSON.'];
+      continue;
+    }
+
+    const result = schema.parse(raw);
+    if (result.ok === false) {
+      issues = result.issues;
+      console.warn(`Invalid ${schema.name} (attempt ${attempt + 1}):`, issues);
+      continue;
+    }
+    if (result.warnings.length > 0) {
+      console.warn(`Normalized ${schema.name}:`, result.warnings);
+    }
+    return result.value;
+  }
+
+  throw new InvalidModelOutputError(schema.name, issues);
 }
 
 /**
  * Analyzes the uploaded PDF and creates a structured course outline.
+ * Every topic is tied to the page range it covers; titles and descriptions are in `language`.
  */
-export const analyzePdfStructure = async (base64Pdf: string): Promise<CourseStructure> => {
+export const analyzePdfStructure = async (pages: DocumentPage[], language: string, options: GenerationOptions = {}): Promise<CourseStructure> => {
   const ai = getAiClient();
   return withRetry(async () => {
     try {
-      const response = await ai.models.generateContent({
+      return await generateValidated(ai, {
         model: "gemini-2.5-flash",
         contents: {
           parts: [
-            {
-              inlineData: {
-                mimeType: "application/pdf",
-                data: cleanBase64(base64Pdf),
-              },
-            },
+            documentPart(pages, ANALYSIS_CHAR_BUDGET),
             {
               text: `Analyze this educational document. Create a comprehensive course structure suitable for a video course. 
               Return a JSON object with a course title, a brief summary, and a list of chapters. 
               Each chapter should have a list of topics. 
-              Ensure the JSON matches the structure: { title: string, summary: string, chapters: [{ title: string, topics: [{ title: string, description: string }] }] }.`,
+              For every topic give "startPage" and "endPage": the first and last page (1-${pages.length}, as marked by "--- Page N ---") that the topic is taught from.
+              ${describeOutputLanguage(language, 'the course title, summary, chapter titles, topic titles and descriptions')}
+              Ensure the JSON matches the structure: { title: string, summary: string, chapters: [{ title: string, topics: [{ title: string, description: string, startPage: number, endPage: number }] }] }.`,
             },
           ],
         },
         config: {
+          abortSignal: options.signal,
           responseMimeType: "application/json",
           responseSchema: {
             type: Type.OBJECT,
@@ -125,8 +192,10 @@ export const analyzePdfStructure = async (base64Pdf: string): Promise<CourseStru
                         properties: {
                           title: { type: Type.STRING },
                           description: { type: Type.STRING },
+                          startPage: { type: Type.INTEGER },
+                          endPage: { type: Type.INTEGER },
                         },
-                        required: ["title", "description"]
+                        required: ["title", "description", "startPage", "endPage"]
                       }
                     }
                   },
@@ -137,55 +206,32 @@ export const analyzePdfStructure = async (base64Pdf: string): Promise<CourseStru
             required: ["title", "summary", "chapters"]
           }
         },
-      });
-
-      if (!response.text) {
-        throw new Error("Failed to generate course structure");
-      }
-      
-      // Parse JSON and add IDs
-      const rawData = JSON.parse(response.text);
-      let topicCounter = 0;
-      
-      const structuredData: CourseStructure = {
-        ...rawData,
-        chapters: rawData.chapters.map((ch: any, cIdx: number) => ({
-          id: `ch-${cIdx}`,
-          title: ch.title,
-          topics: ch.topics.map((t: any, tIdx: number) => {
-            const isFirst = cIdx === 0 && tIdx === 0;
-            return {
-              id: `topic-${topicCounter++}`,
-              title: t.title,
-              description: t.description,
-              isCompleted: false,
-              isLocked: !isFirst // Unlock first topic by default
-            };
-          })
-        }))
-      };
-
-      return structuredData;
+      }, createCourseStructureSchema(pages.length), 'analysis', options);
     } catch (error: any) {
+      if (isAbortError(error)) throw error;
       console.error("Analysis Error:", error);
-      
-      if (error.message?.includes("document has no pages") || error.status === 400) {
-        throw new Error("The PDF appears to be empty, encrypted, or corrupted. Please try a different file.");
-      }
-      
-      if (error.message?.includes("xhr") || error.message?.includes("Rpc failed") || error.status === 500) {
-        throw new Error("The PDF file is too large for the browser to process directly. Please try a smaller PDF (under 4MB) or compress it.");
-      }
-      
-      throw error;
+      throw classifyError(error);
     }
-  });
+  }, options.signal);
+};
+
+/**
+ * Prompt line introducing the second speaker of a dialogue lesson.
+ */
+const describePartner = (partner: LessonSpeaker): string => {
+  if (partner.role === 'student') {
+    return `The lesson is a dialogue with ${partner.name}, a curious student at the learner's level. ${partner.name} asks the questions the learner would ask, voices common confusions and tries to sum up ideas in their own words; you answer, correct gently and do most of the explaining.`;
+  }
+  return `The lesson is a dialogue with ${partner.name}, a fellow ${partner.region} tutor who teaches it with you. Take turns explaining: ${partner.name} adds examples and other angles, and each of you asks the other to clarify where a learner could get lost.`;
 };
 
 /**
- * Generates lesson script and visual prompts for a specific topic.
+ * Generates a lesson for a specific topic as a sequence of scenes,
+ * each with its own narration, visual prompt and caption.
+ * `pages` should only contain the topic's page range.
+ * Level, length, examples, language and format (lecture or dialogue) follow the learner's preferences.
  */
-export const generateLessonContent = async (topicTitle: string, base64Pdf: string, tutor: TutorProfile): Promise<LessonContent> => {
+export const generateLessonContent = async (topicTitle: string, pages: DocumentPage[], tutor: TutorProfile, preferences: LearningPreferences, options: GenerationOptions = {}): Promise<LessonContent> => {
   const ai = getAiClient();
   const styleMap: Record<string, string> = {
     'African': 'Warm, storytelling, wisdom-oriented, emphasizes community and practical application. Use clear metaphors.',
@@ -195,82 +241,130 @@ export const generateLessonContent = async (topicTitle: string, base64Pdf: strin
   };
 
   const styleDescription = styleMap[tutor.region] || styleMap['American'];
+  const length = getLessonLength(preferences);
+  const withEnglish = preferences.language !== 'en' && preferences.sideBySideEnglish;
+  const speakers = getDialogueSpeakers(tutor, preferences.lessonFormat);
+  const partner = speakers[1];
+
+  const spokenPart = partner ? `- "turns": The conversation during this scene (approx ${length.sceneWords} words in total), ready for Text-to-Speech. Each turn has:
+                     "speaker": "${tutor.name}" or "${partner.name}".
+                     "text": What they say. Keep turns short, like a real conversation.
+                   Together the scenes form one continuous conversation of approx ${length.totalWords} words.
+                   IMPORTANT: The first scene starts with ${tutor.name} greeting the student and introducing themselves and ${partner.name}.
+                   Now and then the speakers address each other by name.`
+    : `- "narration": The ${styleDescription} lecture text spoken during this scene (approx ${length.sceneWords} words), ready for Text-to-Speech.
+                   Together the narrations form one continuous lecture of approx ${length.totalWords} words.
+                   IMPORTANT: The first scene starts by greeting the student and stating your name is ${tutor.name}.
+                   Use natural pauses. Speak in the first person as ${tutor.name}.`;
 
   return withRetry(async () => {
     try {
-      const response = await ai.models.generateContent({
+      return await generateValidated(ai, {
         model: "gemini-2.5-flash",
         contents: {
           parts: [
-            {
-              inlineData: {
-                mimeType: "application/pdf",
-                data: cleanBase64(base64Pdf),
-              },
-            },
+            documentPart(pages, TOPIC_CHAR_BUDGET),
             {
               text: `You are ${tutor.name}, an expert ${tutor.region} ${tutor.gender} tutor. 
               Adopt a teaching persona that is: ${styleDescription}
+              ${partner ? describePartner(partner) : ''}
+              ${describeLearner(preferences, 'lesson')}
+              ${describeOutputLanguage(preferences.language, partner ? 'the turns, captions and key points' : 'the narration, captions and key points')}
               
-              Create a lesson script for the topic: "${topicTitle}" based on the provided document.
+              Create a short video lesson for the topic: "${topicTitle}" based on the provided document.
+              The lesson is a sequence of ${length.scenes} scenes, like slides in a video. Each scene covers one idea.
               
-              1. "script": A ${styleDescription} lecture script (approx 150-200 words) ready for Text-to-Speech. 
-              IMPORTANT: Start the script by greeting the student and stating your name is ${tutor.name}.
-              Use natural pauses. Speak in the first person as ${tutor.name}.
+              1. "scenes": An array of scenes. Each scene has:
+                 ${spokenPart}
+                 - "visualPrompt": A detailed image generation prompt for a visual aid explaining this scene's idea. It MUST include the following details: "A clear educational diagram or illustration... featuring a friendly ${tutor.region} ${tutor.gender} teacher avatar named ${tutor.name} pointing to or presenting the concept...".
+                 - "caption": The on-screen caption for the scene, at most 12 words.
+                 - Markup: ${describeMarkup('narration')}
+                 - "visualPrompt" is always written in English.${withEnglish ? `
+                 - "englishNarration": A faithful English translation of the scene's ${partner ? 'turns, one line per turn' : 'narration'}.` : ''}
               
-              2. "visualPrompt": A detailed image generation prompt for a visual aid explaining this topic. It MUST include the following details: "A clear educational diagram or illustration... featuring a friendly ${tutor.region} ${tutor.gender} teacher avatar named ${tutor.name} pointing to or presenting the concept...".
-              
-              3. "keyPoints": An array of 3-5 short bullet points summarizing the lesson.
+              2. "keyPoints": An array of 3-5 short bullet points summarizing the lesson. Each has:
+                 - "text": The bullet point. ${describeMarkup('text')}
+                 - "page": The page (as marked by "--- Page N ---") that supports it.
+                 - "quote": A short verbatim excerpt (at most 25 words) from that page that supports it, copied exactly, in the document's language.
               
               Return JSON.`,
             },
           ],
         },
         config: {
+          abortSignal: options.signal,
           responseMimeType: "application/json",
           responseSchema: {
             type: Type.OBJECT,
             properties: {
-              script: { type: Type.STRING },
-              visualPrompt: { type: Type.STRING },
-              keyPoints: { type: Type.ARRAY, items: { type: Type.STRING } }
+              scenes: {
+                type: Type.ARRAY,
+                items: {
+                  type: Type.OBJECT,
+                  properties: {
+                    ...(partner ? {
+                      turns: {
+                        type: Type.ARRAY,
+                        items: {
+                          type: Type.OBJECT,
+                          properties: {
+                            speaker: { type: Type.STRING, enum: [tutor.name, partner.name] },
+                            text: { type: Type.STRING }
+                          },
+                          required: ["speaker", "text"]
+                        }
+                      }
+                    } : { narration: { type: Type.STRING } }),
+                    visualPrompt: { type: Type.STRING },
+                    caption: { type: Type.STRING },
+                    ...(withEnglish ? { englishNarration: { type: Type.STRING } } : {})
+                  },
+                  required: [partner ? "turns" : "narration", "visualPrompt", "caption"]
+                }
+              },
+              keyPoints: {
+                type: Type.ARRAY,
+                items: {
+                  type: Type.OBJECT,
+                  properties: {
+                    text: { type: Type.STRING },
+                    page: { type: Type.INTEGER },
+                    quote: { type: Type.STRING }
+                  },
+                  required: ["text", "page", "quote"]
+                }
+              }
             },
-            required: ["script", "visualPrompt", "keyPoints"]
+            required: ["scenes", "keyPoints"]
           }
         },
-      });
-
-      if (!response.text) throw new Error("No lesson content generated");
-      return JSON.parse(response.text);
+      }, createLessonContentSchema(pages, speakers), 'lesson', options).then(content => ({ ...content, language: preferences.language }));
     } catch (error: any) {
+      if (isAbortError(error)) throw error;
       console.error("Content Generation Error:", error);
-      
-      if (error.message?.includes("document has no pages")) {
-          throw new Error("The PDF content could not be read. It may be password protected.");
-      }
-      
-      if (error.message?.includes("xhr") || error.message?.includes("Rpc failed") || error.status === 500) {
-        throw new Error("Connection lost due to file size. Please restart with a smaller PDF.");
-      }
-      
-      throw error;
+      throw classifyError(error);
     }
-  });
+  }, options.signal);
 };
 
 /**
  * Generates a visual aid image.
  */
-export const generateLessonImage = async (prompt: string): Promise<string> => {
+export const generateLessonImage = async (prompt: string, options: GenerationOptions = {}): Promise<string> => {
   const ai = getAiClient();
   try {
     // Using gemini-2.5-flash-image for speed and efficiency in this demo context
+    const model = 'gemini-2.5-flash-image';
     const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image',
+      model,
       contents: {
         parts: [{ text: prompt }]
       },
+      config: {
+        abortSignal: options.signal,
+      },
     });
+    reportUsage(response, model, 'image', options);
 
     // Iterate to find image
     for (const part of response.candidates?.[0]?.content?.parts || []) {
@@ -279,19 +373,19 @@ export const generateLessonImage = async (prompt: string): Promise<string> => {
       }
     }
     
-    // Fallback placeholder if generation fails or text returned
-    return `https://picsum.photos/800/450?grayscale&blur=2`; 
+    // Fallback placeholder if generation fails or text returned; drawn locally, so it works offline too
+    return createPlaceholderImage(prompt, 'Image unavailable');
   } catch (e) {
+    if (isAbortError(e)) throw e;
     console.error("Image Gen Error:", e);
-    return `https://picsum.photos/800/450?grayscale&blur=2`;
+    return createPlaceholderImage(prompt, 'Image unavailable');
   }
 };
 
 /**
- * Generates Audio for the lesson.
+ * Maps a tutor profile to a Gemini voice.
  */
-export const generateLessonAudio = async (text: string, tutor: TutorProfile): Promise<string> => {
-  const ai = getAiClient();
+const getVoiceName = (tutor: TutorProfile): string => {
   // Map Tutor Profile to Gemini Voices strictly by Gender first, then Region nuance
   
   let voiceName = 'Fenrir';
@@ -334,22 +428,30 @@ export const generateLessonAudio = async (text: string, tutor: TutorProfile): Pr
     }
   }
 
+  return voiceName;
+};
+
+/**
+ * Speaks `text` with the TTS model and wraps the PCM it returns in a WAV header.
+ */
+const synthesizeSpeech = (text: string, speechConfig: SpeechConfig, operation: string, options: GenerationOptions): Promise<Blob> => {
+  const ai = getAiClient();
   return withRetry(async () => {
+    const model = "gemini-2.5-flash-preview-tts";
     const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash-preview-tts",
+      model,
       contents: [{ parts: [{ text }] }],
       config: {
+        abortSignal: options.signal,
         responseModalities: [Modality.AUDIO],
-        speechConfig: {
-          voiceConfig: {
-            prebuiltVoiceConfig: { voiceName },
-          },
-        },
+        speechConfig,
       },
     });
 
+    reportUsage(response, model, 'tts', options);
+    assertNotBlocked(response);
     const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-    if (!base64Audio) throw new Error("No audio generated");
+    if (!base64Audio) throw new InvalidModelOutputError(operation, ['The response contained no audio.']);
     
     // Decode Base64
     const binaryString = atob(base64Audio);
@@ -360,30 +462,77 @@ export const generateLessonAudio = async (text: string, tutor: TutorProfile): Pr
     }
 
     // IMPORTANT: Add WAV Header to raw PCM data
-    const wavBlob = pcmToWav(bytes, 24000);
-    return URL.createObjectURL(wavBlob);
-  });
+    return pcmToWav(bytes, TTS_SAMPLE_RATE);
+  }, options.signal);
+};
+
+/**
+ * Generates Audio for the lesson.
+ * The TTS model detects the language from the text, so translated narration is spoken in that language.
+ */
+export const generateLessonAudio = async (text: string, tutor: TutorProfile, options: GenerationOptions = {}): Promise<Blob> => {
+  return synthesizeSpeech(text, {
+    voiceConfig: {
+      prebuiltVoiceConfig: { voiceName: getVoiceName(tutor) },
+    },
+  }, 'narration', options);
+};
+
+/**
+ * Generates the audio of a dialogue lesson with multi-speaker TTS, one voice per speaker.
+ * Speakers are labelled by position in the transcript sent to the model, so their names
+ * (which learners type freely) can't confuse the speaker assignment.
+ */
+export const generateDialogueAudio = async (turns: DialogueTurn[], speakers: LessonSpeaker[], options: GenerationOptions = {}): Promise<Blob> => {
+  const label = (speaker: number) => `Speaker${speaker + 1}`;
+  const transcript = turns.map(turn => `${label(turn.speaker)}: ${turn.text.replace(/\s+/g, ' ')}`).join('\n');
+  return synthesizeSpeech(`TTS the following conversation between ${speakers.map((_, idx) => label(idx)).join(' and ')}:\n${transcript}`, {
+    multiSpeakerVoiceConfig: {
+      speakerVoiceConfigs: speakers.map((speaker, idx) => ({
+        speaker: label(idx),
+        voiceConfig: { prebuiltVoiceConfig: { voiceName: getVoiceName(speaker) } },
+      })),
+    },
+  }, 'dialogue narration', options);
 };
 
+// Questions per quiz
+const QUIZ_LENGTH = 6;
+
 /**
- * Generates a quiz for the topic.
+ * Generates a quiz for the topic from its pages, pitched at the learner's level,
+ * mixing the question types.
  */
-export const generateQuiz = async (topicTitle: string, base64Pdf: string): Promise<QuizQuestion[]> => {
+export const generateQuiz = async (topicTitle: string, pages: DocumentPage[], preferences: LearningPreferences, options: GenerationOptions = {}): Promise<QuizQuestion[]> => {
   const ai = getAiClient();
   return withRetry(async () => {
     try {
-      const response = await ai.models.generateContent({
+      return await generateValidated(ai, {
         model: "gemini-2.5-flash",
         contents: {
           parts: [
-            { inlineData: { mimeType: "application/pdf", data: cleanBase64(base64Pdf) } },
+            documentPart(pages, TOPIC_CHAR_BUDGET),
             {
-              text: `Create a quiz with 3 multiple-choice questions to test understanding of the topic: "${topicTitle}".
-              Return JSON with structure: [{ id: number, question: string, options: string[], correctOptionIndex: number, explanation: string }]`
+              text: `Create a quiz with ${QUIZ_LENGTH} questions to test understanding of the topic: "${topicTitle}".
+              Mix the question types, using each at most twice, and pick for each question the type that fits what it tests:
+              - "single": multiple choice with one correct option; set "options" and "correctOptionIndex".
+              - "multiple": select all that apply, with two or more correct options; set "options" and "correctOptionIndices".
+              - "true_false": a statement to judge; set "answer".
+              - "ordering": steps, events or stages to put in order; set "items" in the correct order (3 to 6 items).
+              - "cloze": a sentence with key terms replaced by ___; set "blanks" to one list of accepted answers (synonyms, spellings) per ___, in order.
+              - "short_answer": an open question answered in one to three sentences; set "rubric" (1 to 4 criteria worth 1 to ${MAX_RUBRIC_POINTS} points each) and "modelAnswer".
+              Leave out the fields of the other types.
+              ${describeLearner(preferences, 'quiz')}
+              ${describeOutputLanguage(preferences.language, 'the questions, options, answers and explanations')}
+              Match the difficulty and wording of questions, options and explanations to the learner.
+              ${describeMarkup('text')}
+              For every question, "page" is the page (as marked by "--- Page N ---") the answer comes from and "quote" a short verbatim excerpt (at most 25 words) from that page that supports the explanation, copied exactly, in the document's language.
+              Return JSON with structure: [{ id: number, type: string, question: string, options?: string[], correctOptionIndex?: number, correctOptionIndices?: number[], answer?: boolean, items?: string[], blanks?: string[][], rubric?: [{ description: string, points: number }], modelAnswer?: string, explanation: string, page: number, quote: string }]`
             }
           ]
         },
         config: {
+          abortSignal: options.signal,
           responseMimeType: "application/json",
           responseSchema: {
             type: Type.ARRAY,
@@ -391,28 +540,167 @@ export const generateQuiz = async (topicTitle: string, base64Pdf: string): Promi
               type: Type.OBJECT,
               properties: {
                 id: { type: Type.NUMBER },
+                type: { type: Type.STRING, enum: ['single', 'multiple', 'true_false', 'ordering', 'cloze', 'short_answer'] },
                 question: { type: Type.STRING },
                 options: { type: Type.ARRAY, items: { type: Type.STRING } },
                 correctOptionIndex: { type: Type.NUMBER },
-                explanation: { type: Type.STRING }
+                correctOptionIndices: { type: Type.ARRAY, items: { type: Type.INTEGER } },
+                answer: { type: Type.BOOLEAN },
+                items: { type: Type.ARRAY, items: { type: Type.STRING } },
+                blanks: { type: Type.ARRAY, items: { type: Type.ARRAY, items: { type: Type.STRING } } },
+                rubric: {
+                  type: Type.ARRAY,
+                  items: {
+                    type: Type.OBJECT,
+                    properties: {
+                      description: { type: Type.STRING },
+                      points: { type: Type.INTEGER, minimum: 1, maximum: MAX_RUBRIC_POINTS }
+                    },
+                    required: ["description", "points"]
+                  }
+                },
+                modelAnswer: { type: Type.STRING },
+                explanation: { type: Type.STRING },
+                page: { type: Type.INTEGER },
+                quote: { type: Type.STRING }
               },
-              required: ["id", "question", "options", "correctOptionIndex", "explanation"]
+              required: ["id", "type", "question", "explanation", "page", "quote"]
             }
           }
         }
-      });
-
-      if (!response.text) throw new Error("Failed to generate quiz");
-      return JSON.parse(response.text);
+      }, createQuizSchema(pages), 'quiz', options);
     } catch (error: any) {
+       if (isAbortError(error)) throw error;
        console.error("Quiz Gen Error:", error);
-       if (error.message?.includes("xhr") || error.message?.includes("Rpc failed")) {
-          throw new Error("Connection lost. The file may be too large.");
-       }
-       if (error.message?.includes("document has no pages")) {
-          throw new Error("PDF error during quiz generation. The file might be corrupted.");
-       }
-       throw error;
+       throw classifyError(error);
     }
-  });
-};
\ No newline at end of file
+  }, options.signal);
+};
+
+/**
+ * Grades a short answer against the question's rubric, giving points per criterion
+ * and a short piece of feedback addressed to the learner.
+ */
+export const gradeShortAnswer = async (question: ShortAnswerQuestion, answer: string, preferences: LearningPreferences, options: GenerationOptions = {}): Promise<ShortAnswerGrade> => {
+  const ai = getAiClient();
+  const rubric = question.rubric.map((c, idx) => `${idx + 1}. ${c.description} (${c.points} ${c.points === 1 ? 'point' : 'points'})`).join('\n');
+
+  return withRetry(async () => {
+    try {
+      return await generateValidated(ai, {
+        model: "gemini-2.5-flash",
+        contents: {
+          parts: [
+            {
+              text: `Grade a learner's answer to a quiz question against its rubric.
+              Question: ${question.question}
+              Model answer: ${question.modelAnswer}
+              Rubric:
+              ${rubric}
+              Learner's answer: ${answer}
+
+              For each rubric criterion, in order, award between 0 and its points; half points are allowed for a partly met criterion.
+              Judge the meaning, not the wording: ignore spelling and grammar unless they change the meaning. An empty or off-topic answer earns nothing.
+              In "feedback", tell the learner in at most 60 words what was good and what was missing, addressing them directly.
+              ${describeOutputLanguage(preferences.language, 'the feedback')}
+
+              Return JSON: { awarded: number[], feedback: string }`
+            }
+          ]
+        },
+        config: {
+          abortSignal: options.signal,
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.OBJECT,
+            properties: {
+              awarded: { type: Type.ARRAY, items: { type: Type.NUMBER } },
+              feedback: { type: Type.STRING }
+            },
+            required: ["awarded", "feedback"]
+          }
+        }
+      }, createShortAnswerGradeSchema(question.rubric), 'grading', options);
+    } catch (error: any) {
+      if (isAbortError(error)) throw error;
+      console.error("Grading Error:", error);
+      throw classifyError(error);
+    }
+  }, options.signal);
+};
+
+// Earlier messages beyond this are left out of the prompt
+const MAX_CHAT_HISTORY = 10;
+
+/**
+ * Answers a learner question during a lesson, in the tutor's persona and grounded in the topic's pages.
+ */
+export const askTutor = async (
+  question: string,
+  history: ChatMessage[],
+  topicTitle: string,
+  pages: DocumentPage[],
+  tutor: TutorProfile,
+  preferences: LearningPreferences,
+  options: GenerationOptions = {}
+): Promise<TutorAnswer> => {
+  const ai = getAiClient();
+  const conversation = history
+    .slice(-MAX_CHAT_HISTORY)
+    .map(m => `${m.role === 'learner' ? 'Learner' : tutor.name}: ${m.text}`)
+    .join('\n');
+
+  return withRetry(async () => {
+    try {
+      return await generateValidated(ai, {
+        model: "gemini-2.5-flash",
+        contents: {
+          parts: [
+            documentPart(pages, TOPIC_CHAR_BUDGET),
+            {
+              text: `You are ${tutor.name}, a ${tutor.region} ${tutor.gender} tutor, in the middle of a lesson on "${topicTitle}".
+              The learner paused the lesson to ask you a question. Answer it in your teaching persona, briefly (at most 120 words) and conversationally.
+              ${describeLearner(preferences, 'lesson')}
+              ${describeOutputLanguage(preferences.language, 'the answer')}
+              ${describeMarkup('text')}
+              Base the answer on the document above. Refer to the pages you use as (p. N) in the text and list them in "pages".
+              If the document does not cover the question, say so honestly, answer briefly from general knowledge and leave "pages" empty.
+              ${conversation ? `\nConversation so far:\n${conversation}\n` : ''}
+              Learner's question: ${question}
+              
+              Return JSON: { answer: string, pages: number[] }`,
+            },
+          ],
+        },
+        config: {
+          abortSignal: options.signal,
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.OBJECT,
+            properties: {
+              answer: { type: Type.STRING },
+              pages: { type: Type.ARRAY, items: { type: Type.INTEGER } }
+            },
+            required: ["answer", "pages"]
+          }
+        }
+      }, createTutorAnswerSchema(pages.map(p => p.pageNumber)), 'chat', options);
+    } catch (error: any) {
+      if (isAbortError(error)) throw error;
+      console.error("Tutor Chat Error:", error);
+      throw classifyError(error);
+    }
+  }, options.signal);
+};
+
+export const geminiProvider: ContentProvider = {
+  name: 'gemini',
+  analyzePdfStructure,
+  generateLessonContent,
+  generateLessonImage,
+  generateLessonAudio,
+  generateDialogueAudio,
+  generateQuiz,
+  gradeShortAnswer,
+  askTutor,
+};
@@ -0,0 +1,75 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createGenerationQueue } from "./generationQueue";
+import { isAbortError } from "./abort";
+
+test("a foreground request that joins a prefetch survives the prefetch being cancelled", async () => {
+  const queue = createGenerationQueue(1);
+  const started: string[] = [];
+
+  // Keeps the only slot busy so the prefetch stays queued
+  let releaseBlocker!: () => void;
+  const blocker = queue.enqueue('blocker', () => new Promise<void>(resolve => { releaseBlocker = resolve; }));
+
+  const prefetch = new AbortController();
+  const prefetched = queue.enqueue('lesson', async () => { started.push('lesson'); return 'lesson'; }, 'low', prefetch.signal);
+  queue.enqueue('other', async () => { started.push('other'); return 'other'; }, 'low');
+
+  const foreground = new AbortController();
+  const joined = queue.enqueue('lesson', async () => 'unused', 'high', foreground.signal);
+
+  prefetch.abort();
+  await assert.rejects(prefetched, isAbortError);
+  assert.equal(queue.has('lesson'), true);
+
+  releaseBlocker();
+  await blocker;
+  assert.equal(await joined, 'lesson');
+  // Joining at high priority moved the prefetch ahead of the other queued task
+  assert.deepEqual(started, ['lesson', 'other']);
+});
+
+test("a task is dropped once every caller has aborted", async () => {
+  const queue = createGenerationQueue(1);
+  let releaseBlocker!: () => void;
+  queue.enqueue('blocker', () => new Promise<void>(resolve => { releaseBlocker = resolve; }));
+
+  let ran = false;
+  const first = new AbortController();
+  const second = new AbortController();
+  const a = queue.enqueue('lesson', async () => { ran = true; }, 'low', first.signal);
+  const b = queue.enqueue('lesson', async () => { ran = true; }, 'high', second.signal);
+
+  first.abort();
+  second.abort();
+  await assert.rejects(a, isAbortError);
+  await assert.rejects(b, isAbortError);
+  assert.equal(queue.has('lesson'), false);
+  assert.equal(queue.pendingCount(), 0);
+
+  releaseBlocker();
+  await new Promise(resolve => setTimeout(resolve, 0));
+  assert.equal(ran, false);
+});
+
+test("a running task's signal aborts only when its last caller aborts", async () => {
+  const queue = createGenerationQueue(1);
+  let taskSignal!: AbortSignal;
+  let finish!: (value: string) => void;
+  const run = (signal: AbortSignal) => {
+    taskSignal = signal;
+    return new Promise<string>(resolve => { finish = resolve; });
+  };
+
+  const first = new AbortController();
+  const second = new AbortController();
+  const a = queue.enqueue('quiz', run, 'low', first.signal);
+  const b = queue.enqueue('quiz', run, 'high', second.signal);
+
+  first.abort();
+  await assert.rejects(a, isAbortError);
+  assert.equal(taskSignal.aborted, false);
+
+  finish('quiz');
+  assert.equal(await b, 'quiz');
+});
@@ -0,0 +1,158 @@
+/**
+ * Background generation queue with a concurrency limit.
+ * Tasks are de-duplicated by key, so a foreground request for something that is
+ * already being prefetched simply waits for the same result.
+ * While paused (e.g. offline), tasks are kept waiting and start once it resumes.
+ */
+
+import { createAbortError } from "./abort";
+
+export type QueuePriority = 'high' | 'low';
+
+interface QueuedTask {
+  key: string;
+  priority: QueuePriority;
+  run: (signal: AbortSignal) => Promise<unknown>;
+  resolve: (value: unknown) => void;
+  reject: (reason: unknown) => void;
+  promise: Promise<unknown>;
+  // Callers still waiting for the result; the task is dropped when the last one aborts
+  callers: number;
+  controller: AbortController;
+}
+
+export interface GenerationQueue {
+  /**
+   * Schedules a task. High priority tasks (what the learner is waiting for) jump
+   * ahead of low priority prefetches. Aborting `signal` rejects this caller's promise;
+   * once every caller of the key has aborted, the task is dropped, or, if it is
+   * running, the signal passed to `run` aborts. A caller without a signal keeps it alive.
+   */
+  enqueue: <T>(key: string, run: (signal: AbortSignal) => Promise<T>, priority?: QueuePriority, signal?: AbortSignal) => Promise<T>;
+  /** Whether a task with this key is waiting or running. */
+  has: (key: string) => boolean;
+  /** Holds back tasks that have not started yet; unpausing starts them. */
+  setPaused: (paused: boolean) => void;
+  /** Number of tasks waiting to start. */
+  pendingCount: () => number;
+  /** Calls `listener` whenever the number of waiting tasks changes. Returns an unsubscribe function. */
+  subscribe: (listener: () => void) => () => void;
+}
+
+export const createGenerationQueue = (concurrency: number): GenerationQueue => {
+  const waiting: QueuedTask[] = [];
+  const inFlight = new Map<string, QueuedTask>();
+  const listeners = new Set<() => void>();
+  let running = 0;
+  let paused = false;
+
+  const notify = () => listeners.forEach(listener => listener());
+
+  const pump = () => {
+    while (!paused && running < concurrency && waiting.length > 0) {
+      const task = waiting.shift()!;
+      running++;
+      notify();
+      task.run(task.controller.signal)
+        .then(task.resolve, task.reject)
+        .finally(() => {
+          running--;
+          if (inFlight.get(task.key) === task) inFlight.delete(task.key);
+          pump();
+        });
+    }
+  };
+
+  const insert = (task: QueuedTask) => {
+    if (task.priority === 'high') {
+      const firstLow = waiting.findIndex(t => t.priority === 'low');
+      waiting.splice(firstLow === -1 ? waiting.length : firstLow, 0, task);
+    } else {
+      waiting.push(task);
+    }
+  };
+
+  // A caller gave up: the last one to go drops a waiting task or aborts a running one
+  const leave = (task: QueuedTask) => {
+    task.callers--;
+    if (task.callers > 0) return;
+    inFlight.delete(task.key);
+    task.controller.abort();
+    const queuedIdx = waiting.indexOf(task);
+    if (queuedIdx !== -1) {
+      waiting.splice(queuedIdx, 1);
+      task.reject(createAbortError());
+      notify();
+    }
+  };
+
+  const join = <T>(task: QueuedTask, signal?: AbortSignal): Promise<T> => {
+    task.callers++;
+    if (!signal) return task.promise as Promise<T>;
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        reject(createAbortError());
+        leave(task);
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+      task.promise
+        .then(value => resolve(value as T), reject)
+        .finally(() => signal.removeEventListener('abort', onAbort));
+    });
+  };
+
+  const enqueue = <T>(key: string, run: (signal: AbortSignal) => Promise<T>, priority: QueuePriority = 'low', signal?: AbortSignal): Promise<T> => {
+    if (signal?.aborted) {
+      return Promise.reject(createAbortError());
+    }
+
+    const existing = inFlight.get(key);
+    if (existing) {
+      // Promote a queued prefetch when someone starts waiting on it
+      const queuedIdx = waiting.indexOf(existing);
+      if (priority === 'high' && existing.priority === 'low') {
+        existing.priority = 'high';
+        if (queuedIdx !== -1) {
+          waiting.splice(queuedIdx, 1);
+          insert(existing);
+        }
+      }
+      return join<T>(existing, signal);
+    }
+
+    const task = { key, priority, run, callers: 0, controller: new AbortController() } as QueuedTask;
+    task.promise = new Promise((resolve, reject) => {
+      task.resolve = resolve;
+      task.reject = reject;
+    });
+    // Callers with a signal get their own promise, and may all have given up when this one rejects
+    task.promise.catch(() => {});
+    inFlight.set(key, task);
+    insert(task);
+    notify();
+    const promise = join<T>(task, signal);
+    pump();
+    return promise;
+  };
+
+  const setPaused = (value: boolean) => {
+    paused = value;
+    pump();
+  };
+
+  const subscribe = (listener: () => void) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+  };
+
+  return {
+    enqueue,
+    has: (key: string) => inFlight.has(key),
+    setPaused,
+    pendingCount: () => waiting.length,
+    subscribe,
+  };
+};
+
+// Shared queue for lesson and quiz generation
+export const generationQueue = createGenerationQueue(2);
@@ -0,0 +1,11 @@
+/**
+ * Small deterministic string hash (FNV-1a), for ids and for varying output per input.
+ */
+export const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
@@ -0,0 +1,133 @@
+import { ExampleDensity, LearnerLevel, LearningPreferences, LessonFormat, LessonLength } from "../types";
+
+/**
+ * Learner level, lesson length, example density and lesson format, and how they are put into prompts.
+ */
+
+export const DEFAULT_LEARNING_PREFERENCES: LearningPreferences = {
+  level: 'secondary',
+  lessonLength: 'standard',
+  exampleDensity: 'balanced',
+  lessonFormat: 'lecture',
+  language: 'en',
+  sideBySideEnglish: false,
+};
+
+/**
+ * Languages lessons can be taught in. All of them separate words with spaces,
+ * which the transcript timing and captions rely on.
+ */
+export const LESSON_LANGUAGES: { code: string; label: string; nativeLabel: string; rtl?: boolean }[] = [
+  { code: 'en', label: 'English', nativeLabel: 'English' },
+  { code: 'fr', label: 'French', nativeLabel: 'Français' },
+  { code: 'es', label: 'Spanish', nativeLabel: 'Español' },
+  { code: 'pt', label: 'Portuguese', nativeLabel: 'Português' },
+  { code: 'de', label: 'German', nativeLabel: 'Deutsch' },
+  { code: 'sw', label: 'Swahili', nativeLabel: 'Kiswahili' },
+  { code: 'hi', label: 'Hindi', nativeLabel: 'हिन्दी' },
+  { code: 'bn', label: 'Bengali', nativeLabel: 'বাংলা' },
+  { code: 'ar', label: 'Arabic', nativeLabel: 'العربية', rtl: true },
+  { code: 'id', label: 'Indonesian', nativeLabel: 'Bahasa Indonesia' },
+];
+
+export const getLanguage = (code: string | undefined) => {
+  return LESSON_LANGUAGES.find(l => l.code === code) ?? LESSON_LANGUAGES[0];
+};
+
+/**
+ * Prompt line asking for output in the learner's language, or nothing for English.
+ * `fields` names what has to be written in it.
+ */
+export const describeOutputLanguage = (code: string, fields: string): string => {
+  if (code === 'en') return '';
+  const language = getLanguage(code);
+  return `Write ${fields} in ${language.label} (${language.nativeLabel}), even if the document is in another language. Keep technical terms understandable; add the English term in parentheses where learners will meet it in the document.`;
+};
+
+export const LEARNER_LEVELS: { id: LearnerLevel; label: string; description: string; prompt: string }[] = [
+  {
+    id: 'primary',
+    label: 'Primary',
+    description: 'Ages 8-12',
+    prompt: 'a primary school pupil aged about 8-12. Use short sentences and everyday words, explain every technical term the first time it appears, and relate ideas to things a child knows from home, school and play. Skip formal notation unless the document cannot be understood without it',
+  },
+  {
+    id: 'secondary',
+    label: 'Secondary',
+    description: 'Ages 12-18',
+    prompt: 'a secondary school student aged about 12-18. Use clear language, introduce the key terminology with short definitions, and build intuition before formal detail',
+  },
+  {
+    id: 'university',
+    label: 'University',
+    description: 'Undergraduate or graduate',
+    prompt: 'a university student. Use the precise terminology of the field, include formal definitions and reasoning where the document does, and point out subtleties and common misconceptions',
+  },
+  {
+    id: 'professional',
+    label: 'Professional',
+    description: 'Working in the field',
+    prompt: 'a working professional in the field. Assume the fundamentals, be concise and technical, and focus on application, trade-offs and practical consequences',
+  },
+];
+
+export const LESSON_LENGTHS: { id: LessonLength; label: string; description: string; scenes: string; sceneWords: string; totalWords: string }[] = [
+  { id: 'short', label: 'Short', description: '~1 min', scenes: '2-3', sceneWords: '40-50', totalWords: '90-150' },
+  { id: 'standard', label: 'Standard', description: '~1.5 min', scenes: '3-5', sceneWords: '40-60', totalWords: '150-250' },
+  { id: 'long', label: 'Long', description: '~3 min', scenes: '5-6', sceneWords: '70-90', totalWords: '350-500' },
+];
+
+export const EXAMPLE_DENSITIES: { id: ExampleDensity; label: string; lessonPrompt: string; quizPrompt: string }[] = [
+  {
+    id: 'few',
+    label: 'Few',
+    lessonPrompt: 'Focus on the concepts themselves; give at most one brief example in the whole lesson.',
+    quizPrompt: 'Ask mostly about the concepts and definitions themselves.',
+  },
+  {
+    id: 'balanced',
+    label: 'Balanced',
+    lessonPrompt: 'Support the main ideas with an example where it helps understanding.',
+    quizPrompt: 'Mix questions about concepts with questions that apply them to a short example.',
+  },
+  {
+    id: 'many',
+    label: 'Many',
+    lessonPrompt: 'Illustrate nearly every idea with a concrete, worked example suited to the learner.',
+    quizPrompt: 'Frame most questions as short scenarios or examples the learner has to reason about.',
+  },
+];
+
+export const LESSON_FORMATS: { id: LessonFormat; label: string; description: string }[] = [
+  { id: 'lecture', label: 'Lecture', description: 'Your tutor explains' },
+  { id: 'student', label: 'With a student', description: 'A curious student asks' },
+  { id: 'tutors', label: 'Two tutors', description: 'Two tutors discuss' },
+];
+
+/**
+ * Fills in missing or unknown fields, e.g. from older saved state or a proxy request.
+ */
+export const normalizeLearningPreferences = (value: unknown): LearningPreferences => {
+  const prefs = (value && typeof value === 'object' ? value : {}) as Partial<LearningPreferences>;
+  return {
+    level: LEARNER_LEVELS.some(l => l.id === prefs.level) ? prefs.level! : DEFAULT_LEARNING_PREFERENCES.level,
+    lessonLength: LESSON_LENGTHS.some(l => l.id === prefs.lessonLength) ? prefs.lessonLength! : DEFAULT_LEARNING_PREFERENCES.lessonLength,
+    exampleDensity: EXAMPLE_DENSITIES.some(d => d.id === prefs.exampleDensity) ? prefs.exampleDensity! : DEFAULT_LEARNING_PREFERENCES.exampleDensity,
+    lessonFormat: LESSON_FORMATS.some(f => f.id === prefs.lessonFormat) ? prefs.lessonFormat! : DEFAULT_LEARNING_PREFERENCES.lessonFormat,
+    language: getLanguage(prefs.language).code,
+    sideBySideEnglish: prefs.sideBySideEnglish === true,
+  };
+};
+
+export const getLessonLength = (prefs: LearningPreferences) => {
+  return LESSON_LENGTHS.find(l => l.id === prefs.lessonLength) ?? LESSON_LENGTHS[1];
+};
+
+/**
+ * Prompt lines describing the learner, shared by the lesson and quiz prompts.
+ */
+export const describeLearner = (prefs: LearningPreferences, purpose: 'lesson' | 'quiz'): string => {
+  const level = LEARNER_LEVELS.find(l => l.id === prefs.level) ?? LEARNER_LEVELS[1];
+  const examples = EXAMPLE_DENSITIES.find(d => d.id === prefs.exampleDensity) ?? EXAMPLE_DENSITIES[1];
+  return `The learner is ${level.prompt}.\n${purpose === 'lesson' ? examples.lessonPrompt : examples.quizPrompt}`;
+};
@@ -0,0 +1,82 @@
+import { LearningPreferences, LessonContent, TutorProfile } from "../types";
+import { LESSON_STORE, runRequest } from "./db";
+import { upgradeLegacyLesson } from "./lessonContent";
+
+/**
+ * Persistent lesson cache backed by IndexedDB.
+ * Stores generated lesson content, the WAV audio blob and the visual so
+ * re-opening a topic is instant, works offline and costs nothing.
+ */
+
+export interface CachedLesson {
+  content: LessonContent;
+  audio: Blob;
+  imageUrls: string[]; // one per scene
+  /** Start time of each narrated word; missing on lessons saved before timings were measured. */
+  wordTimings?: number[] | null;
+  createdAt: string;
+}
+
+/**
+ * Lessons saved before scenes existed stored a single image.
+ */
+type StoredLesson = Omit<CachedLesson, 'imageUrls'> & { imageUrls?: string[]; imageUrl?: string };
+
+/**
+ * A lesson depends on the document, the topic, the tutor persona that narrates it
+ * and the learner it was written for.
+ */
+export const getLessonCacheKey = (pdfHash: string, topicId: string, tutor: TutorProfile, preferences: LearningPreferences): string => {
+  const parts = [pdfHash, topicId, tutor.region, tutor.gender, tutor.name, preferences.level, preferences.lessonLength, preferences.exampleDensity];
+  // Lecture keys stay as they were before dialogue lessons existed
+  if (preferences.lessonFormat !== 'lecture') parts.push(preferences.lessonFormat);
+  // English keys stay as they were before lessons could be translated
+  if (preferences.language !== 'en') {
+    parts.push(preferences.language);
+    if (preferences.sideBySideEnglish) parts.push('with-english');
+  }
+  return parts.join(':');
+};
+
+export const getCachedLesson = async (key: string): Promise<CachedLesson | null> => {
+  try {
+    const entry = await runRequest<StoredLesson | undefined>(LESSON_STORE, 'readonly', store => store.get(key));
+    if (!entry) return null;
+    const { imageUrl, ...lesson } = entry;
+    return {
+      ...lesson,
+      content: upgradeLegacyLesson(entry.content),
+      imageUrls: entry.imageUrls ?? (imageUrl ? [imageUrl] : []),
+    };
+  } catch (e) {
+    console.warn("Lesson cache read failed", e);
+    return null;
+  }
+};
+
+export const putCachedLesson = async (key: string, lesson: CachedLesson): Promise<void> => {
+  try {
+    await runRequest(LESSON_STORE, 'readwrite', store => store.put(lesson, key));
+  } catch (e) {
+    console.warn("Lesson cache write failed", e);
+  }
+};
+
+export const deleteCachedLesson = async (key: string): Promise<void> => {
+  try {
+    await runRequest(LESSON_STORE, 'readwrite', store => store.delete(key));
+  } catch (e) {
+    console.warn("Lesson cache delete failed", e);
+  }
+};
+
+/**
+ * Removes every cached lesson of a document, whatever tutor or preferences it was made for.
+ */
+export const deleteCachedLessonsOf = async (pdfHash: string): Promise<void> => {
+  try {
+    await runRequest(LESSON_STORE, 'readwrite', store => store.delete(IDBKeyRange.bound(`${pdfHash}:`, `${pdfHash}:\uffff`)));
+  } catch (e) {
+    console.warn("Lesson cache delete failed", e);
+  }
+};
@@ -0,0 +1,66 @@
+import { KeyPoint, LessonContent } from "../types";
+import { tokenizeNarration } from "./richText";
+
+/**
+ * Helpers for multi-scene lessons.
+ */
+
+/**
+ * The full narration, one scene per paragraph. This is what gets spoken.
+ */
+export const getLessonScript = (content: LessonContent): string => {
+  return content.scenes.map(scene => scene.narration).join('\n');
+};
+
+/** Transcript words of the narration; a formula or code block counts as one. */
+export const countWords = (text: string): number => tokenizeNarration(text).length;
+
+/**
+ * Where each scene starts, as a fraction (0-1) of the narration.
+ * The narration is one audio track, so boundaries are placed by word count.
+ */
+export const getSceneStartFractions = (content: LessonContent): number[] => {
+  const counts = content.scenes.map(scene => countWords(scene.narration));
+  const total = counts.reduce((sum, n) => sum + n, 0) || 1;
+  let before = 0;
+  return counts.map(n => {
+    const start = before / total;
+    before += n;
+    return start;
+  });
+};
+
+/**
+ * Where each scene starts, in seconds. With measured word timings a scene starts exactly at
+ * its first word; otherwise the word-count fractions are spread over the audio.
+ */
+export const getSceneStartTimes = (content: LessonContent, duration: number, wordTimings?: number[] | null): number[] => {
+  const counts = content.scenes.map(scene => countWords(scene.narration));
+  const totalWords = counts.reduce((sum, n) => sum + n, 0);
+  if (!wordTimings || wordTimings.length !== totalWords) {
+    return getSceneStartFractions(content).map(f => f * duration);
+  }
+  let firstWord = 0;
+  return counts.map((n, i) => {
+    const start = i === 0 ? 0 : wordTimings[Math.min(firstWord, totalWords - 1)];
+    firstWord += n;
+    return start;
+  });
+};
+
+type LegacyKeyPoints = (KeyPoint | string)[];
+
+/**
+ * Lessons saved before scenes existed had one script and one visual; they become a single scene.
+ * Key points saved before citations existed were plain strings.
+ */
+export const upgradeLegacyLesson = (
+  content: Omit<LessonContent, 'keyPoints'> & { keyPoints: LegacyKeyPoints } | { script: string; visualPrompt: string; keyPoints: string[] }
+): LessonContent => {
+  const keyPoints = (content.keyPoints as LegacyKeyPoints).map(point => typeof point === 'string' ? { text: point } : point);
+  if ('scenes' in content) return { ...content, keyPoints };
+  return {
+    scenes: [{ narration: content.script, visualPrompt: content.visualPrompt, caption: keyPoints[0]?.text ?? '' }],
+    keyPoints,
+  };
+};
@@ -0,0 +1,283 @@
+import { ChatMessage, CourseStructure, DialogueTurn, DocumentPage, Gender, LearningPreferences, LessonContent, LessonSpeaker, QuizQuestion, ShortAnswerGrade, ShortAnswerQuestion, SourceCitation, TutorAnswer, TutorProfile } from "../types";
+import type { ContentProvider, GenerationOptions } from "./contentProvider";
+import { abortableDelay } from "./abort";
+import { pcmToWav, TTS_SAMPLE_RATE } from "./audioUtils";
+import { getDialogueSpeakers, joinTurns } from "./dialogue";
+import { normalizeAnswer } from "./quiz";
+import { hashString } from "./hash";
+import { createPlaceholderImage } from "./placeholderImage";
+
+/**
+ * Offline provider that returns canned, deterministic content.
+ * Lets the whole UPLOAD → DASHBOARD → LESSON → QUIZ flow run without network or API key.
+ */
+
+// Small artificial delay so loading states are still visible during demos
+const SIMULATED_LATENCY_MS = 400;
+
+// Roughly how long one spoken word lasts in the generated tone track
+const SECONDS_PER_WORD = 0.35;
+
+const CANNED_CHAPTERS = [
+  {
+    title: 'Getting Started',
+    topics: [
+      { title: 'Introduction', description: 'What this document is about and why it matters.' },
+      { title: 'Core Vocabulary', description: 'The key terms used throughout the material.' },
+    ],
+  },
+  {
+    title: 'Main Concepts',
+    topics: [
+      { title: 'The Central Idea', description: 'The main argument of the document, step by step.' },
+      { title: 'Worked Examples', description: 'Applying the central idea to concrete cases.' },
+      { title: 'Common Mistakes', description: 'Pitfalls learners usually run into and how to avoid them.' },
+    ],
+  },
+  {
+    title: 'Wrapping Up',
+    topics: [
+      { title: 'Summary and Next Steps', description: 'A recap of the course and where to go from here.' },
+    ],
+  },
+];
+
+/**
+ * Cites the opening words of a page, so offline lessons still exercise the source viewer.
+ */
+function citePage(page: DocumentPage | undefined): SourceCitation | undefined {
+  if (!page) return undefined;
+  const quote = page.text.split(/\s+/).filter(Boolean).slice(0, 12).join(' ');
+  return quote ? { page: page.pageNumber, quote } : { page: page.pageNumber };
+}
+
+export const analyzePdfStructure = async (pages: DocumentPage[], _language: string, options: GenerationOptions = {}): Promise<CourseStructure> => {
+  await abortableDelay(SIMULATED_LATENCY_MS, options.signal);
+  const pageCount = Math.max(1, pages.length);
+  const topicTotal = CANNED_CHAPTERS.reduce((sum, ch) => sum + ch.topics.length, 0);
+  const fingerprint = hashString(pages.map(p => p.text).join('\n')).toString(16);
+  let topicCounter = 0;
+
+  // Spread the document's pages evenly over the canned topics
+  const pageRangeFor = (index: number) => {
+    const start = Math.min(pageCount, Math.floor((index * pageCount) / topicTotal) + 1);
+    const end = Math.max(start, Math.floor(((index + 1) * pageCount) / topicTotal));
+    return { start, end };
+  };
+
+  return {
+    title: 'Offline Sample Course',
+    summary: `A demo course generated locally from ${pages.length} pages (document fingerprint ${fingerprint}). No model was called.`,
+    chapters: CANNED_CHAPTERS.map((ch, cIdx) => ({
+      id: `ch-${cIdx}`,
+      title: ch.title,
+      topics: ch.topics.map((t, tIdx) => ({
+        id: `topic-${topicCounter++}`,
+        title: t.title,
+        description: t.description,
+        isCompleted: false,
+        isLocked: !(cIdx === 0 && tIdx === 0),
+        pageRange: pageRangeFor(topicCounter - 1)
+      }))
+    }))
+  };
+};
+
+export const generateLessonContent = async (topicTitle: string, pages: DocumentPage[], tutor: TutorProfile, preferences: LearningPreferences, options: GenerationOptions = {}): Promise<LessonContent> => {
+  await abortableDelay(SIMULATED_LATENCY_MS, options.signal);
+
+  const visualFor = (subject: string) =>
+    `A clear educational illustration of "${subject}" presented by ${tutor.name}, a friendly ${tutor.region} ${tutor.gender} teacher.`;
+
+  const lesson: LessonContent = {
+    scenes: [
+      {
+        narration: `Hello, and welcome! My name is ${tutor.name}, and today we are going to explore ${topicTitle}.`,
+        visualPrompt: visualFor(topicTitle),
+        caption: topicTitle
+      },
+      {
+        narration: `This lesson was prepared offline, so the words you hear are a placeholder for the real explanation. Still, the structure is the same as a generated lesson.`,
+        visualPrompt: visualFor('Offline lesson'),
+        caption: 'A placeholder lesson, prepared offline'
+      },
+      {
+        narration: `First, we look at what ${topicTitle} means. Then we connect it to the rest of the course. Finally, we check our understanding with a short quiz.`,
+        visualPrompt: visualFor('Define, connect, check'),
+        caption: 'Define, connect, check'
+      },
+      {
+        narration: `Take your time, pause whenever you like, and when you are ready, press Start Quiz. Let's begin!`,
+        visualPrompt: visualFor('Ready for the quiz'),
+        caption: 'Ready when you are'
+      }
+    ],
+    keyPoints: [
+      { text: `${topicTitle} is introduced and defined.`, source: citePage(pages[0]) },
+      { text: `It connects to the rest of the course material.`, source: citePage(pages[pages.length - 1]) },
+      { text: `A short quiz checks your understanding.` }
+    ]
+  };
+
+  const speakers = getDialogueSpeakers(tutor, preferences.lessonFormat);
+  const partner = speakers[1];
+  if (!partner) return lesson;
+
+  // Dialogue lessons: the partner answers each scene of the lecture
+  const replies = [
+    `Hi, I'm ${partner.name}. ${partner.role === 'student' ? "I'm learning this too, so I'll ask the questions along the way." : "I'll be teaching this one with you."}`,
+    'So our conversation is a placeholder as well, but it plays just like a real one.',
+    'Define, connect, check. That is easy to remember.',
+    'See you in the quiz!',
+  ];
+  return {
+    ...lesson,
+    scenes: lesson.scenes.map((scene, idx) => {
+      const turns: DialogueTurn[] = [{ speaker: 0, text: scene.narration }, { speaker: 1, text: replies[idx] }];
+      return { ...scene, narration: joinTurns(turns), turns };
+    }),
+    speakers,
+  };
+};
+
+export const generateLessonImage = async (prompt: string, options: GenerationOptions = {}): Promise<string> => {
+  await abortableDelay(SIMULATED_LATENCY_MS, options.signal);
+  return createPlaceholderImage(prompt);
+};
+
+/**
+ * Produces a soft tone track whose length follows the word count,
+ * with one short "syllable" pulse per word so playback feels like speech.
+ * Each part is voiced lower or higher by the speaker's gender.
+ */
+const generateToneTrack = (parts: { text: string; gender: Gender }[]): Blob => {
+  const words = parts.flatMap(part => part.text.split(/\s+/).filter(Boolean).map(() => part.gender === 'Male' ? 140 : 220));
+  const wordCount = Math.max(1, words.length);
+  const totalSamples = Math.ceil(wordCount * SECONDS_PER_WORD * TTS_SAMPLE_RATE);
+  const samplesPerWord = totalSamples / wordCount;
+
+  const pcm = new Uint8Array(totalSamples * 2);
+  const view = new DataView(pcm.buffer);
+  for (let i = 0; i < totalSamples; i++) {
+    const wordPhase = (i % samplesPerWord) / samplesPerWord;
+    const frequency = words[Math.floor(i / samplesPerWord)] ?? 220;
+    // Voice for the first 70% of each word slot, silence for the rest
+    const envelope = wordPhase < 0.7 ? Math.sin((wordPhase / 0.7) * Math.PI) : 0;
+    const t = i / TTS_SAMPLE_RATE;
+    const sample = Math.sin(2 * Math.PI * frequency * t) * envelope * 0.2;
+    view.setInt16(i * 2, Math.round(sample * 32767), true);
+  }
+
+  return pcmToWav(pcm, TTS_SAMPLE_RATE);
+};
+
+export const generateLessonAudio = async (text: string, tutor: TutorProfile, options: GenerationOptions = {}): Promise<Blob> => {
+  await abortableDelay(SIMULATED_LATENCY_MS, options.signal);
+  return generateToneTrack([{ text, gender: tutor.gender }]);
+};
+
+export const generateDialogueAudio = async (turns: DialogueTurn[], speakers: LessonSpeaker[], options: GenerationOptions = {}): Promise<Blob> => {
+  await abortableDelay(SIMULATED_LATENCY_MS, options.signal);
+  return generateToneTrack(turns.map(turn => ({ text: turn.text, gender: speakers[turn.speaker]?.gender ?? 'Female' })));
+};
+
+export const generateQuiz = async (topicTitle: string, pages: DocumentPage[], _preferences: LearningPreferences, options: GenerationOptions = {}): Promise<QuizQuestion[]> => {
+  await abortableDelay(SIMULATED_LATENCY_MS, options.signal);
+
+  return [
+    {
+      id: 1,
+      type: 'single',
+      question: `What is the main subject of the lesson "${topicTitle}"?`,
+      options: [topicTitle, 'An unrelated topic', 'Nothing in particular', 'The quiz itself'],
+      correctOptionIndex: 0,
+      explanation: `The lesson focused on ${topicTitle}.`,
+      source: citePage(pages[0])
+    },
+    {
+      id: 2,
+      type: 'multiple',
+      question: 'Which of these are part of every lesson?',
+      options: ['A narrated script', 'A quiz', 'A live video call', 'A printed certificate'],
+      correctOptionIndices: [0, 1],
+      explanation: 'Lessons are narrated by your tutor and end with a short quiz.'
+    },
+    {
+      id: 3,
+      type: 'true_false',
+      question: 'This offline lesson was written by a live AI model.',
+      answer: false,
+      explanation: 'Offline mode uses canned content so the app works without a network connection.'
+    },
+    {
+      id: 4,
+      type: 'ordering',
+      question: 'Put the steps of studying a topic in order.',
+      items: ['Upload a PDF', 'Watch the lesson', 'Take the quiz', 'Review flashcards'],
+      explanation: 'Each topic builds on the document, and its quiz unlocks flashcards for review.'
+    },
+    {
+      id: 5,
+      type: 'cloze',
+      question: 'Each lesson ends with a short ___ that checks your ___.',
+      blanks: [['quiz', 'test'], ['understanding', 'knowledge']],
+      explanation: 'Passing the quiz completes the topic.'
+    },
+    {
+      id: 6,
+      type: 'short_answer',
+      question: `In your own words, why take a quiz after the lesson on "${topicTitle}"?`,
+      rubric: [
+        { description: 'Mentions checking understanding', points: 2 },
+        { description: 'Mentions remembering the material', points: 1 }
+      ],
+      modelAnswer: 'A quiz checks what I understood and helps me remember the material.',
+      explanation: 'Recalling what you learned is one of the best ways to remember it.'
+    }
+  ];
+};
+
+// Words that carry meaning in a rubric criterion, for the offline grader
+const criterionKeywords = (description: string): string[] => {
+  return normalizeAnswer(description).split(/[^\p{L}\p{N}]+/u).filter(word => word.length > 4);
+};
+
+/**
+ * Offline grading: a criterion earns its points when the answer uses a word from it
+ * (or one sharing its first five letters), so "remember" matches "remembering".
+ */
+export const gradeShortAnswer = async (question: ShortAnswerQuestion, answer: string, _preferences: LearningPreferences, options: GenerationOptions = {}): Promise<ShortAnswerGrade> => {
+  await abortableDelay(SIMULATED_LATENCY_MS, options.signal);
+
+  const stems = new Set(criterionKeywords(answer).map(word => word.slice(0, 5)));
+  const awarded = question.rubric.map(criterion =>
+    criterionKeywords(criterion.description).some(word => stems.has(word.slice(0, 5))) ? criterion.points : 0
+  );
+  return {
+    awarded,
+    feedback: 'Graded offline by matching keywords from the rubric. Compare your answer with the model answer.'
+  };
+};
+
+export const askTutor = async (question: string, _history: ChatMessage[], topicTitle: string, pages: DocumentPage[], tutor: TutorProfile, _preferences: LearningPreferences, options: GenerationOptions = {}): Promise<TutorAnswer> => {
+  await abortableDelay(SIMULATED_LATENCY_MS, options.signal);
+
+  const page = pages[0]?.pageNumber;
+  return {
+    answer: `Good question! I'm ${tutor.name}, running offline, so I can't really answer "${question}" right now. `
+      + `For ${topicTitle}, the best place to look is the document itself${page ? `, starting on page ${page} (p. ${page})` : ''}.`,
+    pages: page ? [page] : [],
+  };
+};
+
+export const localProvider: ContentProvider = {
+  name: 'local',
+  analyzePdfStructure,
+  generateLessonContent,
+  generateLessonImage,
+  generateLessonAudio,
+  generateDialogueAudio,
+  generateQuiz,
+  gradeShortAnswer,
+  askTutor,
+};
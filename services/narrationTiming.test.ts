@@ -0,0 +1,42 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { alignWords, detectSpeechSegments, findWordAt } from "./narrationTiming";
+
+const SAMPLE_RATE = 1000;
+
+// One second of tone, half a second of silence, one second of tone
+const speechWithPause = () => {
+  const samples = new Float32Array(SAMPLE_RATE * 2.5);
+  samples.forEach((_, i) => {
+    const t = i / SAMPLE_RATE;
+    samples[i] = t < 1 || t >= 1.5 ? Math.sin(i) * 0.5 : 0;
+  });
+  return samples;
+};
+
+test("pauses split the audio into speech segments", () => {
+  const segments = detectSpeechSegments(speechWithPause(), SAMPLE_RATE);
+  assert.equal(segments.length, 2);
+  assert.ok(Math.abs(segments[0].start) < 0.02 && Math.abs(segments[0].end - 1) < 0.02);
+  assert.ok(Math.abs(segments[1].start - 1.5) < 0.02 && Math.abs(segments[1].end - 2.5) < 0.02);
+});
+
+test("words are spread over the speech by length and never start inside a pause", () => {
+  const segments = [{ start: 0, end: 1 }, { start: 1.5, end: 2.5 }];
+  const timings = alignWords(['one', 'two', 'three', 'four'], segments);
+  assert.equal(timings.length, 4);
+  assert.ok(timings.every((time, idx) => idx === 0 || time > timings[idx - 1]));
+  assert.ok(timings.every(time => time < 1 || time >= 1.5));
+
+  // A longer word takes longer to say
+  const [first, second, third] = alignWords(['a', 'longer', 'b'], [{ start: 0, end: 1 }]);
+  assert.ok(third - second > second - first);
+});
+
+test("the current word is the last one that started", () => {
+  const timings = [0, 0.4, 0.9, 1.6];
+  assert.equal(findWordAt(timings, 0), 0);
+  assert.equal(findWordAt(timings, 0.95), 2);
+  assert.equal(findWordAt(timings, 10), 3);
+  assert.equal(findWordAt(timings, -1), -1);
+});
@@ -0,0 +1,125 @@
+import { readWavSamples } from "./audioUtils";
+import { tokenizeNarration } from "./richText";
+
+/**
+ * Word-level timing for the narration, used for the karaoke transcript and seeking.
+ * TTS gives us no timestamps, so pauses are found in the audio itself: words are
+ * spread over the stretches where the tutor is actually speaking, weighted by
+ * their length, and never placed inside a pause.
+ */
+
+// Loudness is measured in frames of this length
+const FRAME_SECONDS = 0.01;
+// Silence shorter than this is part of normal speech (between syllables and words)
+const MIN_PAUSE_SECONDS = 0.12;
+// A frame is silent below this share of the loud (95th percentile) level
+const SILENCE_RATIO = 0.1;
+const MIN_SILENCE_LEVEL = 0.005;
+
+interface Segment {
+  start: number;
+  end: number;
+}
+
+/**
+ * Splits audio into the stretches that contain speech.
+ */
+export const detectSpeechSegments = (samples: Float32Array, sampleRate: number): Segment[] => {
+  const frameSize = Math.max(1, Math.round(sampleRate * FRAME_SECONDS));
+  const levels: number[] = [];
+  for (let start = 0; start < samples.length; start += frameSize) {
+    const end = Math.min(samples.length, start + frameSize);
+    let sum = 0;
+    for (let i = start; i < end; i++) sum += samples[i] * samples[i];
+    levels.push(Math.sqrt(sum / (end - start)));
+  }
+  if (levels.length === 0) return [];
+
+  const loud = [...levels].sort((a, b) => a - b)[Math.floor(levels.length * 0.95)];
+  const threshold = Math.max(MIN_SILENCE_LEVEL, loud * SILENCE_RATIO);
+  const minPauseFrames = Math.ceil(MIN_PAUSE_SECONDS / FRAME_SECONDS);
+
+  const segments: Segment[] = [];
+  let speechStart = -1;
+  let silentRun = 0;
+  levels.forEach((level, idx) => {
+    if (level >= threshold) {
+      if (speechStart === -1) speechStart = idx;
+      silentRun = 0;
+    } else if (speechStart !== -1 && ++silentRun >= minPauseFrames) {
+      segments.push({ start: speechStart * FRAME_SECONDS, end: (idx - silentRun + 1) * FRAME_SECONDS });
+      speechStart = -1;
+      silentRun = 0;
+    }
+  });
+  if (speechStart !== -1) {
+    segments.push({ start: speechStart * FRAME_SECONDS, end: (levels.length - silentRun) * FRAME_SECONDS });
+  }
+  return segments;
+};
+
+/**
+ * Start time (seconds) of every word, spreading words over the speech segments
+ * in proportion to their length.
+ */
+export const alignWords = (words: string[], segments: Segment[]): number[] => {
+  const weights = words.map(w => w.replace(/[^\p{L}\p{N}]/gu, '').length + 1);
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0) || 1;
+  const speechTime = segments.reduce((sum, s) => sum + (s.end - s.start), 0);
+
+  // Maps a position on the speech-only timeline back to audio time, skipping pauses
+  const toAudioTime = (speechOffset: number): number => {
+    let remaining = speechOffset;
+    for (const segment of segments) {
+      const length = segment.end - segment.start;
+      if (remaining < length) return segment.start + remaining;
+      remaining -= length;
+    }
+    return segments.length > 0 ? segments[segments.length - 1].end : 0;
+  };
+
+  let before = 0;
+  return weights.map(weight => {
+    // Nudge by a tiny amount so a word that starts exactly at a pause lands after it
+    const start = toAudioTime((before / totalWeight) * speechTime + 1e-6);
+    before += weight;
+    return start;
+  });
+};
+
+/**
+ * Start time (seconds) of every word of `script` in the narration audio.
+ * Words are counted the same way as the transcript, and weighted by how they are spoken,
+ * so a formula takes as long as its reading.
+ * Returns null when the audio can't be analyzed; callers then fall back to linear progress.
+ */
+export const computeWordTimings = async (audio: Blob, script: string): Promise<number[] | null> => {
+  const words = tokenizeNarration(script).map(token => token.speech);
+  if (words.length === 0) return null;
+
+  const wav = readWavSamples(await audio.arrayBuffer());
+  if (!wav) return null;
+
+  const segments = detectSpeechSegments(wav.samples, wav.sampleRate);
+  if (segments.length === 0) return null;
+  return alignWords(words, segments);
+};
+
+/**
+ * Index of the word being spoken at `time`: the last word that started at or before it.
+ */
+export const findWordAt = (timings: number[], time: number): number => {
+  let low = 0;
+  let high = timings.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (timings[mid] <= time) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return found;
+};
@@ -0,0 +1,67 @@
+import { CourseStructure, TranscriptNote } from "../types";
+import { NarrationToken } from "./richText";
+
+/**
+ * Transcript notes: passages of a lesson script the learner highlighted, optionally with a note.
+ * A note is anchored by character offset in the lesson script, and keeps its quote so it can be
+ * found again when the lesson is regenerated with a slightly different script.
+ */
+
+/**
+ * The anchor of the passage from word `first` to word `last` (inclusive), given the
+ * transcript words of `script`.
+ */
+export const getPassageAnchor = (script: string, words: NarrationToken[], first: number, last: number): Pick<TranscriptNote, 'offset' | 'length' | 'quote'> => {
+  const offset = words[first].start;
+  const end = words[last].end;
+  return { offset, length: end - offset, quote: script.slice(offset, end) };
+};
+
+/**
+ * The [first, last] words a note covers in `script`. The stored offset is used while the
+ * quote is still there; otherwise the quote is searched for. Null when it is gone.
+ */
+export const findNoteWords = (script: string, words: NarrationToken[], note: TranscriptNote): [number, number] | null => {
+  let offset = note.offset;
+  if (script.slice(offset, offset + note.length) !== note.quote) {
+    offset = script.indexOf(note.quote);
+    if (offset === -1) return null;
+  }
+  const end = offset + note.quote.length;
+  const first = words.findIndex(word => word.start >= offset);
+  if (first === -1) return null;
+  let last = first;
+  while (last + 1 < words.length && words[last + 1].start < end) last++;
+  return [first, last];
+};
+
+export const formatTimestamp = (seconds: number): string => {
+  const total = Math.max(0, Math.floor(seconds));
+  return `${Math.floor(total / 60)}:${(total % 60).toString().padStart(2, '0')}`;
+};
+
+/**
+ * Notes in course order: by chapter and topic, then by position in the lesson.
+ */
+export const sortNotes = (notes: TranscriptNote[], structure: CourseStructure | null): TranscriptNote[] => {
+  const topicOrder = new Map<string, number>((structure?.chapters.flatMap(ch => ch.topics) ?? []).map((t, idx) => [t.id, idx]));
+  const rank = (note: TranscriptNote) => topicOrder.get(note.topicId) ?? Number.MAX_SAFE_INTEGER;
+  return [...notes].sort((a, b) => rank(a) - rank(b) || a.time - b.time || a.createdAt.localeCompare(b.createdAt));
+};
+
+/**
+ * All notes of a course as a Markdown document, one section per topic.
+ */
+export const notesToMarkdown = (notes: TranscriptNote[], structure: CourseStructure | null): string => {
+  const lines = [structure ? `# My notes: ${structure.title}` : '# My notes', ''];
+  let topicId: string | null = null;
+  for (const note of sortNotes(notes, structure)) {
+    if (note.topicId !== topicId) {
+      topicId = note.topicId;
+      lines.push(`## ${note.topicTitle}`, '');
+    }
+    lines.push(`> ${note.quote.replace(/\s*\n\s*/g, ' ')}`, '', `_${formatTimestamp(note.time)}_`, '');
+    if (note.note.trim()) lines.push(note.note.trim(), '');
+  }
+  return lines.join('\n');
+};
@@ -0,0 +1,76 @@
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { DocumentPage } from "../types";
+import { createAbortError, throwIfAborted } from "./abort";
+
+/**
+ * On-device OCR for scanned, image-only PDF pages.
+ * Pages are rendered with pdf.js and recognized by Tesseract (WASM) in a web worker.
+ * Tesseract is loaded on demand, so text-based PDFs never download it.
+ */
+
+// Pages with less extracted text than this are treated as scans
+export const MIN_TEXT_LAYER_CHARS = 20;
+
+// Render scale for recognition; roughly 150-200 DPI for common page sizes
+const OCR_RENDER_SCALE = 2;
+
+const OCR_LANGUAGE = 'eng';
+
+/**
+ * Pages whose text layer is missing or too thin to be the real content.
+ */
+export const findPagesWithoutText = (pages: DocumentPage[]): number[] => {
+  return pages.filter(p => p.text.replace(/\s+/g, '').length < MIN_TEXT_LAYER_CHARS).map(p => p.pageNumber);
+};
+
+const renderPage = async (pdf: PDFDocumentProxy, pageNumber: number): Promise<HTMLCanvasElement> => {
+  const page = await pdf.getPage(pageNumber);
+  const viewport = page.getViewport({ scale: OCR_RENDER_SCALE });
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(viewport.width);
+  canvas.height = Math.ceil(viewport.height);
+  await page.render({ canvasContext: canvas.getContext('2d')!, viewport }).promise;
+  page.cleanup();
+  return canvas;
+};
+
+/**
+ * Recognizes the text of `pageNumbers` and returns them as OCR pages.
+ * Aborting terminates the worker immediately.
+ */
+export const recognizePages = async (
+  pdf: PDFDocumentProxy,
+  pageNumbers: number[],
+  onProgress?: (done: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<DocumentPage[]> => {
+  throwIfAborted(signal);
+  const { createWorker } = await import('tesseract.js');
+  const worker = await createWorker(OCR_LANGUAGE);
+
+  let aborted = false;
+  const onAbort = () => {
+    aborted = true;
+    worker.terminate();
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  const pages: DocumentPage[] = [];
+  try {
+    for (const pageNumber of pageNumbers) {
+      throwIfAborted(signal);
+      const canvas = await renderPage(pdf, pageNumber);
+      const { data } = await worker.recognize(canvas);
+      pages.push({ pageNumber, text: data.text.replace(/[ \t]+/g, ' ').replace(/\n\s*\n+/g, '\n').trim(), source: 'ocr' });
+      onProgress?.(pages.length, pageNumbers.length);
+    }
+  } catch (error) {
+    if (aborted) throw createAbortError();
+    throw error;
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+    if (!aborted) await worker.terminate();
+  }
+
+  return pages;
+};
@@ -0,0 +1,55 @@
+/**
+ * Offline support: the service worker that caches the app shell, durable storage
+ * for saved lessons and quizzes, and media kept inside the lessons themselves.
+ */
+
+/**
+ * Registers public/sw.js in production builds. In development the shell changes
+ * on every edit, so nothing is cached.
+ */
+export const registerServiceWorker = () => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register(`${import.meta.env.BASE_URL}sw.js`).catch(e => {
+      console.warn("Service worker registration failed", e);
+    });
+  });
+};
+
+/**
+ * Asks the browser not to evict IndexedDB under storage pressure, so saved lessons,
+ * quizzes and documents are still there when the learner is offline.
+ * Resolves to whether storage is persistent; browsers may decline or ask the learner.
+ */
+export const requestPersistentStorage = async (): Promise<boolean> => {
+  if (!navigator.storage?.persist) return false;
+  try {
+    return (await navigator.storage.persisted()) || (await navigator.storage.persist());
+  } catch (e) {
+    console.warn("Persistent storage request failed", e);
+    return false;
+  }
+};
+
+/**
+ * Turns a remote image URL into a data URL, so a lesson saved with it renders offline.
+ * Data URLs are returned as they are; an image that can't be fetched keeps its URL.
+ */
+export const inlineImage = async (url: string, signal?: AbortSignal): Promise<string> => {
+  if (url.startsWith('data:')) return url;
+  try {
+    const response = await fetch(url, { signal });
+    if (!response.ok) return url;
+    const blob = await response.blob();
+    return await new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(blob);
+    });
+  } catch (e) {
+    if (signal?.aborted) throw e;
+    console.warn("Could not store image for offline use", e);
+    return url;
+  }
+};
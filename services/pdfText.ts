@@ -0,0 +1,112 @@
+import * as pdfjs from 'pdfjs-dist';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import { DocumentPage } from "../types";
+import { throwIfAborted } from "./abort";
+import { UnreadablePdfError } from "./errors";
+import { findPagesWithoutText, recognizePages } from "./ocr";
+import { findQuoteRange } from "./citations";
+
+/**
+ * In-browser PDF text extraction with pdf.js.
+ * Lets large books be sent to the model page by page instead of as one huge upload.
+ */
+
+/** A rectangle on a rendered page, in the viewport's CSS pixels. */
+export interface PageRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export interface ExtractionProgress {
+  /** "text" while reading text layers, "ocr" while recognizing scanned pages. */
+  stage: 'text' | 'ocr';
+  done: number;
+  total: number;
+}
+
+pdfjs.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+export const loadPdf = async (data: ArrayBuffer): Promise<pdfjs.PDFDocumentProxy> => {
+  try {
+    // pdf.js takes ownership of the buffer it is given, so hand it a copy
+    return await pdfjs.getDocument({ data: new Uint8Array(data.slice(0)) }).promise;
+  } catch (error) {
+    throw new UnreadablePdfError({ cause: error });
+  }
+};
+
+/**
+ * Extracts the text layer of every page, then runs scanned pages
+ * (no usable text layer) through on-device OCR.
+ */
+export const extractPdfPages = async (
+  data: ArrayBuffer,
+  onProgress?: (progress: ExtractionProgress) => void,
+  signal?: AbortSignal
+): Promise<DocumentPage[]> => {
+  const pdf = await loadPdf(data);
+  const pages: DocumentPage[] = [];
+
+  try {
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      throwIfAborted(signal);
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      const text = content.items
+        .map(item => ('str' in item ? item.str + (item.hasEOL ? '\n' : ' ') : ''))
+        .join('')
+        .replace(/[ \t]+/g, ' ')
+        .replace(/\n\s*\n+/g, '\n')
+        .trim();
+      pages.push({ pageNumber, text, source: 'text' });
+      page.cleanup();
+      onProgress?.({ stage: 'text', done: pageNumber, total: pdf.numPages });
+    }
+
+    const scanned = findPagesWithoutText(pages);
+    if (scanned.length > 0) {
+      const recognized = await recognizePages(pdf, scanned, (done, total) => onProgress?.({ stage: 'ocr', done, total }), signal);
+      for (const page of recognized) {
+        pages[page.pageNumber - 1] = page;
+      }
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  return pages;
+};
+
+/**
+ * Locates a quote in a page's text layer and returns the rectangles covering it.
+ * Items are joined the same way as during extraction, so quotes verified against
+ * the extracted text are found here too. Empty when the quote is not on the page.
+ */
+export const getQuoteRects = async (page: pdfjs.PDFPageProxy, viewport: pdfjs.PageViewport, quote: string): Promise<PageRect[]> => {
+  const content = await page.getTextContent();
+  let text = '';
+  const items: { start: number; str: string; transform: number[]; width: number }[] = [];
+  for (const item of content.items) {
+    if (!('str' in item)) continue;
+    items.push({ start: text.length, str: item.str, transform: item.transform, width: item.width });
+    text += item.str + (item.hasEOL ? '\n' : ' ');
+  }
+
+  const range = findQuoteRange(text, quote);
+  if (!range) return [];
+  const [start, end] = range;
+
+  return items
+    .filter(item => item.str.length > 0 && item.start < end && item.start + item.str.length > start)
+    .map(item => {
+      const [, , c, d, x, y] = pdfjs.Util.transform(viewport.transform, item.transform);
+      const height = Math.hypot(c, d);
+      const width = item.width * viewport.scale;
+      // Items only partly inside the quote are cut proportionally to their characters
+      const from = Math.max(0, start - item.start) / item.str.length;
+      const to = Math.min(item.str.length, end - item.start) / item.str.length;
+      return { left: x + width * from, top: y - height, width: width * (to - from), height };
+    });
+};
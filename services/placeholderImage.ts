@@ -0,0 +1,58 @@
+import { hashString } from "./hash";
+
+/**
+ * Placeholder visuals: shown by the offline provider, and by Gemini when image generation fails.
+ */
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Splits a long title into at most `maxLines` lines for the SVG placeholder.
+ */
+function wrapText(text: string, maxChars: number, maxLines: number): string[] {
+  const lines: string[] = [];
+  let current = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if ((current + ' ' + word).trim().length > maxChars && current) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = (current + ' ' + word).trim();
+    }
+  }
+  if (current) lines.push(current);
+  return lines.slice(0, maxLines);
+}
+
+/**
+ * An SVG placeholder that shows the visual prompt's subject, as a data URL,
+ * so it is stored with the lesson and shown offline like a generated image.
+ */
+export const createPlaceholderImage = (prompt: string, label = 'Offline preview'): string => {
+  const hue = hashString(prompt) % 360;
+  const subject = prompt.match(/"([^"]+)"/)?.[1] || prompt;
+  const lines = wrapText(subject, 28, 3);
+
+  const text = lines
+    .map((line, idx) => `<text x="400" y="${210 + idx * 44 - (lines.length - 1) * 22}" font-size="36" font-family="sans-serif" font-weight="bold" fill="#ffffff" text-anchor="middle">${escapeXml(line)}</text>`)
+    .join('');
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="800" height="450" viewBox="0 0 800 450">` +
+    `<defs><linearGradient id="bg" x1="0" y1="0" x2="1" y2="1">` +
+    `<stop offset="0" stop-color="hsl(${hue},60%,25%)"/><stop offset="1" stop-color="hsl(${(hue + 60) % 360},60%,12%)"/>` +
+    `</linearGradient></defs>` +
+    `<rect width="800" height="450" fill="url(#bg)"/>` +
+    `<circle cx="660" cy="110" r="70" fill="hsla(${hue},80%,70%,0.15)"/>` +
+    `<circle cx="130" cy="360" r="110" fill="hsla(${(hue + 60) % 360},80%,70%,0.1)"/>` +
+    text +
+    `<text x="400" y="400" font-size="16" font-family="sans-serif" fill="#cbd5e1" text-anchor="middle">${escapeXml(label)}</text>` +
+    `</svg>`;
+
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+};
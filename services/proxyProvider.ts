@@ -0,0 +1,114 @@
+import { ChatMessage, CourseStructure, DialogueTurn, DocumentPage, LearningPreferences, LessonContent, LessonSpeaker, QuizQuestion, ShortAnswerGrade, ShortAnswerQuestion, TutorAnswer, TutorProfile, UsageRecord } from "../types";
+import type { ContentProvider, GenerationOptions } from "./contentProvider";
+import { isAbortError } from "./abort";
+import { ANALYSIS_CHAR_BUDGET, TOPIC_CHAR_BUDGET, fitPagesToBudget } from "./documentPages";
+import { NetworkError, GenerationError, PayloadTooLargeError, deserializeError, isSerializedError } from "./errors";
+
+/**
+ * Client for the Ready2Learn API proxy (see server/index.ts).
+ * The proxy owns the Gemini key, so no secret ships in the app bundle.
+ * Pages are shortened to the model's text budget before sending, so request size
+ * doesn't grow with the PDF.
+ */
+
+// Empty means "same origin"; the Vite dev server forwards /api to the proxy
+const API_BASE_URL = process.env.API_BASE_URL || '';
+
+/**
+ * Forwards the usage the proxy reported for the model calls behind a response.
+ */
+const reportUsage = (response: Response, options: GenerationOptions) => {
+  const header = response.headers.get('X-Usage');
+  if (!header || !options.onUsage) return;
+  try {
+    (JSON.parse(header) as UsageRecord[]).forEach(options.onUsage);
+  } catch (e) {
+    console.warn("Ignoring malformed usage header", e);
+  }
+};
+
+const post = async (path: string, body: unknown, options: GenerationOptions): Promise<Response> => {
+  let response: Response;
+  try {
+    response = await fetch(`${API_BASE_URL}/api/${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(options.profileId ? { 'X-Profile-Id': options.profileId } : {}),
+      },
+      body: JSON.stringify(body),
+      signal: options.signal,
+    });
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    throw new NetworkError({ cause: error });
+  }
+
+  if (!response.ok) {
+    let payload: unknown = null;
+    try {
+      payload = await response.json();
+    } catch {
+      // Not one of our error responses (e.g. a proxy or gateway page)
+    }
+    reportUsage(response, options);
+    const error = typeof payload === 'object' && payload !== null ? (payload as { error?: unknown }).error : undefined;
+    if (isSerializedError(error)) throw deserializeError(error);
+    if (response.status === 413) throw new PayloadTooLargeError();
+    throw new GenerationError('unknown', `The API server responded with ${response.status}.`, response.status >= 500);
+  }
+  reportUsage(response, options);
+  return response;
+};
+
+const postJson = async <T>(path: string, body: unknown, options: GenerationOptions): Promise<T> => {
+  const response = await post(path, body, options);
+  return response.json();
+};
+
+export const analyzePdfStructure = (pages: DocumentPage[], language: string, options: GenerationOptions = {}): Promise<CourseStructure> => {
+  return postJson('analyze', { pages: fitPagesToBudget(pages, ANALYSIS_CHAR_BUDGET), language }, options);
+};
+
+export const generateLessonContent = (topicTitle: string, pages: DocumentPage[], tutor: TutorProfile, preferences: LearningPreferences, options: GenerationOptions = {}): Promise<LessonContent> => {
+  return postJson('lesson', { topicTitle, pages: fitPagesToBudget(pages, TOPIC_CHAR_BUDGET), tutor, preferences }, options);
+};
+
+export const generateLessonImage = async (prompt: string, options: GenerationOptions = {}): Promise<string> => {
+  const { imageUrl } = await postJson<{ imageUrl: string }>('image', { prompt }, options);
+  return imageUrl;
+};
+
+export const generateLessonAudio = async (text: string, tutor: TutorProfile, options: GenerationOptions = {}): Promise<Blob> => {
+  const response = await post('audio', { text, tutor }, options);
+  return response.blob();
+};
+
+export const generateDialogueAudio = async (turns: DialogueTurn[], speakers: LessonSpeaker[], options: GenerationOptions = {}): Promise<Blob> => {
+  const response = await post('dialogue-audio', { turns, speakers }, options);
+  return response.blob();
+};
+
+export const generateQuiz = (topicTitle: string, pages: DocumentPage[], preferences: LearningPreferences, options: GenerationOptions = {}): Promise<QuizQuestion[]> => {
+  return postJson('quiz', { topicTitle, pages: fitPagesToBudget(pages, TOPIC_CHAR_BUDGET), preferences }, options);
+};
+
+export const gradeShortAnswer = (question: ShortAnswerQuestion, answer: string, preferences: LearningPreferences, options: GenerationOptions = {}): Promise<ShortAnswerGrade> => {
+  return postJson('grade', { question, answer, preferences }, options);
+};
+
+export const askTutor = (question: string, history: ChatMessage[], topicTitle: string, pages: DocumentPage[], tutor: TutorProfile, preferences: LearningPreferences, options: GenerationOptions = {}): Promise<TutorAnswer> => {
+  return postJson('ask', { question, history, topicTitle, pages: fitPagesToBudget(pages, TOPIC_CHAR_BUDGET), tutor, preferences }, options);
+};
+
+export const proxyProvider: ContentProvider = {
+  name: 'proxy',
+  analyzePdfStructure,
+  generateLessonContent,
+  generateLessonImage,
+  generateLessonAudio,
+  generateDialogueAudio,
+  generateQuiz,
+  gradeShortAnswer,
+  askTutor,
+};
@@ -0,0 +1,64 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createShuffledOrder, getQuizLabels, isAcceptedBlank, scoreResponse, scoreShortAnswer } from "./quiz";
+import { LESSON_LANGUAGES } from "./learningPreferences";
+import type { ClozeQuestion, MultiSelectQuestion, OrderingQuestion, ShortAnswerQuestion } from "../types";
+
+const base = { id: 1, explanation: '' };
+
+test("single choice and true/false score all or nothing", () => {
+  const single = { ...base, type: 'single' as const, question: 'Q', options: ['A', 'B'], correctOptionIndex: 1 };
+  assert.equal(scoreResponse(single, { type: 'single', option: 1 }), 1);
+  assert.equal(scoreResponse(single, { type: 'single', option: 0 }), 0);
+  const trueFalse = { ...base, type: 'true_false' as const, question: 'Q', answer: false };
+  assert.equal(scoreResponse(trueFalse, { type: 'true_false', value: false }), 1);
+  assert.equal(scoreResponse(trueFalse, { type: 'single', option: 1 }), 0);
+});
+
+test("multi-select takes a correct pick back for every wrong one", () => {
+  const question: MultiSelectQuestion = { ...base, type: 'multiple', question: 'Q', options: ['A', 'B', 'C', 'D'], correctOptionIndices: [0, 2] };
+  assert.equal(scoreResponse(question, { type: 'multiple', options: [0, 2] }), 1);
+  assert.equal(scoreResponse(question, { type: 'multiple', options: [0] }), 0.5);
+  assert.equal(scoreResponse(question, { type: 'multiple', options: [0, 1] }), 0);
+  assert.equal(scoreResponse(question, { type: 'multiple', options: [1, 3] }), 0);
+});
+
+test("ordering and cloze earn the share they got right", () => {
+  const ordering: OrderingQuestion = { ...base, type: 'ordering', question: 'Q', items: ['a', 'b', 'c', 'd'] };
+  assert.equal(scoreResponse(ordering, { type: 'ordering', order: [0, 1, 3, 2] }), 0.5);
+  const cloze: ClozeQuestion = { ...base, type: 'cloze', question: '___ and ___', blanks: [['Mitochondria'], ['ATP', 'adenosine triphosphate']] };
+  assert.equal(scoreResponse(cloze, { type: 'cloze', blanks: [' mitochondria.', 'Adenosine Triphosphate'] }), 1);
+  assert.equal(scoreResponse(cloze, { type: 'cloze', blanks: ['ribosome', ''] }), 0);
+  assert.equal(isAcceptedBlank('Éléphant', ['elephant']), true);
+  assert.equal(isAcceptedBlank('   ', ['']), false);
+});
+
+test("a short answer scores the awarded rubric points out of the total", () => {
+  const question: ShortAnswerQuestion = {
+    ...base,
+    type: 'short_answer',
+    question: 'Q',
+    rubric: [{ description: 'a', points: 2 }, { description: 'b', points: 3 }],
+    modelAnswer: 'M',
+  };
+  assert.equal(scoreShortAnswer(question, { awarded: [2, 1], feedback: '' }), 0.6);
+  assert.equal(scoreShortAnswer(question, { awarded: [2, 3, 4], feedback: '' }), 1);
+});
+
+test("a shuffled order is never already the correct one", () => {
+  // A random source that would leave the items in place
+  const keepInPlace = () => 0.999;
+  let calls = 0;
+  const order = createShuffledOrder(3, () => (calls++ < 2 ? keepInPlace() : 0));
+  assert.notDeepEqual(order, [0, 1, 2]);
+  assert.deepEqual([...order].sort(), [0, 1, 2]);
+});
+
+test("quiz labels exist for every lesson language", () => {
+  for (const language of LESSON_LANGUAGES) {
+    const labels = getQuizLabels(language.code);
+    assert.ok(language.code === 'en' || labels !== getQuizLabels('en'), language.code);
+    assert.equal(Object.keys(labels.types).length, 6);
+  }
+  assert.equal(getQuizLabels('xx').true, 'True');
+});
@@ -0,0 +1,200 @@
+import { ClozeQuestion, QuizQuestion, ShortAnswerGrade, ShortAnswerQuestion, SingleChoiceQuestion } from "../types";
+
+/**
+ * Quiz question types: how answers are scored and how the correct answer is put into words.
+ * Every question scores between 0 and 1, so partly right answers earn partial credit.
+ * Short answers are graded by the model against their rubric; everything else here.
+ */
+
+/** What the learner answered, per question type. */
+export type QuizResponse =
+  | { type: 'single'; option: number }
+  | { type: 'multiple'; options: number[] }
+  | { type: 'true_false'; value: boolean }
+  | { type: 'ordering'; order: number[] } // indices into the question's items, as the learner ordered them
+  | { type: 'cloze'; blanks: string[] }
+  | { type: 'short_answer'; text: string };
+
+/** Words the quiz shows around the generated questions, in the quiz's language. */
+export interface QuizLabels {
+  types: Record<QuizQuestion['type'], string>;
+  true: string;
+  false: string;
+}
+
+// One entry per lesson language (see LESSON_LANGUAGES)
+const QUIZ_LABELS: Record<string, QuizLabels> = {
+  en: {
+    types: { single: 'Multiple choice', multiple: 'Select all that apply', true_false: 'True or false', ordering: 'Put in order', cloze: 'Fill in the blanks', short_answer: 'Short answer' },
+    true: 'True',
+    false: 'False',
+  },
+  fr: {
+    types: { single: 'Choix multiple', multiple: 'Plusieurs réponses possibles', true_false: 'Vrai ou faux', ordering: 'Remettre dans l’ordre', cloze: 'Texte à trous', short_answer: 'Réponse courte' },
+    true: 'Vrai',
+    false: 'Faux',
+  },
+  es: {
+    types: { single: 'Opción múltiple', multiple: 'Selecciona todas las correctas', true_false: 'Verdadero o falso', ordering: 'Ordena los elementos', cloze: 'Completa los espacios', short_answer: 'Respuesta corta' },
+    true: 'Verdadero',
+    false: 'Falso',
+  },
+  pt: {
+    types: { single: 'Escolha múltipla', multiple: 'Selecione todas as corretas', true_false: 'Verdadeiro ou falso', ordering: 'Coloque em ordem', cloze: 'Preencha as lacunas', short_answer: 'Resposta curta' },
+    true: 'Verdadeiro',
+    false: 'Falso',
+  },
+  de: {
+    types: { single: 'Multiple Choice', multiple: 'Alle zutreffenden auswählen', true_false: 'Richtig oder falsch', ordering: 'In die richtige Reihenfolge bringen', cloze: 'Lückentext', short_answer: 'Kurze Antwort' },
+    true: 'Richtig',
+    false: 'Falsch',
+  },
+  sw: {
+    types: { single: 'Chaguo moja', multiple: 'Chagua zote zinazofaa', true_false: 'Kweli au si kweli', ordering: 'Panga kwa mpangilio', cloze: 'Jaza nafasi zilizo wazi', short_answer: 'Jibu fupi' },
+    true: 'Kweli',
+    false: 'Si kweli',
+  },
+  hi: {
+    types: { single: 'बहुविकल्पीय', multiple: 'सभी सही विकल्प चुनें', true_false: 'सही या गलत', ordering: 'सही क्रम में लगाएँ', cloze: 'रिक्त स्थान भरें', short_answer: 'लघु उत्तर' },
+    true: 'सही',
+    false: 'गलत',
+  },
+  bn: {
+    types: { single: 'বহুনির্বাচনী', multiple: 'সব সঠিক উত্তর বেছে নিন', true_false: 'সত্য না মিথ্যা', ordering: 'সঠিক ক্রমে সাজাও', cloze: 'শূন্যস্থান পূরণ করো', short_answer: 'সংক্ষিপ্ত উত্তর' },
+    true: 'সত্য',
+    false: 'মিথ্যা',
+  },
+  ar: {
+    types: { single: 'اختيار من متعدد', multiple: 'اختر كل الإجابات الصحيحة', true_false: 'صح أم خطأ', ordering: 'رتّب العناصر', cloze: 'املأ الفراغات', short_answer: 'إجابة قصيرة' },
+    true: 'صح',
+    false: 'خطأ',
+  },
+  id: {
+    types: { single: 'Pilihan ganda', multiple: 'Pilih semua yang benar', true_false: 'Benar atau salah', ordering: 'Urutkan', cloze: 'Isi bagian yang kosong', short_answer: 'Jawaban singkat' },
+    true: 'Benar',
+    false: 'Salah',
+  },
+};
+
+export const getQuizLabels = (language: string | undefined): QuizLabels => {
+  return QUIZ_LABELS[language ?? 'en'] ?? QUIZ_LABELS.en;
+};
+
+/** The most a short-answer rubric criterion is worth; the quiz prompt and its validation share it. */
+export const MAX_RUBRIC_POINTS = 3;
+
+// A blank in a cloze question: three or more underscores
+const CLOZE_BLANK = /_{3,}/g;
+
+/** The text around a cloze question's blanks; there is one blank between each two parts. */
+export const splitCloze = (question: string): string[] => question.split(CLOZE_BLANK);
+
+export const countBlanks = (question: string): number => splitCloze(question).length - 1;
+
+/**
+ * Compares typed answers leniently: case, accents, surrounding punctuation and spacing don't matter.
+ */
+export const normalizeAnswer = (text: string): string => {
+  return text
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .replace(/^[\s\p{P}]+|[\s\p{P}]+$/gu, '');
+};
+
+export const isAcceptedBlank = (typed: string, accepted: string[]): boolean => {
+  const answer = normalizeAnswer(typed);
+  return !!answer && accepted.some(a => normalizeAnswer(a) === answer);
+};
+
+/**
+ * Score (0-1) of an answer to any question but a short answer.
+ * Multi-select: each correct pick counts, each wrong pick takes one back.
+ * Ordering: the share of items in their right place. Cloze: the share of blanks filled correctly.
+ */
+export const scoreResponse = (question: Exclude<QuizQuestion, ShortAnswerQuestion>, response: QuizResponse): number => {
+  switch (question.type) {
+    case 'single':
+      return response.type === 'single' && response.option === question.correctOptionIndex ? 1 : 0;
+    case 'true_false':
+      return response.type === 'true_false' && response.value === question.answer ? 1 : 0;
+    case 'multiple': {
+      if (response.type !== 'multiple') return 0;
+      const hits = response.options.filter(o => question.correctOptionIndices.includes(o)).length;
+      const misses = response.options.length - hits;
+      return Math.max(0, (hits - misses) / question.correctOptionIndices.length);
+    }
+    case 'ordering': {
+      if (response.type !== 'ordering') return 0;
+      const inPlace = response.order.filter((item, position) => item === position).length;
+      return inPlace / question.items.length;
+    }
+    case 'cloze': {
+      if (response.type !== 'cloze') return 0;
+      const filled = question.blanks.filter((accepted, idx) => isAcceptedBlank(response.blanks[idx] ?? '', accepted)).length;
+      return filled / question.blanks.length;
+    }
+  }
+};
+
+/** Score (0-1) of a short answer: the rubric points awarded out of the points available. */
+export const scoreShortAnswer = (question: ShortAnswerQuestion, grade: ShortAnswerGrade): number => {
+  const total = question.rubric.reduce((sum, c) => sum + c.points, 0);
+  const awarded = grade.awarded.reduce((sum, points) => sum + points, 0);
+  return total > 0 ? Math.min(1, awarded / total) : 0;
+};
+
+/** A cloze question with its blanks filled in with the first accepted answer. */
+export const fillCloze = (question: ClozeQuestion): string => {
+  return splitCloze(question.question).reduce((text, part, idx) => text + (idx > 0 ? question.blanks[idx - 1]?.[0] ?? '' : '') + part, '');
+};
+
+/**
+ * The correct answer in words, e.g. for a flashcard.
+ */
+export const describeCorrectAnswer = (question: QuizQuestion): string => {
+  switch (question.type) {
+    case 'single':
+      return question.options[question.correctOptionIndex] ?? '';
+    case 'multiple':
+      return question.correctOptionIndices.map(idx => question.options[idx]).join('\n');
+    case 'true_false':
+      return question.answer ? 'True' : 'False';
+    case 'ordering':
+      return question.items.map((item, idx) => `${idx + 1}. ${item}`).join('\n');
+    case 'cloze':
+      return fillCloze(question);
+    case 'short_answer':
+      return question.modelAnswer;
+  }
+};
+
+/**
+ * A random order of `length` items that is never already the correct one.
+ */
+export const createShuffledOrder = (length: number, random = Math.random): number[] => {
+  const order = Array.from({ length }, (_, idx) => idx);
+  if (length < 2) return order;
+  do {
+    for (let i = length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [order[i], order[j]] = [order[j], order[i]];
+    }
+  } while (order.every((item, position) => item === position));
+  return order;
+};
+
+/** A quiz score for display: whole numbers as they are, partial credit to one decimal. */
+export const formatScore = (score: number): string => {
+  return Number.isInteger(score) ? String(score) : score.toFixed(1);
+};
+
+type LegacyQuizQuestion = Omit<SingleChoiceQuestion, 'type'> & { type?: undefined };
+
+/**
+ * Quizzes saved before there were question types only had single-answer multiple choice.
+ */
+export const upgradeLegacyQuiz = (questions: (QuizQuestion | LegacyQuizQuestion)[]): QuizQuestion[] => {
+  return questions.map(q => q.type === undefined ? { ...(q as LegacyQuizQuestion), type: 'single' } : q as QuizQuestion);
+};
@@ -0,0 +1,42 @@
+import { QuizQuestion } from "../types";
+import { QUIZ_STORE, runRequest } from "./db";
+import { upgradeLegacyQuiz } from "./quiz";
+
+/**
+ * The most recently generated quiz per topic and learner preferences, kept in
+ * IndexedDB so a topic can be quizzed again without a connection.
+ */
+
+export interface CachedQuiz {
+  questions: QuizQuestion[];
+  createdAt: string;
+}
+
+export const getCachedQuiz = async (key: string): Promise<CachedQuiz | null> => {
+  try {
+    const entry = await runRequest<CachedQuiz | undefined>(QUIZ_STORE, 'readonly', store => store.get(key));
+    return entry ? { ...entry, questions: upgradeLegacyQuiz(entry.questions) } : null;
+  } catch (e) {
+    console.warn("Quiz cache read failed", e);
+    return null;
+  }
+};
+
+export const putCachedQuiz = async (key: string, quiz: CachedQuiz): Promise<void> => {
+  try {
+    await runRequest(QUIZ_STORE, 'readwrite', store => store.put(quiz, key));
+  } catch (e) {
+    console.warn("Quiz cache write failed", e);
+  }
+};
+
+/**
+ * Removes every cached quiz of a document; quiz keys start with the PDF hash.
+ */
+export const deleteCachedQuizzesOf = async (pdfHash: string): Promise<void> => {
+  try {
+    await runRequest(QUIZ_STORE, 'readwrite', store => store.delete(IDBKeyRange.bound(`${pdfHash}:`, `${pdfHash}:\uffff`)));
+  } catch (e) {
+    console.warn("Quiz cache delete failed", e);
+  }
+};
@@ -0,0 +1,295 @@
+/**
+ * The markup generated text may contain: LaTeX math between `$...$` (inline) or `$$...$$`
+ * (display), and Markdown code, either `inline` or in ``` fenced blocks with an optional language.
+ * Everything else is plain text. The same scanner drives rendering, transcript words and speech.
+ */
+
+export type RichSegment =
+  | { type: 'text'; text: string }
+  | { type: 'math'; tex: string; display: boolean }
+  | { type: 'code'; code: string; language?: string; block: boolean };
+
+interface MarkupSpan {
+  start: number;
+  end: number;
+  segment: RichSegment;
+}
+
+/** One transcript word. Math and code count as a single word, however many spaces they contain. */
+export interface NarrationToken {
+  text: string;
+  start: number; // character offsets in the narration
+  end: number;
+  speech: string; // what the tutor says for it; empty for code blocks, which are not read aloud
+  block: boolean; // display math or a code block, shown on its own line
+}
+
+const FENCE = /^```[ \t]*([\w+#.-]*)[ \t]*\n([\s\S]*?)\n?^```[ \t]*$/m;
+
+/**
+ * Finds the markup spans of `text`, left to right. Delimiters without a partner are plain text,
+ * so "it costs $5 or $10" stays as it is: an opening `$` must be followed by a non-space and a
+ * closing one preceded by a non-space and not followed by a digit.
+ */
+const scanMarkup = (text: string): MarkupSpan[] => {
+  const spans: MarkupSpan[] = [];
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+    if (char === '\\' && text[i + 1] === '$') {
+      i += 2;
+      continue;
+    }
+
+    if (text.startsWith('```', i) && (i === 0 || text[i - 1] === '\n')) {
+      const match = FENCE.exec(text.slice(i));
+      if (match && match.index === 0) {
+        spans.push({ start: i, end: i + match[0].length, segment: { type: 'code', code: match[2], language: match[1] || undefined, block: true } });
+        i += match[0].length;
+        continue;
+      }
+    } else if (char === '`') {
+      const close = text.indexOf('`', i + 1);
+      if (close > i + 1 && !text.slice(i + 1, close).includes('\n')) {
+        spans.push({ start: i, end: close + 1, segment: { type: 'code', code: text.slice(i + 1, close), block: false } });
+        i = close + 1;
+        continue;
+      }
+    } else if (text.startsWith('$$', i)) {
+      const close = text.indexOf('$$', i + 2);
+      if (close > i + 2) {
+        spans.push({ start: i, end: close + 2, segment: { type: 'math', tex: text.slice(i + 2, close).trim(), display: true } });
+        i = close + 2;
+        continue;
+      }
+    } else if (char === '$' && text[i + 1] && !/\s/.test(text[i + 1])) {
+      // Only the next unescaped `$` can close; if it can't, this one is a literal dollar
+      let close = text.indexOf('$', i + 1);
+      while (close !== -1 && text[close - 1] === '\\') close = text.indexOf('$', close + 1);
+      if (close !== -1 && !text.slice(i + 1, close).includes('\n') && !/\s/.test(text[close - 1]) && !/\d/.test(text[close + 1] ?? '')) {
+        spans.push({ start: i, end: close + 1, segment: { type: 'math', tex: text.slice(i + 1, close), display: false } });
+        i = close + 1;
+        continue;
+      }
+    }
+    i++;
+  }
+  return spans;
+};
+
+const unescapeDollars = (text: string) => text.replace(/\\\$/g, '$');
+
+export const parseRichText = (text: string): RichSegment[] => {
+  const segments: RichSegment[] = [];
+  let at = 0;
+  for (const span of scanMarkup(text)) {
+    if (span.start > at) segments.push({ type: 'text', text: unescapeDollars(text.slice(at, span.start)) });
+    segments.push(span.segment);
+    at = span.end;
+  }
+  if (at < text.length) segments.push({ type: 'text', text: unescapeDollars(text.slice(at)) });
+  return segments;
+};
+
+/**
+ * `text` with its math and code blanked out by spaces, so offsets still match the original.
+ */
+export const maskMarkup = (text: string): string => {
+  let masked = text;
+  for (const span of scanMarkup(text)) {
+    masked = masked.slice(0, span.start) + ' '.repeat(span.end - span.start) + masked.slice(span.end);
+  }
+  return masked;
+};
+
+export const hasMarkup = (text: string): boolean => /[$`\\]/.test(text) && parseRichText(text).some(s => s.type !== 'text');
+
+/**
+ * Removes `$$` and ``` delimiters that have no partner, so a block left open by the model
+ * does not swallow the text after it (or the next scene, once scenes are joined into one script).
+ */
+export const closeOpenBlocks = (text: string): string => {
+  const spans = scanMarkup(text);
+  let result = '';
+  let at = 0;
+  const stripUnpaired = (plain: string) => plain.replace(/\$\$/g, '').replace(/^```.*$/gm, '');
+  for (const span of spans) {
+    result += stripUnpaired(text.slice(at, span.start)) + text.slice(span.start, span.end);
+    at = span.end;
+  }
+  return result + stripUnpaired(text.slice(at));
+};
+
+/**
+ * Prompt text defining the markup for the model. Narration is read aloud, so it gets
+ * extra guidance on keeping formulas speakable and describing code in words.
+ */
+export const describeMarkup = (target: 'narration' | 'text'): string => {
+  const rules = 'Only when the topic calls for it: write math as LaTeX between $...$ (inline) or $$...$$ (a formula on its own line), '
+    + 'and code as Markdown, `inline` or in ``` fenced blocks with the language name after the opening fence. Write a literal dollar sign as \\$.';
+  return target === 'narration'
+    ? `${rules} The narration is read aloud with formulas spoken and code blocks skipped, so keep formulas short and always say in words what a code block does.`
+    : rules;
+};
+
+const SPOKEN_COMMANDS: Record<string, string> = {
+  alpha: 'alpha', beta: 'beta', gamma: 'gamma', delta: 'delta', epsilon: 'epsilon', varepsilon: 'epsilon',
+  zeta: 'zeta', eta: 'eta', theta: 'theta', vartheta: 'theta', iota: 'iota', kappa: 'kappa', lambda: 'lambda',
+  mu: 'mu', nu: 'nu', xi: 'xi', pi: 'pi', rho: 'rho', sigma: 'sigma', tau: 'tau', upsilon: 'upsilon',
+  phi: 'phi', varphi: 'phi', chi: 'chi', psi: 'psi', omega: 'omega',
+  Gamma: 'capital gamma', Delta: 'capital delta', Theta: 'capital theta', Lambda: 'capital lambda',
+  Sigma: 'capital sigma', Phi: 'capital phi', Psi: 'capital psi', Omega: 'capital omega',
+  cdot: 'times', times: 'times', div: 'divided by', pm: 'plus or minus', mp: 'minus or plus',
+  le: 'is less than or equal to', leq: 'is less than or equal to', ge: 'is greater than or equal to', geq: 'is greater than or equal to',
+  neq: 'is not equal to', ne: 'is not equal to', approx: 'is approximately', equiv: 'is equivalent to', propto: 'is proportional to',
+  to: 'tends to', rightarrow: 'gives', Rightarrow: 'implies', leftarrow: 'from', iff: 'if and only if', implies: 'implies',
+  infty: 'infinity', partial: 'partial', nabla: 'del', degree: 'degrees', circ: 'degrees',
+  sum: 'the sum of', prod: 'the product of', int: 'the integral of', oint: 'the contour integral of', lim: 'the limit',
+  in: 'in', notin: 'not in', subset: 'is a subset of', subseteq: 'is a subset of', cup: 'union', cap: 'intersection',
+  forall: 'for all', exists: 'there exists', emptyset: 'the empty set', neg: 'not', land: 'and', lor: 'or',
+  sin: 'sine', cos: 'cosine', tan: 'tangent', log: 'log', ln: 'natural log', exp: 'exp', max: 'max', min: 'min',
+  dots: 'and so on', ldots: 'and so on', cdots: 'and so on', percent: 'percent',
+};
+
+const SPOKEN_SYMBOLS: Record<string, string> = {
+  '=': 'equals', '+': 'plus', '-': 'minus', '*': 'times', '/': 'over', '<': 'is less than', '>': 'is greater than',
+  '%': 'percent', '!': 'factorial', ',': ',', '|': '', '(': '', ')': '', '[': '', ']': '', '&': '', '~': '',
+};
+
+const POWERS: Record<string, string> = { '2': 'squared', '3': 'cubed' };
+
+/**
+ * Reads a LaTeX formula the way a teacher would say it, e.g. `\frac{a}{b}` as "a over b"
+ * and `x^2` as "x squared". Unknown commands are read by name.
+ */
+export const latexToSpeech = (tex: string): string => {
+  let i = 0;
+
+  const readGroup = (): string => {
+    while (tex[i] === ' ') i++;
+    if (tex[i] === '{') {
+      let depth = 1;
+      const start = ++i;
+      while (i < tex.length && depth > 0) {
+        if (tex[i] === '{') depth++;
+        else if (tex[i] === '}') depth--;
+        i++;
+      }
+      return tex.slice(start, i - 1);
+    }
+    const command = /^\\([a-zA-Z]+|.)/.exec(tex.slice(i));
+    if (command) {
+      i += command[0].length;
+      return command[0];
+    }
+    return tex[i++] ?? '';
+  };
+
+  const words: string[] = [];
+  while (i < tex.length) {
+    const char = tex[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '\\' && i + 1 < tex.length) {
+      const name = /^\\([a-zA-Z]+|.)/.exec(tex.slice(i))![1];
+      i += name.length + 1;
+      if (name === 'sum' || name === 'prod' || name === 'int' || name === 'lim') {
+        // Limits are read as "from ... to ..." (or "as ..." for a limit), then the operand
+        let from = '';
+        let to = '';
+        while (tex[i] === '_' || tex[i] === '^' || tex[i] === ' ') {
+          const mark = tex[i++];
+          if (mark === '_') from = latexToSpeech(readGroup());
+          else if (mark === '^') to = latexToSpeech(readGroup());
+        }
+        const operator = SPOKEN_COMMANDS[name];
+        if (name === 'lim') words.push(from ? `${operator} as ${from} of` : operator);
+        else words.push(`${operator.replace(/ of$/, '')}${from ? ` from ${from}` : ''}${to ? ` to ${to}` : ''} of`);
+      } else if (name === 'frac' || name === 'dfrac' || name === 'tfrac') {
+        const numerator = latexToSpeech(readGroup());
+        words.push(numerator, 'over', latexToSpeech(readGroup()));
+      } else if (name === 'sqrt') {
+        let degree = '';
+        if (tex[i] === '[') {
+          const close = tex.indexOf(']', i);
+          degree = latexToSpeech(tex.slice(i + 1, close));
+          i = close + 1;
+        }
+        words.push(degree ? `the ${degree}th root of` : 'the square root of', latexToSpeech(readGroup()));
+      } else if (['text', 'mathrm', 'mathbf', 'mathit', 'operatorname', 'textrm', 'mathbb', 'vec', 'hat', 'bar', 'overline'].includes(name)) {
+        words.push(name === 'text' || name === 'textrm' ? readGroup() : latexToSpeech(readGroup()));
+      } else if (name === 'left' || name === 'right' || name === 'displaystyle' || name === ',' || name === ';' || name === 'quad' || name === '!') {
+        if (name === 'left' || name === 'right') readGroup();
+      } else if (name === '%' || name === '$' || name === '{' || name === '}' || name === '_' || name === '&') {
+        words.push(SPOKEN_SYMBOLS[name] ?? name);
+      } else {
+        words.push(SPOKEN_COMMANDS[name] ?? name);
+      }
+    } else if (char === '^') {
+      i++;
+      const power = readGroup();
+      words.push(POWERS[power] ?? (power === '\\circ' ? 'degrees' : `to the power of ${latexToSpeech(power)}`));
+    } else if (char === '_') {
+      i++;
+      words.push('sub', latexToSpeech(readGroup()));
+    } else if (char === '{' || char === '}') {
+      i++;
+    } else if (char in SPOKEN_SYMBOLS) {
+      words.push(SPOKEN_SYMBOLS[char]);
+      i++;
+    } else {
+      // Runs of letters and digits are read as written ("2x", "10")
+      const run = /^[\p{L}\p{N}.']+/u.exec(tex.slice(i));
+      const value = run ? run[0] : char;
+      if (value !== '\\') words.push(value);
+      i += value.length;
+    }
+  }
+  return words.filter(Boolean).join(' ').replace(/\s+,/g, ',').replace(/\s+/g, ' ').trim();
+};
+
+const speakSegment = (segment: RichSegment): string => {
+  if (segment.type === 'text') return segment.text;
+  if (segment.type === 'math') return latexToSpeech(segment.tex);
+  return segment.block ? '' : segment.code;
+};
+
+/**
+ * The text to hand to text-to-speech: formulas read out, inline code without backticks,
+ * code blocks left out (the transcript shows them).
+ */
+export const toSpeakableText = (text: string): string => {
+  return parseRichText(text).map(speakSegment).join('').replace(/[ \t]{2,}/g, ' ');
+};
+
+/**
+ * Splits narration into transcript words. Words are separated by whitespace, except inside
+ * math and code, so a formula is one word that is highlighted and seeked to as a whole.
+ */
+export const tokenizeNarration = (text: string): NarrationToken[] => {
+  const spans = scanMarkup(text);
+  const tokens: NarrationToken[] = [];
+  let spanIndex = 0;
+  let i = 0;
+  while (i < text.length) {
+    if (/\s/.test(text[i])) {
+      i++;
+      continue;
+    }
+    const start = i;
+    let block = false;
+    while (i < text.length && !/\s/.test(text[i])) {
+      const span = spans[spanIndex];
+      if (span && span.start === i) {
+        block = block || (span.segment.type === 'math' ? span.segment.display : span.segment.type === 'code' && span.segment.block);
+        i = span.end;
+        spanIndex++;
+      } else {
+        i++;
+      }
+    }
+    const value = text.slice(start, i);
+    tokens.push({ text: value, start, end: i, speech: toSpeakableText(value).trim(), block });
+  }
+  return tokens;
+};
@@ -0,0 +1,43 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { addUsageEntry, getMonthEntries, isOverBudget, sumUsage } from "./usage";
+import type { UsageEntry, UsageLedger } from "../types";
+
+const entry = (createdAt: Date, costUsd: number, operation: UsageEntry['operation'] = 'lesson'): UsageEntry => ({
+  operation,
+  model: 'gemini-2.5-flash',
+  inputTokens: 100,
+  outputTokens: 50,
+  costUsd,
+  courseId: 'abc',
+  courseTitle: 'Biology',
+  createdAt: createdAt.toISOString(),
+});
+
+test("past months are rolled up into one entry per course, operation and model", () => {
+  const now = new Date(2026, 5, 15);
+  let ledger: UsageLedger = { entries: [], monthlyBudgetUsd: null };
+  for (let day = 1; day <= 20; day++) {
+    ledger = addUsageEntry(ledger, entry(new Date(2026, 4, day), 0.01), new Date(2026, 4, day));
+  }
+  ledger = addUsageEntry(ledger, entry(new Date(2026, 4, 21), 0.02, 'quiz'), new Date(2026, 4, 21));
+  assert.equal(ledger.entries.length, 21);
+
+  ledger = addUsageEntry(ledger, entry(now, 0.5), now);
+  assert.equal(ledger.entries.length, 3);
+  const totals = sumUsage(ledger.entries);
+  assert.equal(totals.calls, 22);
+  assert.equal(totals.inputTokens, 2200);
+  assert.ok(Math.abs(totals.costUsd - 0.72) < 1e-9);
+
+  // Rolled-up totals stay in their own month
+  assert.equal(getMonthEntries(ledger.entries, now).length, 1);
+  assert.equal(sumUsage(getMonthEntries(ledger.entries, new Date(2026, 4, 1))).calls, 21);
+});
+
+test("the budget only counts this month's spend", () => {
+  const now = new Date(2026, 5, 15);
+  const ledger: UsageLedger = { entries: [entry(new Date(2026, 4, 2), 5), entry(now, 0.4)], monthlyBudgetUsd: 1 };
+  assert.equal(isOverBudget(ledger, now), false);
+  assert.equal(isOverBudget({ ...ledger, entries: [...ledger.entries, entry(now, 0.6)] }, now), true);
+});
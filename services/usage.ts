@@ -0,0 +1,108 @@
+import { UsageEntry, UsageLedger, UsageOperation } from "../types";
+import { BudgetExceededError } from "./errors";
+
+/**
+ * Token and cost accounting for model calls.
+ * Providers report a UsageRecord per call; the app stores them per user as a UsageLedger.
+ */
+
+// USD per million tokens (paid tier list prices); update when pricing changes
+const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  'gemini-2.5-flash': { input: 0.30, output: 2.50 },
+  'gemini-2.5-flash-image': { input: 0.30, output: 30.00 },
+  'gemini-2.5-flash-preview-tts': { input: 0.50, output: 10.00 },
+};
+
+export const USAGE_OPERATIONS: { id: UsageOperation; label: string }[] = [
+  { id: 'analysis', label: 'Course analysis' },
+  { id: 'lesson', label: 'Lesson scripts' },
+  { id: 'tts', label: 'Narration (TTS)' },
+  { id: 'image', label: 'Visuals' },
+  { id: 'quiz', label: 'Quizzes' },
+  { id: 'grading', label: 'Answer grading' },
+  { id: 'chat', label: 'Tutor questions' },
+];
+
+export const EMPTY_USAGE_LEDGER: UsageLedger = { entries: [], monthlyBudgetUsd: null };
+
+export const estimateCostUsd = (model: string, inputTokens: number, outputTokens: number): number => {
+  const price = MODEL_PRICING[model];
+  if (!price) return 0;
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+};
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+export const sumUsage = (entries: UsageEntry[]): UsageTotals => {
+  return entries.reduce(
+    (sum, e) => ({
+      calls: sum.calls + (e.calls ?? 1),
+      inputTokens: sum.inputTokens + e.inputTokens,
+      outputTokens: sum.outputTokens + e.outputTokens,
+      costUsd: sum.costUsd + e.costUsd,
+    }),
+    { calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 }
+  );
+};
+
+/**
+ * Entries recorded in the same calendar month as `now` (local time).
+ */
+export const getMonthEntries = (entries: UsageEntry[], now = new Date()): UsageEntry[] => {
+  return entries.filter(e => {
+    const date = new Date(e.createdAt);
+    return date.getFullYear() === now.getFullYear() && date.getMonth() === now.getMonth();
+  });
+};
+
+const getMonthKey = (date: Date) => `${date.getFullYear()}-${date.getMonth()}`;
+
+/**
+ * Adds a call to the ledger. Entries of past months are rolled up into one total per
+ * month, course, operation and model, so the stored ledger stops growing with every call.
+ */
+export const addUsageEntry = (ledger: UsageLedger, entry: UsageEntry, now = new Date()): UsageLedger => {
+  const currentMonth = getMonthKey(now);
+  const totals = new Map<string, UsageEntry>();
+  const entries: UsageEntry[] = [];
+  for (const e of ledger.entries) {
+    const date = new Date(e.createdAt);
+    const month = getMonthKey(date);
+    if (month === currentMonth) {
+      entries.push(e);
+      continue;
+    }
+    const key = [month, e.courseId, e.operation, e.model].join(':');
+    const total = totals.get(key);
+    if (total) {
+      total.inputTokens += e.inputTokens;
+      total.outputTokens += e.outputTokens;
+      total.costUsd += e.costUsd;
+      total.calls = (total.calls ?? 1) + (e.calls ?? 1);
+    } else {
+      totals.set(key, { ...e, calls: e.calls ?? 1, createdAt: new Date(date.getFullYear(), date.getMonth(), 1).toISOString() });
+    }
+  }
+  return { ...ledger, entries: [...totals.values(), ...entries, entry] };
+};
+
+export const isOverBudget = (ledger: UsageLedger, now = new Date()): boolean => {
+  if (ledger.monthlyBudgetUsd === null) return false;
+  return sumUsage(getMonthEntries(ledger.entries, now)).costUsd >= ledger.monthlyBudgetUsd;
+};
+
+/**
+ * Throws BudgetExceededError once this month's spend reached the cap.
+ */
+export const assertWithinBudget = (ledger: UsageLedger) => {
+  if (isOverBudget(ledger)) throw new BudgetExceededError(ledger.monthlyBudgetUsd!);
+};
+
+export const formatUsd = (value: number): string => {
+  return value < 0.01 && value > 0 ? `$${value.toFixed(4)}` : `$${value.toFixed(2)}`;
+};
@@ -0,0 +1,63 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createQuizSchema } from "./validation";
+import { MAX_RUBRIC_POINTS } from "./quiz";
+
+const quizSchema = createQuizSchema([]);
+
+const shortAnswer = (points: unknown) => ({
+  type: 'short_answer',
+  question: 'Why do leaves look green?',
+  explanation: '',
+  rubric: [{ description: 'Mentions chlorophyll', points }],
+  modelAnswer: 'Chlorophyll reflects green light.',
+});
+
+test("rubric points outside the allowed range are rounded into it with a warning", () => {
+  const result = quizSchema.parse([shortAnswer(5), shortAnswer(0), shortAnswer('2.4')]);
+  assert.ok(result.ok);
+  assert.deepEqual(result.value.map(q => q.type === 'short_answer' && q.rubric[0].points), [MAX_RUBRIC_POINTS, 1, 2]);
+  assert.equal(result.warnings.filter(w => w.includes('rubric points')).length, 3);
+});
+
+test("a rubric criterion without numeric points drops the question", () => {
+  const result = quizSchema.parse([shortAnswer('a lot'), shortAnswer(2)]);
+  assert.ok(result.ok);
+  assert.equal(result.value.length, 1);
+  assert.ok(result.warnings.some(w => w.startsWith('Dropped: Question 1')));
+
+  const failed = quizSchema.parse([shortAnswer(undefined)]);
+  assert.equal(failed.ok, false);
+});
+
+test("duplicate options are merged and their correct indices follow them", () => {
+  const result = quizSchema.parse([{
+    type: 'multiple',
+    question: 'Which are primary colours of light?',
+    options: ['Red', 'Green', 'Red', 'Yellow', 'Blue'],
+    correctOptionIndices: [1, 2, 4],
+  }]);
+  assert.ok(result.ok);
+  assert.deepEqual(result.value[0], {
+    id: 1,
+    question: 'Which are primary colours of light?',
+    explanation: '',
+    type: 'multiple',
+    options: ['Red', 'Green', 'Yellow', 'Blue'],
+    correctOptionIndices: [0, 1, 3],
+  });
+});
+
+test("a multiple choice question whose correct options collapse into one becomes single choice", () => {
+  const result = quizSchema.parse([{
+    type: 'multiple',
+    question: 'Which gas do plants release?',
+    options: ['Oxygen', 'Nitrogen', 'Oxygen ', 'Oxygen'],
+    correctOptionIndices: [0, 3],
+  }]);
+  assert.ok(result.ok);
+  const [question] = result.value;
+  assert.equal(question.type, 'single');
+  assert.ok(question.type === 'single' && question.options[question.correctOptionIndex] === 'Oxygen');
+  assert.ok(result.warnings.some(w => w.includes('single choice')));
+});
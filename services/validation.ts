@@ -0,0 +1,423 @@
+import { CourseStructure, DialogueTurn, DocumentPage, KeyPoint, LessonContent, LessonScene, LessonSpeaker, PageRange, QuestionType, QuizQuestion, RubricCriterion, ShortAnswerGrade, SourceCitation, TutorAnswer } from "../types";
+import { verifyCitation } from "./citations";
+import { closeOpenBlocks } from "./richText";
+import { joinTurns } from "./dialogue";
+import { MAX_RUBRIC_POINTS, countBlanks } from "./quiz";
+
+/**
+ * Runtime validation for JSON returned by the model.
+ * Recoverable problems are normalized away (and reported as warnings);
+ * anything that leaves the data unusable is reported as an issue so the caller
+ * can ask the model to repair its answer.
+ */
+
+export type ValidationResult<T> =
+  | { ok: true; value: T; warnings: string[] }
+  | { ok: false; issues: string[] };
+
+export interface ModelOutputSchema<T> {
+  /** Used in repair prompts and error messages. */
+  name: string;
+  parse: (raw: unknown) => ValidationResult<T>;
+}
+
+const MIN_QUIZ_OPTIONS = 2;
+const MIN_ORDERING_ITEMS = 3;
+const MAX_KEY_POINTS = 5;
+const MAX_SCENES = 6;
+
+const isObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const asText = (value: unknown): string => {
+  if (typeof value === 'string') return value.trim();
+  if (typeof value === 'number') return String(value);
+  return '';
+};
+
+const asList = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+
+// Omit over each member of a union, keeping it discriminated
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+/**
+ * Clamps a model-provided page range into the document; swaps reversed bounds.
+ */
+const asPageRange = (start: unknown, end: unknown, pageCount: number): PageRange | undefined => {
+  let first = Math.round(Number(start));
+  let last = Math.round(Number(end));
+  if (!Number.isFinite(first) && !Number.isFinite(last)) return undefined;
+  if (!Number.isFinite(first)) first = last;
+  if (!Number.isFinite(last)) last = first;
+  if (first > last) [first, last] = [last, first];
+
+  const clamp = (n: number) => Math.min(Math.max(n, 1), pageCount);
+  return { start: clamp(first), end: clamp(last) };
+};
+
+/**
+ * Reads a { page, quote } citation and checks it against the source pages.
+ */
+const asSource = (page: unknown, quote: unknown, pages: DocumentPage[]): SourceCitation | undefined => {
+  const pageNumber = Math.round(Number(page));
+  return verifyCitation(Number.isFinite(pageNumber) ? pageNumber : 0, asText(quote), pages) ?? undefined;
+};
+
+/**
+ * Reads the turns of a dialogue scene. Speakers are matched by name or index;
+ * a turn by an unknown speaker is given to the speaker who didn't talk last.
+ */
+const asTurns = (value: unknown, speakers: LessonSpeaker[], warnings: string[]): DialogueTurn[] => {
+  const turns: DialogueTurn[] = [];
+  asList(value).filter(isObject).forEach(turn => {
+    const text = closeOpenBlocks(asText(turn.text));
+    if (!text) return;
+    const name = asText(turn.speaker).toLowerCase();
+    let speaker = speakers.findIndex((s, idx) => s.name.toLowerCase() === name || String(idx) === name);
+    if (speaker === -1) {
+      speaker = turns.length > 0 ? 1 - turns[turns.length - 1].speaker : 0;
+      warnings.push(`Gave a turn by unknown speaker "${name}" to ${speakers[speaker].name}.`);
+    }
+    turns.push({ speaker, text });
+  });
+  return turns;
+};
+
+/**
+ * Course outline: every chapter needs at least one titled topic.
+ * Assigns stable ids, unlocks only the very first topic and keeps
+ * each topic's page range inside the `pageCount` pages of the document.
+ */
+export const createCourseStructureSchema = (pageCount: number): ModelOutputSchema<CourseStructure> => ({
+  name: 'course structure',
+  parse: (raw) => {
+    if (!isObject(raw)) return { ok: false, issues: ['Expected a JSON object.'] };
+
+    const warnings: string[] = [];
+    let topicCounter = 0;
+
+    const chapters = asList(raw.chapters)
+      .filter(isObject)
+      .map((ch, cIdx) => {
+        const topics = asList(ch.topics)
+          .filter(isObject)
+          .map(t => ({
+            title: asText(t.title),
+            description: asText(t.description),
+            pageRange: asPageRange(t.startPage, t.endPage, pageCount)
+          }))
+          .filter(t => {
+            if (!t.title) warnings.push(`Dropped an untitled topic in chapter ${cIdx + 1}.`);
+            return !!t.title;
+          });
+        return { title: asText(ch.title) || `Chapter ${cIdx + 1}`, topics };
+      })
+      .filter((ch, cIdx) => {
+        if (ch.topics.length === 0) warnings.push(`Dropped chapter ${cIdx + 1} because it has no topics.`);
+        return ch.topics.length > 0;
+      })
+      .map((ch, cIdx) => ({
+        id: `ch-${cIdx}`,
+        title: ch.title,
+        topics: ch.topics.map((t, tIdx) => ({
+          id: `topic-${topicCounter++}`,
+          title: t.title,
+          description: t.description || t.title,
+          isCompleted: false,
+          isLocked: !(cIdx === 0 && tIdx === 0), // Unlock first topic by default
+          ...(t.pageRange ? { pageRange: t.pageRange } : {})
+        }))
+      }));
+
+    if (chapters.length === 0) {
+      return { ok: false, issues: ['"chapters" must contain at least one chapter with at least one topic.'] };
+    }
+
+    const title = asText(raw.title);
+    if (!title) warnings.push('Missing course title.');
+
+    return {
+      ok: true,
+      value: { title: title || 'Untitled Course', summary: asText(raw.summary), chapters },
+      warnings
+    };
+  }
+});
+
+/**
+ * Lesson: at least one scene with narration. Missing captions and visual prompts
+ * are derived from the narration; key points are trimmed, de-duplicated and capped.
+ * Key point citations are checked against `pages`, the pages the lesson was written from.
+ * A single "script" (the pre-scene format) is accepted as a one-scene lesson.
+ * With two `speakers`, scenes are dialogues and their narration is built from the turns;
+ * a scene with narration but no turns is spoken by the tutor.
+ */
+export const createLessonContentSchema = (pages: DocumentPage[], speakers: LessonSpeaker[] = []): ModelOutputSchema<LessonContent> => ({
+  name: 'lesson',
+  parse: (raw) => {
+    if (!isObject(raw)) return { ok: false, issues: ['Expected a JSON object.'] };
+
+    const warnings: string[] = [];
+    let rawScenes = asList(raw.scenes).filter(isObject);
+    if (rawScenes.length === 0 && asText(raw.script)) {
+      warnings.push('Got a single script instead of scenes, used it as one scene.');
+      rawScenes = [{ narration: raw.script, visualPrompt: raw.visualPrompt }];
+    }
+
+    const isDialogue = speakers.length === 2;
+    const scenes: LessonScene[] = rawScenes
+      .map((scene, idx) => {
+        let turns = isDialogue ? asTurns(scene.turns, speakers, warnings) : [];
+        if (isDialogue && turns.length === 0 && asText(scene.narration)) {
+          warnings.push(`Scene ${idx + 1} has narration instead of turns, gave it to ${speakers[0].name}.`);
+          turns = [{ speaker: 0, text: closeOpenBlocks(asText(scene.narration)) }];
+        }
+        return {
+          narration: isDialogue ? joinTurns(turns) : closeOpenBlocks(asText(scene.narration)),
+          visualPrompt: asText(scene.visualPrompt),
+          caption: asText(scene.caption),
+          ...(asText(scene.englishNarration) ? { englishNarration: asText(scene.englishNarration) } : {}),
+          ...(turns.length > 0 ? { turns } : {}),
+        };
+      })
+      .filter((scene, idx) => {
+        if (!scene.narration) warnings.push(`Dropped scene ${idx + 1} because it has no ${isDialogue ? 'turns' : 'narration'}.`);
+        return !!scene.narration;
+      });
+    if (scenes.length === 0) {
+      return { ok: false, issues: [isDialogue ? '"scenes" must contain at least one scene with a non-empty "turns" list.' : '"scenes" must contain at least one scene with a non-empty "narration".'] };
+    }
+    if (scenes.length > MAX_SCENES) warnings.push(`Trimmed scenes to ${MAX_SCENES}.`);
+
+    const seen = new Set<string>();
+    const keyPoints: KeyPoint[] = [];
+    asList(raw.keyPoints).forEach(item => {
+      // Plain strings are accepted as key points without a source
+      const text = isObject(item) ? asText(item.text) : asText(item);
+      if (!text || seen.has(text)) return;
+      seen.add(text);
+      const source = isObject(item) ? asSource(item.page, item.quote, pages) : undefined;
+      if (isObject(item) && asText(item.quote) && !source?.quote) {
+        warnings.push(`Key point "${text.slice(0, 40)}" quotes text not found in the document.`);
+      }
+      keyPoints.push(source ? { text, source } : { text });
+    });
+    if (keyPoints.length === 0) {
+      return { ok: false, issues: ['"keyPoints" must contain at least one bullet point.'] };
+    }
+    if (keyPoints.length > MAX_KEY_POINTS) warnings.push(`Trimmed key points to ${MAX_KEY_POINTS}.`);
+
+    scenes.forEach((scene, idx) => {
+      if (!scene.caption) {
+        warnings.push(`Scene ${idx + 1} has no caption, derived one from its narration.`);
+        scene.caption = scene.narration.split(/(?<=[.!?])\s/)[0];
+      }
+      if (!scene.visualPrompt) {
+        warnings.push(`Scene ${idx + 1} has no visual prompt, derived one from its caption.`);
+        scene.visualPrompt = `A clear educational illustration explaining: ${scene.caption}`;
+      }
+    });
+
+    return {
+      ok: true,
+      value: {
+        scenes: scenes.slice(0, MAX_SCENES),
+        keyPoints: keyPoints.slice(0, MAX_KEY_POINTS),
+        ...(isDialogue ? { speakers } : {}),
+      },
+      warnings
+    };
+  }
+});
+
+// Model names for question types; anything else is inferred from the fields present
+const QUESTION_TYPES: QuestionType[] = ['single', 'multiple', 'true_false', 'ordering', 'cloze', 'short_answer'];
+
+const asQuestionType = (item: Record<string, unknown>): QuestionType => {
+  const type = asText(item.type).toLowerCase().replace(/[\s/-]+/g, '_') as QuestionType;
+  if (QUESTION_TYPES.includes(type)) return type;
+  return asList(item.correctOptionIndices).length > 1 ? 'multiple' : 'single';
+};
+
+const asBoolean = (value: unknown): boolean | undefined => {
+  if (typeof value === 'boolean') return value;
+  const text = asText(value).toLowerCase();
+  return text === 'true' ? true : text === 'false' ? false : undefined;
+};
+
+const asNumber = (value: unknown): number | undefined => {
+  const number = typeof value === 'number' ? value : typeof value === 'string' && value.trim() ? Number(value) : NaN;
+  return Number.isFinite(number) ? number : undefined;
+};
+
+/**
+ * Removes blank and duplicate options, keeping track of which of them are correct.
+ * Returns null when a correct index does not point at an option.
+ */
+const asOptions = (rawOptions: unknown, correct: unknown[]): { options: string[]; correct: number[] } | null => {
+  const texts = asList(rawOptions).map(asText);
+  const indices = correct.map(Number);
+  if (indices.length === 0 || indices.some(idx => !Number.isInteger(idx) || !texts[idx])) return null;
+  const options = Array.from(new Set(texts.filter(Boolean)));
+  const correctTexts = new Set(indices.map(idx => texts[idx]));
+  return { options, correct: options.flatMap((option, idx) => correctTexts.has(option) ? [idx] : []) };
+};
+
+/**
+ * The type-specific part of a quiz question, or the issue that makes it unusable.
+ */
+const asQuestionAnswer = (item: Record<string, unknown>, type: QuestionType, question: string, warnings: string[], label: string): DistributiveOmit<QuizQuestion, 'id' | 'question' | 'explanation' | 'source'> | string => {
+  switch (type) {
+    case 'single':
+    case 'multiple': {
+      const correct = type === 'single' ? [item.correctOptionIndex] : asList(item.correctOptionIndices);
+      const parsed = asOptions(item.options, correct);
+      if (!parsed) return `has a "${type === 'single' ? 'correctOptionIndex' : 'correctOptionIndices'}" that does not point at its options.`;
+      if (parsed.options.length !== asList(item.options).length) warnings.push(`${label}: removed blank or duplicate options.`);
+      if (parsed.options.length < MIN_QUIZ_OPTIONS) return `needs at least ${MIN_QUIZ_OPTIONS} distinct options.`;
+      if (type === 'multiple' && parsed.correct.length < 2 && new Set(correct.map(Number)).size > 1) {
+        // Its correct options were duplicates of each other, so one answer is left
+        warnings.push(`${label}: its correct options were duplicates, turned it into a single choice question.`);
+        return { type: 'single', options: parsed.options, correctOptionIndex: parsed.correct[0] };
+      }
+      return type === 'single'
+        ? { type, options: parsed.options, correctOptionIndex: parsed.correct[0] }
+        : { type, options: parsed.options, correctOptionIndices: parsed.correct };
+    }
+    case 'true_false': {
+      const answer = asBoolean(item.answer);
+      if (answer === undefined) return 'needs "answer" to be true or false.';
+      return { type, answer };
+    }
+    case 'ordering': {
+      const items = Array.from(new Set(asList(item.items).map(asText).filter(Boolean)));
+      if (items.length < MIN_ORDERING_ITEMS) return `needs at least ${MIN_ORDERING_ITEMS} distinct "items" to order.`;
+      return { type, items };
+    }
+    case 'cloze': {
+      const blanks = asList(item.blanks)
+        .map(accepted => (Array.isArray(accepted) ? accepted : [accepted]).map(asText).filter(Boolean));
+      const expected = countBlanks(question);
+      if (expected === 0) return 'has no blanks (___) in its "question".';
+      if (blanks.length !== expected || blanks.some(accepted => accepted.length === 0)) {
+        return `needs one list of accepted answers in "blanks" per blank (___): found ${blanks.length} for ${expected}.`;
+      }
+      return { type, blanks };
+    }
+    case 'short_answer': {
+      const criteria = asList(item.rubric).filter(isObject).map(c => ({
+        description: asText(c.description) || asText(c.criterion),
+        points: asNumber(c.points),
+      })).filter(c => c.description);
+      if (criteria.length === 0) return 'needs a "rubric" with at least one criterion.';
+      if (criteria.some(c => c.points === undefined)) return 'needs numeric "points" for every rubric criterion.';
+      const rubric = criteria.map(c => ({
+        description: c.description,
+        points: Math.min(MAX_RUBRIC_POINTS, Math.max(1, Math.round(c.points!))),
+      }));
+      if (rubric.some((c, idx) => c.points !== criteria[idx].points)) {
+        warnings.push(`${label}: rounded rubric points into 1 to ${MAX_RUBRIC_POINTS}.`);
+      }
+      const modelAnswer = asText(item.modelAnswer);
+      if (!modelAnswer) return 'needs a "modelAnswer".';
+      return { type, rubric, modelAnswer };
+    }
+  }
+};
+
+/**
+ * Quiz: questions need a prompt and a usable answer for their type: options with
+ * correct indices that point at them, a true/false answer, items to order, accepted
+ * answers for every blank, or a rubric and model answer. Broken questions are dropped;
+ * an empty quiz fails. Explanation citations are checked against `pages`.
+ */
+export const createQuizSchema = (pages: DocumentPage[]): ModelOutputSchema<QuizQuestion[]> => ({
+  name: 'quiz',
+  parse: (raw) => {
+    const items = Array.isArray(raw) ? raw : isObject(raw) ? asList(raw.questions) : null;
+    if (!items) return { ok: false, issues: ['Expected a JSON array of questions.'] };
+
+    const warnings: string[] = [];
+    const issues: string[] = [];
+    const questions: QuizQuestion[] = [];
+
+    items.forEach((item, qIdx) => {
+      const label = `Question ${qIdx + 1}`;
+      if (!isObject(item)) {
+        issues.push(`${label} is not an object.`);
+        return;
+      }
+
+      const question = asText(item.question);
+      if (!question) {
+        issues.push(`${label} has no "question" text.`);
+        return;
+      }
+
+      const answer = asQuestionAnswer(item, asQuestionType(item), question, warnings, label);
+      if (typeof answer === 'string') {
+        issues.push(`${label} ${answer}`);
+        return;
+      }
+
+      const source = asSource(item.page, item.quote, pages);
+      questions.push({
+        id: questions.length + 1,
+        question,
+        explanation: asText(item.explanation),
+        ...answer,
+        ...(source ? { source } : {})
+      });
+    });
+
+    if (questions.length === 0) {
+      return { ok: false, issues: issues.length > 0 ? issues : ['The quiz must contain at least one question.'] };
+    }
+    return { ok: true, value: questions, warnings: [...warnings, ...issues.map(i => `Dropped: ${i}`)] };
+  }
+});
+
+/**
+ * Short answer grade: points per rubric criterion, clamped to what the criterion is worth.
+ * Criteria the model skipped get no points.
+ */
+export const createShortAnswerGradeSchema = (rubric: RubricCriterion[]): ModelOutputSchema<ShortAnswerGrade> => ({
+  name: 'short answer grade',
+  parse: (raw) => {
+    if (!isObject(raw)) return { ok: false, issues: ['Expected a JSON object.'] };
+
+    const given = asList(raw.awarded);
+    if (given.length === 0) return { ok: false, issues: ['"awarded" must list the points given for each rubric criterion.'] };
+
+    const warnings: string[] = [];
+    if (given.length !== rubric.length) warnings.push(`Expected ${rubric.length} awarded scores, got ${given.length}.`);
+    const awarded = rubric.map((criterion, idx) => {
+      const points = Number(given[idx]);
+      return Number.isFinite(points) ? Math.min(criterion.points, Math.max(0, points)) : 0;
+    });
+
+    return { ok: true, value: { awarded, feedback: asText(raw.feedback) }, warnings };
+  }
+});
+
+/**
+ * Tutor answer: non-empty text. Cited pages are kept only if they belong to
+ * `pageNumbers`, the pages the question was asked about.
+ */
+export const createTutorAnswerSchema = (pageNumbers: number[]): ModelOutputSchema<TutorAnswer> => ({
+  name: 'tutor answer',
+  parse: (raw) => {
+    if (!isObject(raw)) return { ok: false, issues: ['Expected a JSON object.'] };
+
+    const answer = asText(raw.answer);
+    if (!answer) return { ok: false, issues: ['"answer" must be a non-empty string.'] };
+
+    const warnings: string[] = [];
+    const cited = asList(raw.pages).map(p => Math.round(Number(p))).filter(Number.isFinite);
+    const pages = Array.from(new Set(cited.filter(p => pageNumbers.includes(p)))).sort((a, b) => a - b);
+    if (pages.length !== cited.length) warnings.push('Dropped cited pages outside the topic.');
+
+    return { ok: true, value: { answer, pages }, warnings };
+  }
+});
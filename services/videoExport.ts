@@ -0,0 +1,201 @@
+import { LessonContent } from "../types";
+import { buildCaptionCues, CaptionCue } from "./captions";
+import { getSceneStartTimes } from "./lessonContent";
+import { createAbortError, throwIfAborted } from "./abort";
+
+/**
+ * Renders a lesson to a WebM video in the browser: scene visuals with Ken Burns motion
+ * and cross-fades, burned-in captions and the narration audio.
+ * The canvas is captured while the narration plays, so rendering takes as long as the lesson
+ * and the tab has to stay visible (hidden tabs stop drawing frames).
+ */
+
+const WIDTH = 1280;
+const HEIGHT = 720;
+const FRAME_RATE = 30;
+const VIDEO_BITS_PER_SECOND = 4_000_000;
+// Same motion as the player: 10% zoom over a scene, 0.7s cross-fade between scenes
+const KEN_BURNS_ZOOM = 0.1;
+const CROSSFADE_SECONDS = 0.7;
+
+const MIME_TYPES = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm'];
+
+export interface VideoExportInput {
+  content: LessonContent;
+  imageUrls: string[];
+  audioUrl: string;
+  wordTimings: number[] | null;
+}
+
+export const isVideoExportSupported = (): boolean => {
+  return typeof MediaRecorder !== 'undefined'
+    && typeof HTMLCanvasElement.prototype.captureStream === 'function'
+    && MIME_TYPES.some(type => MediaRecorder.isTypeSupported(type));
+};
+
+const loadImage = (url: string): Promise<HTMLImageElement | null> => {
+  return new Promise(resolve => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => resolve(img);
+    // A missing visual leaves a dark frame rather than failing the export
+    img.onerror = () => resolve(null);
+    img.src = url;
+  });
+};
+
+/**
+ * Draws an image letterboxed into the frame, zoomed around its centre.
+ */
+const drawScene = (ctx: CanvasRenderingContext2D, img: HTMLImageElement, zoom: number, alpha: number) => {
+  const fit = Math.min(WIDTH / img.width, HEIGHT / img.height) * zoom;
+  const w = img.width * fit;
+  const h = img.height * fit;
+  ctx.globalAlpha = alpha;
+  ctx.drawImage(img, (WIDTH - w) / 2, (HEIGHT - h) / 2, w, h);
+  ctx.globalAlpha = 1;
+};
+
+const drawCaption = (ctx: CanvasRenderingContext2D, cue: CaptionCue) => {
+  const lines = cue.text.split('\n');
+  const fontSize = 34;
+  const lineHeight = fontSize * 1.3;
+  const padding = 18;
+  ctx.font = `500 ${fontSize}px Inter, system-ui, sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+
+  const boxWidth = Math.max(...lines.map(line => ctx.measureText(line).width)) + padding * 2;
+  const boxHeight = lines.length * lineHeight + padding;
+  const boxY = HEIGHT - 48 - boxHeight;
+
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.65)';
+  ctx.beginPath();
+  ctx.roundRect((WIDTH - boxWidth) / 2, boxY, boxWidth, boxHeight, 12);
+  ctx.fill();
+
+  ctx.fillStyle = '#ffffff';
+  lines.forEach((line, i) => ctx.fillText(line, WIDTH / 2, boxY + padding / 2 + lineHeight * (i + 0.5)));
+};
+
+/**
+ * Renders the lesson and resolves with the WebM file.
+ * `onProgress` receives the rendered share (0-1).
+ */
+export const exportLessonVideo = async (
+  input: VideoExportInput,
+  onProgress?: (fraction: number) => void,
+  signal?: AbortSignal
+): Promise<Blob> => {
+  throwIfAborted(signal);
+  const mimeType = MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+  if (!mimeType) throw new Error('This browser cannot record WebM video.');
+
+  // Created before any await so it still counts as started by the user's click
+  const audioContext = new AudioContext();
+  try {
+    await audioContext.resume();
+    const audioData = await (await fetch(input.audioUrl)).arrayBuffer();
+    const audioBuffer = await audioContext.decodeAudioData(audioData);
+    const images = await Promise.all(input.imageUrls.map(loadImage));
+    throwIfAborted(signal);
+
+    const duration = audioBuffer.duration;
+    const sceneStarts = getSceneStartTimes(input.content, duration, input.wordTimings);
+    const cues = buildCaptionCues(input.content, duration, input.wordTimings);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = WIDTH;
+    canvas.height = HEIGHT;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas is not available.');
+
+    const sceneAt = (time: number) => Math.max(0, sceneStarts.filter(start => start <= time).length - 1);
+    const sceneEnd = (index: number) => sceneStarts[index + 1] ?? duration;
+
+    const renderFrame = (time: number) => {
+      ctx.fillStyle = '#020617';
+      ctx.fillRect(0, 0, WIDTH, HEIGHT);
+
+      const index = sceneAt(time);
+      const zoomAt = (i: number, t: number) => {
+        const length = Math.max(0.1, sceneEnd(i) - sceneStarts[i]);
+        return 1 + KEN_BURNS_ZOOM * Math.min(1, Math.max(0, (t - sceneStarts[i]) / length));
+      };
+
+      // The previous scene fades out under the current one
+      const sinceStart = time - sceneStarts[index];
+      if (index > 0 && sinceStart < CROSSFADE_SECONDS && images[index - 1]) {
+        drawScene(ctx, images[index - 1]!, zoomAt(index - 1, time), 1);
+      }
+      const image = images[index];
+      if (image) {
+        const alpha = index > 0 ? Math.min(1, sinceStart / CROSSFADE_SECONDS) : 1;
+        drawScene(ctx, image, zoomAt(index, time), alpha);
+      }
+
+      const cue = cues.find(c => time >= c.start && time < c.end);
+      if (cue) drawCaption(ctx, cue);
+    };
+
+    // Narration goes only to the recording, not the speakers
+    const audioDestination = audioContext.createMediaStreamDestination();
+    const source = audioContext.createBufferSource();
+    source.buffer = audioBuffer;
+    source.connect(audioDestination);
+
+    const stream = new MediaStream([
+      ...canvas.captureStream(FRAME_RATE).getVideoTracks(),
+      ...audioDestination.stream.getAudioTracks(),
+    ]);
+    const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: VIDEO_BITS_PER_SECOND });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) chunks.push(e.data);
+    };
+
+    renderFrame(0);
+
+    return await new Promise<Blob>((resolve, reject) => {
+      let frame = 0;
+      let aborted = false;
+      const startedAt = audioContext.currentTime;
+
+      const onAbort = () => {
+        aborted = true;
+        source.stop();
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      recorder.onstop = () => {
+        cancelAnimationFrame(frame);
+        signal?.removeEventListener('abort', onAbort);
+        stream.getTracks().forEach(track => track.stop());
+        if (aborted) reject(createAbortError());
+        else resolve(new Blob(chunks, { type: 'video/webm' }));
+      };
+      recorder.onerror = () => {
+        signal?.removeEventListener('abort', onAbort);
+        reject(new Error('Recording the video failed.'));
+      };
+      source.onended = () => {
+        renderFrame(duration);
+        // Let the last frame reach the recorder before stopping
+        setTimeout(() => recorder.state !== 'inactive' && recorder.stop(), 250);
+      };
+
+      const tick = () => {
+        const time = Math.min(duration, audioContext.currentTime - startedAt);
+        renderFrame(time);
+        onProgress?.(duration > 0 ? time / duration : 1);
+        frame = requestAnimationFrame(tick);
+      };
+
+      recorder.start(1000);
+      source.start();
+      tick();
+    });
+  } finally {
+    audioContext.close();
+  }
+};
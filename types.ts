@@ -1,10 +1,25 @@
 
+/** Inclusive, 1-based page range within the uploaded PDF. */
+export interface PageRange {
+  start: number;
+  end: number;
+}
+
+/** Text extracted from a single PDF page in the browser. */
+export interface DocumentPage {
+  pageNumber: number;
+  text: string;
+  /** "ocr" when the page was a scan and its text was recognized on the device. */
+  source?: 'text' | 'ocr';
+}
+
 export interface Topic {
   id: string;
   title: string;
   description: string;
   isCompleted: boolean;
   isLocked: boolean;
+  pageRange?: PageRange;
 }
 
 export interface Chapter {
@@ -19,18 +34,102 @@ export interface CourseStructure {
   chapters: Chapter[];
 }
 
-export interface QuizQuestion {
+/** Where in the document a statement comes from. */
+export interface SourceCitation {
+  page: number;
+  quote?: string; // short verbatim excerpt, checked against the page text
+}
+
+export type QuestionType = 'single' | 'multiple' | 'true_false' | 'ordering' | 'cloze' | 'short_answer';
+
+interface QuizQuestionBase {
   id: number;
   question: string;
+  explanation: string;
+  source?: SourceCitation;
+}
+
+/** Multiple choice with exactly one correct option. */
+export interface SingleChoiceQuestion extends QuizQuestionBase {
+  type: 'single';
   options: string[];
   correctOptionIndex: number;
-  explanation: string;
 }
 
-export interface LessonContent {
-  script: string;
+/** Multiple choice where every correct option has to be selected. */
+export interface MultiSelectQuestion extends QuizQuestionBase {
+  type: 'multiple';
+  options: string[];
+  correctOptionIndices: number[];
+}
+
+export interface TrueFalseQuestion extends QuizQuestionBase {
+  type: 'true_false';
+  answer: boolean;
+}
+
+/** Items to put in order; stored in the correct order and shuffled when shown. */
+export interface OrderingQuestion extends QuizQuestionBase {
+  type: 'ordering';
+  items: string[];
+}
+
+/** Fill in the blanks: `question` marks each blank with ___. */
+export interface ClozeQuestion extends QuizQuestionBase {
+  type: 'cloze';
+  blanks: string[][]; // accepted answers per blank, in order
+}
+
+export interface RubricCriterion {
+  description: string;
+  points: number;
+}
+
+/** Free-text answer, graded by the model against a rubric. */
+export interface ShortAnswerQuestion extends QuizQuestionBase {
+  type: 'short_answer';
+  rubric: RubricCriterion[];
+  modelAnswer: string;
+}
+
+export type QuizQuestion = SingleChoiceQuestion | MultiSelectQuestion | TrueFalseQuestion | OrderingQuestion | ClozeQuestion | ShortAnswerQuestion;
+
+/** The model's grading of a short answer, criterion by criterion. */
+export interface ShortAnswerGrade {
+  awarded: number[]; // points per rubric criterion
+  feedback: string;
+}
+
+/** One segment of a lesson: what the tutor says, and what is on screen meanwhile. */
+export interface LessonScene {
+  narration: string;
   visualPrompt: string;
-  keyPoints: string[];
+  caption: string;
+  englishNarration?: string; // side-by-side translation for lessons in another language
+  turns?: DialogueTurn[]; // dialogue lessons; the narration is their text joined by line breaks
+}
+
+/** One line of a dialogue lesson. */
+export interface DialogueTurn {
+  speaker: number; // index into the lesson's speakers
+  text: string;
+}
+
+/** A voice of a dialogue lesson; the learner's tutor always comes first. */
+export interface LessonSpeaker extends TutorProfile {
+  role: 'tutor' | 'student';
+}
+
+export interface KeyPoint {
+  text: string;
+  source?: SourceCitation;
+}
+
+export interface LessonContent {
+  scenes: LessonScene[];
+  keyPoints: KeyPoint[];
+  language?: string; // ISO 639-1 code of the narration; English when missing
+  speakers?: LessonSpeaker[]; // dialogue lessons only
 }
 
 export enum AppState {
@@ -43,9 +142,11 @@ export enum AppState {
 
 export interface LessonState {
   audioUrl: string | null;
-  imageUrl: string | null;
+  imageUrls: string[]; // one per scene
   content: LessonContent | null;
+  wordTimings: number[] | null; // start time (s) of each narrated word, null when unknown
   isLoading: boolean;
+  fromCache: boolean;
 }
 
 export type Region = 'African' | 'European' | 'Asian' | 'American';
@@ -57,6 +158,67 @@ export interface TutorProfile {
   name: string;
 }
 
+export type LearnerLevel = 'primary' | 'secondary' | 'university' | 'professional';
+export type LessonLength = 'short' | 'standard' | 'long';
+export type ExampleDensity = 'few' | 'balanced' | 'many';
+export type LessonFormat = 'lecture' | 'student' | 'tutors';
+
+/** Who the learner is, per profile; shapes lesson and quiz prompts. */
+export interface LearningPreferences {
+  level: LearnerLevel;
+  lessonLength: LessonLength;
+  exampleDensity: ExampleDensity;
+  lessonFormat: LessonFormat; // a monologue, or a dialogue with a student or a second tutor
+  language: string; // ISO 639-1 code lessons, quizzes and outlines are written in
+  sideBySideEnglish: boolean; // also generate an English transcript for other languages
+}
+
+/** One message of the "Ask the tutor" conversation of a topic. */
+export interface ChatMessage {
+  id: string;
+  role: 'learner' | 'tutor';
+  text: string;
+  pages?: number[]; // document pages the answer is based on
+  createdAt: string;
+}
+
+/** The tutor's reply to a learner question. */
+export interface TutorAnswer {
+  answer: string;
+  pages: number[];
+}
+
+/** A highlighted passage of a lesson transcript, optionally with the learner's note. */
+export interface TranscriptNote {
+  id: string;
+  topicId: string;
+  topicTitle: string;
+  quote: string; // the highlighted words, as narrated
+  offset: number; // character offset of the quote in the lesson script
+  length: number;
+  time: number; // audio timestamp (s) where the passage starts
+  note: string; // empty for a plain highlight
+  createdAt: string;
+}
+
+/** SM-2 recall grade: 0-2 forgotten, 3 hard, 4 good, 5 easy. */
+export type ReviewGrade = 0 | 1 | 2 | 3 | 4 | 5;
+
+/** A spaced-repetition card made from a completed topic's key points and quiz. */
+export interface Flashcard {
+  id: string;
+  topicId: string;
+  topicTitle: string;
+  front: string;
+  back: string;
+  source?: SourceCitation;
+  ease: number; // SM-2 ease factor, at least 1.3
+  interval: number; // days until the next review
+  repetitions: number; // successful reviews in a row
+  due: string; // ISO date of the next review
+  lastReviewedAt?: string;
+}
+
 export interface Feedback {
   id: string;
   topicId: string;
@@ -73,3 +235,27 @@ export interface User {
   avatar: string; // emoji or url
   createdAt: string;
 }
+
+export type UsageOperation = 'analysis' | 'lesson' | 'tts' | 'image' | 'quiz' | 'grading' | 'chat';
+
+/** Tokens billed for one model call, as reported by the model's usage metadata. */
+export interface UsageRecord {
+  operation: UsageOperation;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number; // estimated from list prices
+}
+
+export interface UsageEntry extends UsageRecord {
+  courseId: string; // hash of the course PDF
+  courseTitle: string;
+  createdAt: string;
+  /** Calls rolled up into this entry; past months are kept as monthly totals. Missing means 1. */
+  calls?: number;
+}
+
+export interface UsageLedger {
+  entries: UsageEntry[];
+  monthlyBudgetUsd: number | null;
+}
@@ -1,18 +1,48 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { createHash } from 'crypto';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+/**
+ * Lists the built app shell in precache-manifest.json, which the service worker
+ * (public/sw.js) caches on install. The version changes whenever any file name does.
+ */
+const precacheManifest = (): Plugin => ({
+  name: 'precache-manifest',
+  apply: 'build',
+  enforce: 'post',
+  generateBundle(_options, bundle) {
+    // Browsers load the woff2 fonts; the older formats are only cached if ever requested
+    const files = Object.keys(bundle).filter(file => !/\.(map|woff|ttf)$/.test(file)).sort();
+    const version = createHash('sha256').update(files.join('\n')).digest('hex').slice(0, 12);
+    this.emitFile({
+      type: 'asset',
+      fileName: 'precache-manifest.json',
+      source: JSON.stringify({ version, files: ['./', ...files] }),
+    });
+  },
+});
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    const contentProvider = env.CONTENT_PROVIDER || 'proxy';
+    // The key is only inlined when the client talks to Gemini directly (local development).
+    // By default the API proxy in server/ owns it and it never reaches the bundle.
+    const apiKey = contentProvider === 'gemini' ? env.GEMINI_API_KEY : undefined;
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          '/api': `http://localhost:${env.API_PORT || 8787}`,
+        },
       },
-      plugins: [react()],
+      plugins: [react(), precacheManifest()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(apiKey),
+        'process.env.GEMINI_API_KEY': JSON.stringify(apiKey),
+        'process.env.CONTENT_PROVIDER': JSON.stringify(contentProvider),
+        'process.env.API_BASE_URL': JSON.stringify(env.API_BASE_URL || '')
       },
       resolve: {
         alias: {